@@ -1,13 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import AccountTable from './components/AccountTable';
 import Login from './components/Login';
-import { AppView, UserAccount, AuthState } from './types';
-import { auth, db } from './services/firebase';
+import VaultUnlock from './components/VaultUnlock';
+import BackupRestore from './components/BackupRestore';
+import WorkspaceMembers from './components/WorkspaceMembers';
+import WorkspaceSetup from './components/WorkspaceSetup';
+import SyncStatusBadge from './components/SyncStatusBadge';
+import ConflictSummary from './components/ConflictSummary';
+import UndoToast from './components/UndoToast';
+import AuditLogView from './components/AuditLogView';
+import AiProviderSettings from './components/AiProviderSettings';
+import AiUsagePanel from './components/AiUsagePanel';
+import { AppView, AIAuditRecord, BulkAction, UserAccount, AuthState, UserProfile, Workspace } from './types';
+import { auth } from './services/firebase';
 import { onAuthStateChanged, signOut } from 'firebase/auth';
-import { collection, getDocs, doc, addDoc, updateDoc, deleteDoc, writeBatch } from 'firebase/firestore';
-import { Menu } from 'lucide-react';
+import { isDailyRollupDue, isDailyRollupEnabled, recordDailySnapshots, setDailyRollupEnabled } from './services/snapshots';
+import { isVaultUnlocked as getVaultUnlocked, lockVault, VaultLockedError } from './services/vault';
+import {
+  AccountWrite, BackendStatus, createAccountRepository, deriveSyncStatus, PendingChange, ReadOptions
+} from './services/accountRepository';
+import {
+  FlushResult, flushQueue, loadQueue, pendingChangeFor, prepareBulkUpdate, prepareWrite, QueuedWrite, saveQueue, WriteConflict, writesFor
+} from './services/offlineQueue';
+import { isFirestoreBackend } from './services/config';
+import { DEMO_USER } from './services/mockData';
+import { can, ROLE_LABELS } from './services/roles';
+import { fetchMemberProfile, lastWorkspaceId, listWorkspaces, setActiveWorkspace } from './services/workspaces';
+import { DEFAULT_WORKSPACE_ID, hasLegacyAccounts, isLegacyAdmin, migrateLegacyData } from './services/workspaceMigration';
+import { auditUpdates } from './services/aiAudits';
+import { setUsageActor } from './services/aiUsage';
+import { loadTrashRetentionDays, purgeCutoff, restoreUpdates, saveTrashRetentionDays, trashUpdates } from './services/trash';
+import { RestoreWrites } from './services/backup';
+import { Menu, Lock, Unlock, ShieldAlert } from 'lucide-react';
 
 const App: React.FC = () => {
   const [authState, setAuthState] = useState<AuthState>({
@@ -15,12 +41,72 @@ const App: React.FC = () => {
     user: null
   });
   const [isLoadingAuth, setIsLoadingAuth] = useState(true);
+  // null until the user's memberships have been loaded.
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [isWorkspaceSetupOpen, setIsWorkspaceSetupOpen] = useState(false);
+  const [isMigratingWorkspace, setIsMigratingWorkspace] = useState(false);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
-  const [data, setData] = useState<UserAccount[]>([]);
-  const [isLoadingData, setIsLoadingData] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<{ id: number; apply: PendingChange }[]>([]);
+  const pendingChangeCounter = useRef(0);
+  const [backendStatus, setBackendStatus] = useState<BackendStatus>({ hasPendingWrites: false, fromCache: true });
+  const [syncError, setSyncError] = useState<Error | null>(null);
+  // Bumped to re-subscribe after a listener error.
+  const [subscriptionKey, setSubscriptionKey] = useState(0);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Whether the status listener has reached the server since the workspace was opened.
+  const [hasConnected, setHasConnected] = useState(false);
+  // Writes made while offline, waiting to be flushed; persisted per workspace.
+  const [queuedWrites, setQueuedWrites] = useState<QueuedWrite[]>([]);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const [flushResult, setFlushResult] = useState<FlushResult | null>(null);
+  // Live accounts in the workspace, counted by the backend; null until known.
+  const [accountCounts, setAccountCounts] = useState<{ total: number; archived: number } | null>(null);
+  // The active accounts the dashboard charts, read when it is opened.
+  const [dashboardData, setDashboardData] = useState<UserAccount[] | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isVaultUnlocked, setIsVaultUnlocked] = useState(getVaultUnlocked());
+  const [isVaultPromptOpen, setIsVaultPromptOpen] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [dailyRollup, setDailyRollup] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+  // The most recent move to the trash, offered for undo.
+  const [lastTrashed, setLastTrashed] = useState<{ ids: string[]; label: string; at: number } | null>(null);
+  // The writes that would secure stored credentials, once an admin has scanned for them.
+  const [credentialMigration, setCredentialMigration] = useState<AccountWrite[] | null>(null);
+
+  // All account reads and writes go through the repository for the active profile.
+  const repository = useMemo(() => profile ? createAccountRepository(profile) : null, [profile]);
+
+  // Local edits the server has not confirmed yet, applied to any list of accounts.
+  const applyPending = useCallback(
+    (accounts: UserAccount[]) => [...pendingChanges.map(c => c.apply), ...queuedWrites.map(pendingChangeFor)]
+      .reduce((result, apply) => apply(result), accounts),
+    [pendingChanges, queuedWrites]
+  );
+  // Nothing holds every account: each write fetches the accounts it touches,
+  // as the user currently sees them.
+  const accountsFor = useCallback(async (ids: string[], options?: ReadOptions) => {
+    if (!repository) return [];
+    return applyPending(await repository.getMany(ids, options)).filter(a => ids.includes(a.id));
+  }, [repository, applyPending]);
+  const isReachable = isOnline && !backendStatus.fromCache && !syncError;
+  const syncStatus = deriveSyncStatus({
+    hasError: !!syncError,
+    isOnline,
+    fromCache: backendStatus.fromCache,
+    hasConnected,
+    pendingWrites: pendingChanges.length + queuedWrites.length + (backendStatus.hasPendingWrites ? 1 : 0)
+  });
 
   useEffect(() => {
+    // The local backends need no Firebase project; start signed in as the demo user.
+    if (!isFirestoreBackend()) {
+      setAuthState({ isAuthenticated: true, user: DEMO_USER });
+      setIsLoadingAuth(false);
+      return;
+    }
     if (auth) {
       const unsubscribe = onAuthStateChanged(auth, (user) => {
         if (user) {
@@ -34,6 +120,7 @@ const App: React.FC = () => {
           });
         } else {
           setAuthState({ isAuthenticated: false, user: null });
+          resetWorkspace();
         }
         setIsLoadingAuth(false);
       });
@@ -43,86 +130,391 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const fetchAccounts = async () => {
-    if (!db || !authState.isAuthenticated) return;
-    
-    setIsLoadingData(true);
+  const resetWorkspace = () => {
+    setActiveWorkspace(null);
+    setWorkspaces(null);
+    setWorkspace(null);
+    setProfile(null);
+    setPendingChanges([]);
+    setQueuedWrites([]);
+  };
+
+  // The vault key, loaded accounts and role all belong to one workspace, so
+  // switching starts from a clean, locked state.
+  const selectWorkspace = async (next: Workspace) => {
+    if (!authState.user) return;
+    setActiveWorkspace(next);
+    lockVault();
+    setIsVaultUnlocked(false);
+    setWorkspace(next);
+    setProfile(null);
+    setPendingChanges([]);
+    setQueuedWrites(loadQueue(next.id));
+    setFlushResult(null);
+    setHasConnected(false);
+    setBackendStatus({ hasPendingWrites: false, fromCache: true });
+    setAccountCounts(null);
+    setDashboardData(null);
+    setCredentialMigration(null);
+    setDailyRollup(isDailyRollupEnabled());
+    setTrashRetentionDays(null);
+    setLastTrashed(null);
     try {
-      const querySnapshot = await getDocs(collection(db, "accounts"));
-      const accounts: UserAccount[] = [];
-      querySnapshot.forEach((doc) => {
-        accounts.push({ id: doc.id, ...doc.data() } as UserAccount);
-      });
-      setData(accounts);
+      const member = await fetchMemberProfile(next.id, authState.user.uid);
+      if (member) {
+        setProfile(member);
+        return;
+      }
+      alert(`You are no longer a member of ${next.name}.`);
     } catch (error) {
-      console.error("Error fetching accounts:", error);
-    } finally {
-      setIsLoadingData(false);
+      console.error("Error loading workspace membership:", error);
+      alert(`Could not open ${next.name}.`);
+    }
+    setActiveWorkspace(null);
+    setWorkspace(null);
+    setWorkspaces(prev => prev?.filter(w => w.id !== next.id) ?? null);
+  };
+
+  const handleWorkspaceReady = (next: Workspace) => {
+    setWorkspaces(prev => [...(prev ?? []).filter(w => w.id !== next.id), next].sort((a, b) => a.name.localeCompare(b.name)));
+    setIsWorkspaceSetupOpen(false);
+    selectWorkspace(next);
+  };
+
+  useEffect(() => {
+    const user = authState.user;
+    if (!user) return;
+    const loadWorkspaces = async () => {
+      let memberships = await listWorkspaces(user.uid);
+      // Accounts from before workspaces existed move into a default one when
+      // a legacy admin signs in, and the move resumes if it was interrupted.
+      const legacyWorkspace = memberships.find(w => w.id === DEFAULT_WORKSPACE_ID);
+      if (isFirestoreBackend() && (!legacyWorkspace || legacyWorkspace.role === 'admin')
+        && await isLegacyAdmin(user.uid) && await hasLegacyAccounts()) {
+        setIsMigratingWorkspace(true);
+        try {
+          const migrated = await migrateLegacyData(user, legacyWorkspace);
+          memberships = [...memberships.filter(w => w.id !== migrated.id), migrated].sort((a, b) => a.name.localeCompare(b.name));
+        } finally {
+          setIsMigratingWorkspace(false);
+        }
+      }
+      setWorkspaces(memberships);
+      const preferred = memberships.find(w => w.id === lastWorkspaceId()) ?? memberships[0];
+      if (preferred) await selectWorkspace(preferred);
+    };
+    loadWorkspaces().catch(error => {
+      console.error("Error loading workspaces:", error);
+      setWorkspaces([]);
+    });
+  }, [authState.user?.uid]);
+
+  useEffect(() => {
+    if (!repository) return;
+    setSyncError(null);
+    return repository.subscribeStatus((status) => {
+      setBackendStatus(status);
+      if (!status.fromCache) setHasConnected(true);
+      setSyncError(null);
+    }, (error) => {
+      console.error("Connection listener failed:", error);
+      setSyncError(error);
+    });
+  }, [repository, subscriptionKey]);
+
+  // Admin upkeep, once the backend has been reached. Each job reads only
+  // what it may change: the expired trash, the active accounts when a
+  // roll-up is due, and the whole workspace once per query field version.
+  useEffect(() => {
+    if (!hasConnected || !repository || profile?.role !== 'admin') return;
+    purgeExpiredTrash().catch(err => console.error("Trash purge failed:", err));
+    if (repository.backend === 'firestore') {
+      if (isDailyRollupDue()) {
+        repository.list({ archived: false })
+          .then(recordDailySnapshots)
+          .catch(err => console.error("Daily snapshot roll-up failed:", err));
+      }
+      repository.backfillQueryFields().catch(err => console.error("Query field backfill failed:", err));
+    }
+  }, [hasConnected, repository]);
+
+  // Counted again on every change of view, which is when they are shown.
+  useEffect(() => {
+    if (!repository) return;
+    let cancelled = false;
+    Promise.all([repository.count({ archived: false }), repository.count({ archived: true })])
+      .then(([active, archived]) => { if (!cancelled) setAccountCounts({ total: active + archived, archived }); })
+      .catch(err => console.error("Counting accounts failed:", err));
+    return () => { cancelled = true; };
+  }, [repository, currentView]);
+
+  useEffect(() => {
+    if (!repository || currentView !== AppView.DASHBOARD) return;
+    let cancelled = false;
+    repository.list({ archived: false })
+      .then(accounts => { if (!cancelled) setDashboardData(accounts); })
+      .catch(err => console.error("Loading dashboard accounts failed:", err));
+    return () => { cancelled = true; };
+  }, [repository, currentView]);
+
+  // AI requests are attributed to the member of the active workspace.
+  useEffect(() => setUsageActor(profile), [profile]);
+
+  useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+    loadTrashRetentionDays()
+      .then(days => { if (!cancelled) setTrashRetentionDays(days); })
+      .catch(err => console.error("Loading trash retention failed:", err));
+    return () => { cancelled = true; };
+  }, [profile]);
+
+  // Purges accounts that have been in the trash longer than the workspace keeps them.
+  const purgeExpiredTrash = async () => {
+    if (!repository) return;
+    const deletedBefore = purgeCutoff(await loadTrashRetentionDays());
+    if (!deletedBefore) return;
+    const expired = await repository.list({ archived: false, deleted: true, deletedBefore });
+    if (expired.length) await repository.batch(expired.map((a): AccountWrite => ({ type: 'delete', id: a.id, current: a })));
+  };
+
+  const handleTrashRetentionChange = async (days: number) => {
+    try {
+      await saveTrashRetentionDays(days);
+    } catch (error) {
+      console.error("Saving trash retention failed:", error);
+      alert("Could not save the trash retention period.");
     }
   };
 
   useEffect(() => {
-    if (authState.isAuthenticated) {
-      fetchAccounts();
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Shows the change immediately, then commits in the background. If the
+  // write fails the change is dropped, which restores the listener's state.
+  const commitOptimistically = async (change: PendingChange, writes: AccountWrite[], failureMessage: string) => {
+    if (!repository) return;
+    const changeId = ++pendingChangeCounter.current;
+    setPendingChanges(prev => [...prev, { id: changeId, apply: change }]);
+    try {
+      await repository.batch(writes);
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      alert(`${failureMessage}. Your change has been rolled back.`);
+    } finally {
+      setPendingChanges(prev => prev.filter(c => c.id !== changeId));
     }
-  }, [authState.isAuthenticated]);
+  };
+
+  const updateQueue = (workspaceId: string, update: (queue: QueuedWrite[]) => QueuedWrite[]) => {
+    setQueuedWrites(prev => {
+      const next = update(prev);
+      saveQueue(workspaceId, next);
+      return next;
+    });
+  };
+
+  // Commits straight away when the backend is reachable. Otherwise, or while
+  // older writes are still queued, the write joins the offline queue so that
+  // writes always land in the order they were made.
+  const submitWrite = async (write: QueuedWrite, accounts: UserAccount[], failureMessage: string) => {
+    if (!workspace) return;
+    if (!isReachable || queuedWrites.length > 0) {
+      updateQueue(workspace.id, queue => [...queue, write]);
+      return;
+    }
+    commitOptimistically(pendingChangeFor(write), writesFor(write, accounts), failureMessage);
+  };
+
+  useEffect(() => {
+    if (!workspace || !repository || !isReachable || isFlushing || queuedWrites.length === 0) return;
+    const workspaceId = workspace.id;
+    setIsFlushing(true);
+    flushQueue(queuedWrites, repository, (id) => updateQueue(workspaceId, queue => queue.filter(w => w.id !== id)))
+      .then(result => {
+        if (result.conflicts.length || result.missing.length || result.failed.length) setFlushResult(result);
+      })
+      .finally(() => setIsFlushing(false));
+  }, [workspace?.id, repository, isReachable, isFlushing, queuedWrites.length]);
 
   const handleAddAccount = async (newAccount: Omit<UserAccount, 'id'>) => {
-    if (!db) return;
+    if (!repository) return;
     try {
-        await addDoc(collection(db, "accounts"), newAccount);
-        await fetchAccounts();
+        const write = await prepareWrite('create', [repository.newId()], `Add ${newAccount.username}`, [], newAccount);
+        await submitWrite(write, [], "Failed to add account");
     } catch (error) {
+        if (error instanceof VaultLockedError) {
+          setIsVaultPromptOpen(true);
+          throw error;
+        }
         console.error("Error adding account:", error);
         alert("Failed to add account.");
     }
   };
 
   const handleUpdateAccount = async (id: string, updates: Partial<UserAccount>) => {
-    if (!db) return;
+    if (!repository) return;
     try {
-      const accountRef = doc(db, "accounts", id);
-      await updateDoc(accountRef, updates);
-      await fetchAccounts();
+      // Credentials are fetched too, so the audit log can tell whether they changed.
+      const accounts = await accountsFor([id], { credentials: true });
+      const write = await prepareWrite('update', [id], `Edit ${accounts[0]?.username ?? 'account'}`, accounts, updates);
+      await submitWrite(write, accounts, "Failed to update account");
     } catch (error) {
+      if (error instanceof VaultLockedError) {
+        setIsVaultPromptOpen(true);
+        throw error;
+      }
       console.error("Error updating account:", error);
       alert("Failed to update account.");
     }
   };
 
+  // Deleting moves accounts to the trash; only purging removes them.
+  const moveToTrash = async (ids: string[], label: string | ((accounts: UserAccount[]) => string)) => {
+    if (!profile) return;
+    const accounts = await accountsFor(ids);
+    const text = typeof label === 'string' ? label : label(accounts);
+    const write = prepareBulkUpdate(text, accounts, Object.fromEntries(accounts.map(a => [a.id, trashUpdates(a, profile)])));
+    await submitWrite(write, accounts, "Failed to move to trash");
+    setLastTrashed({ ids, label: text, at: Date.now() });
+  };
+
   const handleDeleteAccount = async (id: string) => {
-    if (!db) return;
+    if (!repository) return;
+    await moveToTrash([id], accounts => `Moved ${accounts[0]?.username ?? 'account'} to trash`);
+  };
+
+  const handleBulkAction = async (ids: string[], action: BulkAction) => {
+    if (!repository || !profile) return;
+    const label = `${action[0].toUpperCase()}${action.slice(1)} ${ids.length} account${ids.length === 1 ? '' : 's'}`;
+    if (action === 'delete') {
+      await moveToTrash(ids, `Moved ${ids.length} account${ids.length === 1 ? '' : 's'} to trash`);
+    } else if (action === 'recover') {
+      const accounts = await accountsFor(ids);
+      await submitWrite(prepareBulkUpdate(label, accounts, Object.fromEntries(accounts.map(a => [a.id, restoreUpdates(a, profile)]))), accounts, "Restore from trash failed");
+    } else if (action === 'purge') {
+      const accounts = await accountsFor(ids);
+      await submitWrite(await prepareWrite('delete', ids, label, accounts), accounts, "Purge failed");
+    } else {
+      const accounts = await accountsFor(ids);
+      await submitWrite(await prepareWrite('update', ids, label, accounts, { isArchived: action === 'archive' }), accounts, "Bulk operation failed");
+    }
+  };
+
+  const handleBulkEdit = async (updatesById: Record<string, Partial<UserAccount>>) => {
+    if (!repository) return;
+    const count = Object.keys(updatesById).length;
+    const accounts = await accountsFor(Object.keys(updatesById));
+    const write = prepareBulkUpdate(`Bulk edit ${count} account${count === 1 ? '' : 's'}`, accounts, updatesById);
+    await submitWrite(write, accounts, "Bulk edit failed");
+  };
+
+  const handleMergeAccounts = async (updatesById: Record<string, Partial<UserAccount>>) => {
+    if (!repository) return;
+    const count = Object.keys(updatesById).length;
+    const accounts = await accountsFor(Object.keys(updatesById));
+    const write = prepareBulkUpdate(`Merge ${count} accounts`, accounts, updatesById);
+    await submitWrite(write, accounts, "Merge failed");
+  };
+
+  const handleSaveAiAudit = async (id: string, record: AIAuditRecord) => {
+    const accounts = await accountsFor([id]);
+    const account = accounts[0];
+    if (!repository || !account) return;
+    const write = prepareBulkUpdate(`AI audit of ${account.username}`, accounts, { [id]: auditUpdates(account, record) });
+    await submitWrite(write, accounts, "Saving AI audit failed");
+  };
+
+  const handleDiscardQueuedWrite = (id: string) => {
+    if (workspace) updateQueue(workspace.id, queue => queue.filter(w => w.id !== id));
+  };
+
+  const handleKeepTheirs = async (conflict: WriteConflict) => {
+    await handleUpdateAccount(conflict.accountId, { [conflict.field]: conflict.theirs });
+  };
+
+  const handleScanCredentials = async () => {
+    if (!repository) return;
+    setIsMigrating(true);
     try {
-      await deleteDoc(doc(db, "accounts", id));
-      await fetchAccounts();
+      setCredentialMigration(await repository.findCredentialMigrations());
     } catch (error) {
-      console.error("Error deleting account:", error);
-      alert("Failed to delete account.");
+      console.error("Credential scan failed:", error);
+      alert("Could not check the stored credentials.");
+    } finally {
+      setIsMigrating(false);
     }
   };
 
-  const handleBulkAction = async (ids: string[], action: 'archive' | 'restore' | 'delete') => {
-    if (!db) return;
+  const handleMigrateCredentials = async () => {
+    if (!credentialMigration) return;
+    if (!isVaultUnlocked) {
+      setIsVaultPromptOpen(true);
+      return;
+    }
+    setIsMigrating(true);
     try {
-      const batch = writeBatch(db);
-      if (action === 'delete') {
-        ids.forEach(id => batch.delete(doc(db, "accounts", id)));
-      } else {
-        const isArchived = action === 'archive';
-        ids.forEach(id => {
-          batch.update(doc(db, "accounts", id), { isArchived });
-        });
-      }
-      await batch.commit();
-      await fetchAccounts();
+      const count = credentialMigration.length;
+      await repository!.batch(credentialMigration);
+      setCredentialMigration([]);
+      alert(`Secured credentials on ${count} account${count === 1 ? '' : 's'}.`);
     } catch (error) {
-      console.error("Bulk action failed:", error);
-      alert("Bulk operation failed.");
+      console.error("Credential migration failed:", error);
+      alert("Credential migration failed.");
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  const handleImportAccounts = async (
+    creates: Omit<UserAccount, 'id'>[],
+    updates: { id: string; updates: Partial<UserAccount> }[],
+    onProgress?: (committed: number, total: number) => void
+  ) => {
+    if (!repository) return;
+    try {
+      const current = await accountsFor(updates.map(entry => entry.id));
+      await repository.batch([
+        ...creates.map((account): AccountWrite => ({ type: 'create', id: repository.newId(), data: account })),
+        ...updates.map((entry): AccountWrite => ({ type: 'update', id: entry.id, updates: entry.updates, current: current.find(a => a.id === entry.id) }))
+      ], onProgress);
+    } catch (error) {
+      if (error instanceof VaultLockedError) setIsVaultPromptOpen(true);
+      console.error("Import failed:", error);
+      throw error;
+    }
+  };
+
+  const handleRestoreBackup = async (
+    writes: RestoreWrites['writes'],
+    deletes: string[],
+    onProgress?: (committed: number, total: number) => void
+  ) => {
+    if (!repository) return;
+    try {
+      const current = await accountsFor(deletes, { credentials: true });
+      await repository.batch([
+        ...writes.map((w): AccountWrite => ({ type: 'set', id: w.id, data: w.data, current: w.current })),
+        ...deletes.map((id): AccountWrite => ({ type: 'delete', id, current: current.find(a => a.id === id) }))
+      ], onProgress);
+    } catch (error) {
+      console.error("Restore failed:", error);
+      throw error;
     }
   };
 
   const handleLogout = async () => {
-    if (auth) {
+    lockVault();
+    setIsVaultUnlocked(false);
+    resetWorkspace();
+    if (auth && isFirestoreBackend()) {
       await signOut(auth);
     } else {
       setAuthState({ isAuthenticated: false, user: null });
@@ -137,31 +529,66 @@ const App: React.FC = () => {
     );
   }
 
-  if (!authState.isAuthenticated) {
-    return <Login onLoginSuccess={() => {}} />;
+  if (!authState.isAuthenticated || !authState.user) {
+    return (
+      <Login
+        onLoginSuccess={() => {}}
+        onContinueDemo={isFirestoreBackend() ? undefined : () => setAuthState({ isAuthenticated: true, user: DEMO_USER })}
+      />
+    );
+  }
+
+  if (isMigratingWorkspace) {
+    return (
+      <div className="h-screen w-full bg-slate-900 flex flex-col items-center justify-center gap-4">
+        <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+        <p className="text-slate-400">Moving your existing accounts into a workspace...</p>
+      </div>
+    );
+  }
+
+  if (workspaces && !workspace) {
+    return <WorkspaceSetup user={authState.user} onReady={handleWorkspaceReady} onLogout={handleLogout} />;
+  }
+
+  if (!workspaces || !workspace || !profile || !repository) {
+    return (
+      <div className="h-screen w-full bg-slate-900 flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
   }
 
   const renderContent = () => {
-    if (isLoadingData && data.length === 0) {
-       return (
+    const loadingDatabase = (
          <div className="flex h-full items-center justify-center">
             <div className="flex flex-col items-center gap-4">
                 <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
                 <p className="text-slate-400">Loading database...</p>
             </div>
          </div>
-       );
-    }
+    );
+    if (!accountCounts) return loadingDatabase;
 
-    if (!isLoadingData && data.length === 0 && currentView !== AppView.SETTINGS) {
+    // The audit log outlives purged accounts, so it is shown even when the database is empty.
+    if (accountCounts.total === 0 && currentView !== AppView.SETTINGS && currentView !== AppView.AUDIT) {
         if (currentView === AppView.ACCOUNTS) {
              return (
               <AccountTable 
-                data={data} 
+                applyPending={applyPending}
                 onAddAccount={handleAddAccount} 
                 onUpdateAccount={handleUpdateAccount} 
                 onDeleteAccount={handleDeleteAccount}
                 onBulkAction={handleBulkAction}
+                onBulkEdit={handleBulkEdit}
+                onMergeAccounts={handleMergeAccounts}
+                onSaveAiAudit={handleSaveAiAudit}
+                onImportAccounts={handleImportAccounts}
+                isVaultUnlocked={isVaultUnlocked}
+                onRequestVaultUnlock={() => setIsVaultPromptOpen(true)}
+                currentUser={authState.user}
+                profile={profile}
+                repository={repository}
               />
              );
         }
@@ -187,17 +614,29 @@ const App: React.FC = () => {
 
     switch (currentView) {
       case AppView.DASHBOARD:
-        return <Dashboard data={data.filter(acc => !acc.isArchived)} />;
+      default:
+        return dashboardData ? <Dashboard data={applyPending(dashboardData).filter(acc => !acc.isDeleted && !acc.isArchived)} profile={profile} /> : loadingDatabase;
       case AppView.ACCOUNTS:
         return (
           <AccountTable 
-            data={data} 
+            applyPending={applyPending} 
             onAddAccount={handleAddAccount} 
             onUpdateAccount={handleUpdateAccount} 
             onDeleteAccount={handleDeleteAccount}
             onBulkAction={handleBulkAction}
+            onBulkEdit={handleBulkEdit}
+            onMergeAccounts={handleMergeAccounts}
+            onSaveAiAudit={handleSaveAiAudit}
+            onImportAccounts={handleImportAccounts}
+            isVaultUnlocked={isVaultUnlocked}
+            onRequestVaultUnlock={() => setIsVaultPromptOpen(true)}
+            currentUser={authState.user}
+            profile={profile}
+            repository={repository}
           />
         );
+      case AppView.AUDIT:
+        return can(profile, 'audit:view') ? <AuditLogView profile={profile} /> : null;
       case AppView.SETTINGS:
         return (
             <div className="flex flex-col items-center justify-center h-full">
@@ -208,27 +647,95 @@ const App: React.FC = () => {
                         <div className="w-12 h-12 rounded-full bg-indigo-500 flex items-center justify-center text-white font-bold uppercase">
                           {authState.user?.displayName?.[0] || authState.user?.email?.[0]}
                         </div>
-                        <div className="text-left">
+                        <div className="text-left flex-1">
                           <p className="text-white font-medium">{authState.user?.displayName || 'Administrator'}</p>
                           <p className="text-sm text-slate-400">{authState.user?.email}</p>
                         </div>
+                        <span className="px-2 py-1 rounded bg-indigo-500/10 text-indigo-300 text-[10px] font-black uppercase">{ROLE_LABELS[profile.role]}</span>
                       </div>
                       <div className="grid grid-cols-2 gap-4">
                         <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left">
                           <p className="text-xs text-slate-500 uppercase font-bold mb-1">Total Entries</p>
-                          <p className="text-xl text-white font-bold">{data.length}</p>
+                          <p className="text-xl text-white font-bold">{accountCounts.total}</p>
                         </div>
                         <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left">
                           <p className="text-xs text-slate-500 uppercase font-bold mb-1">Archived</p>
-                          <p className="text-xl text-white font-bold">{data.filter(a => a.isArchived).length}</p>
+                          <p className="text-xl text-white font-bold">{accountCounts.archived}</p>
+                        </div>
+                      </div>
+                      <AiProviderSettings />
+                      <AiUsagePanel profile={profile} />
+                      {profile.role === 'admin' && (<>
+                      <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left space-y-3">
+                        <div className="flex items-center justify-between">
+                          <p className="text-xs text-slate-500 uppercase font-bold">Credential Vault</p>
+                          <span className={`flex items-center gap-1 text-xs font-bold ${isVaultUnlocked ? 'text-emerald-400' : 'text-slate-400'}`}>
+                            {isVaultUnlocked ? <><Unlock className="w-3 h-3" /> Unlocked</> : <><Lock className="w-3 h-3" /> Locked</>}
+                          </span>
                         </div>
+                        {credentialMigration === null ? (
+                          <div className="flex items-center justify-between gap-4">
+                            <p className="text-sm text-slate-400">Check every account for plaintext or unprotected credentials.</p>
+                            <button
+                              onClick={handleScanCredentials}
+                              disabled={isMigrating}
+                              className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-xs font-bold whitespace-nowrap disabled:opacity-50"
+                            >
+                              {isMigrating ? 'Scanning...' : 'Scan'}
+                            </button>
+                          </div>
+                        ) : credentialMigration.length ? (
+                          <div className="flex items-center justify-between gap-4">
+                            <p className="text-sm text-amber-400 flex items-center gap-2">
+                              <ShieldAlert className="w-4 h-4 flex-shrink-0" /> {credentialMigration.length} accounts store plaintext or unprotected credentials.
+                            </p>
+                            <button
+                              onClick={handleMigrateCredentials}
+                              disabled={isMigrating}
+                              className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg text-xs font-bold whitespace-nowrap disabled:opacity-50"
+                            >
+                              {isMigrating ? 'Encrypting...' : 'Encrypt Now'}
+                            </button>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-slate-400">All stored credentials are encrypted and access-controlled.</p>
+                        )}
                       </div>
+                      <label className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left flex items-center justify-between gap-4 cursor-pointer">
+                        <div>
+                          <p className="text-xs text-slate-500 uppercase font-bold mb-1">Daily Metric Roll-up</p>
+                          <p className="text-sm text-slate-400">Record a followers/engagement snapshot for every active account once a day.</p>
+                        </div>
+                        <input
+                          type="checkbox" checked={dailyRollup}
+                          onChange={(e) => { setDailyRollupEnabled(e.target.checked); setDailyRollup(e.target.checked); }}
+                          className="rounded border-slate-700 bg-slate-800 text-indigo-600"
+                        />
+                      </label>
+                      <label className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left flex items-center justify-between gap-4">
+                        <div>
+                          <p className="text-xs text-slate-500 uppercase font-bold mb-1">Trash Retention</p>
+                          <p className="text-sm text-slate-400">Deleted accounts are purged after this many days. 0 keeps them until purged by hand.</p>
+                        </div>
+                        <input
+                          type="number" min={0} max={3650} value={trashRetentionDays ?? ''} disabled={trashRetentionDays === null}
+                          onChange={(e) => setTrashRetentionDays(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                          onBlur={() => { if (trashRetentionDays !== null) handleTrashRetentionChange(trashRetentionDays); }}
+                          className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </label>
+                      <BackupRestore loadAccounts={() => repository!.list(undefined, { credentials: true })} exportedBy={authState.user?.email ?? null} onRestore={handleRestoreBackup} />
+                      </>)}
+                      {isFirestoreBackend() && <WorkspaceMembers
+                        workspaceName={workspace.name}
+                        currentUid={profile.uid}
+                        currentEmail={authState.user?.email ?? null}
+                        canManage={can(profile, 'roles:manage')}
+                      />}
                     </div>
                 </div>
             </div>
         );
-      default:
-        return <Dashboard data={data} />;
     }
   };
 
@@ -240,8 +747,42 @@ const App: React.FC = () => {
         onLogout={handleLogout} 
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
+        workspaces={workspaces}
+        activeWorkspaceId={workspace.id}
+        onSwitchWorkspace={(id) => {
+          const next = workspaces.find(w => w.id === id);
+          if (next) selectWorkspace(next);
+        }}
+        onAddWorkspace={isFirestoreBackend() ? () => setIsWorkspaceSetupOpen(true) : undefined}
+        showAuditLog={can(profile, 'audit:view')}
       />
+
+      {lastTrashed && (
+        <UndoToast
+          key={lastTrashed.at}
+          message={lastTrashed.label}
+          onUndo={() => {
+            handleBulkAction(lastTrashed.ids, 'recover');
+            setLastTrashed(null);
+          }}
+          onDismiss={() => setLastTrashed(null)}
+        />
+      )}
+      {flushResult && (
+        <ConflictSummary result={flushResult} onKeepTheirs={handleKeepTheirs} onClose={() => setFlushResult(null)} />
+      )}
+
+      {isWorkspaceSetupOpen && (
+        <WorkspaceSetup user={authState.user} onReady={handleWorkspaceReady} onClose={() => setIsWorkspaceSetupOpen(false)} />
+      )}
       
+      {isVaultPromptOpen && (
+        <VaultUnlock
+          onUnlocked={() => { setIsVaultUnlocked(true); setIsVaultPromptOpen(false); }}
+          onClose={() => setIsVaultPromptOpen(false)}
+        />
+      )}
+
       <main className="flex-1 flex flex-col h-full overflow-hidden w-full">
         <header className="h-16 border-b border-slate-800 bg-slate-900 flex items-center px-4 md:px-8 justify-between flex-shrink-0">
           <div className="flex items-center gap-4">
@@ -251,20 +792,32 @@ const App: React.FC = () => {
               <h2 className="text-lg font-semibold text-slate-200">
                 {currentView === AppView.DASHBOARD && 'Operational Dashboard'}
                 {currentView === AppView.ACCOUNTS && 'Data Management'}
+                {currentView === AppView.AUDIT && 'Audit Log'}
                 {currentView === AppView.SETTINGS && 'Account Settings'}
               </h2>
           </div>
           <div className="flex items-center gap-4">
-             <div className="hidden md:flex items-center gap-2 px-3 py-1.5 bg-slate-800 rounded-full border border-slate-700">
-                <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></div>
-                <span className="text-xs font-medium text-slate-300">Live Sync Active</span>
-             </div>
+             {can(profile, 'credentials:reveal') && <button
+                onClick={() => isVaultUnlocked ? (lockVault(), setIsVaultUnlocked(false)) : setIsVaultPromptOpen(true)}
+                title={isVaultUnlocked ? 'Lock credential vault' : 'Unlock credential vault'}
+                className={`p-2 rounded-full border transition-colors ${isVaultUnlocked ? 'border-emerald-500/40 text-emerald-400 bg-emerald-500/10' : 'border-slate-700 text-slate-400 bg-slate-800 hover:text-white'}`}
+             >
+                {isVaultUnlocked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+             </button>}
+             <SyncStatusBadge
+                status={syncStatus}
+                error={syncError}
+                onRetry={() => setSubscriptionKey(k => k + 1)}
+                queue={queuedWrites}
+                isFlushing={isFlushing}
+                onDiscard={handleDiscardQueuedWrite}
+             />
              <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-xs font-bold text-white uppercase ring-2 ring-slate-800">
                 {authState.user?.displayName?.[0] || authState.user?.email?.[0]}
              </div>
           </div>
         </header>
-        <div className="flex-1 overflow-auto p-4 md:p-8">{renderContent()}</div>
+        <div key={workspace.id} className="flex-1 overflow-auto p-4 md:p-8">{renderContent()}</div>
       </main>
     </div>
   );
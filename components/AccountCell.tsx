@@ -0,0 +1,71 @@
+import React from 'react';
+import { UserAccount } from '../types';
+import { AccountField, columnFor } from '../services/accountColumns';
+import { platformFor } from '../services/platforms';
+import PlatformBadge from './PlatformBadge';
+import SentimentBadge from './SentimentBadge';
+import { Briefcase, Star } from 'lucide-react';
+
+interface AccountCellProps {
+  account: UserAccount;
+  field: AccountField;
+}
+
+const formatCount = (value: number) =>
+  value > 1000000 ? (value / 1000000).toFixed(1) + 'M' : (value / 1000).toFixed(1) + 'k';
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+// One table cell for a non-identity column.
+const AccountCell: React.FC<AccountCellProps> = ({ account, field }) => {
+  const value = account[field];
+
+  switch (field) {
+    case 'accountManager':
+      return (
+        <span className="text-slate-300 font-medium text-xs flex items-center gap-1.5">
+          <Briefcase className="w-3 h-3 text-indigo-400" /> {account.accountManager || 'Unassigned'}
+        </span>
+      );
+    case 'platform':
+      return <PlatformBadge platform={account.platform} />;
+    case 'followers':
+      return (
+        <>
+          <div className="text-white font-mono font-bold" title={platformFor(account.platform).metrics.audience}>{formatCount(account.followers)}</div>
+          <div className="text-[10px] text-slate-500">{account.engagementRate}% {platformFor(account.platform).metrics.engagement.toLowerCase()}</div>
+        </>
+      );
+    case 'engagementRate':
+      return <span className="text-white font-mono">{account.engagementRate}%</span>;
+    case 'status':
+      return (
+        <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${account.status === 'Active' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>
+          {account.status}
+        </span>
+      );
+    case 'tags':
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(account.tags ?? []).map(tag => (
+            <span key={tag} className="px-1.5 py-0.5 bg-slate-700 rounded text-[10px] text-slate-300">#{tag}</span>
+          ))}
+        </div>
+      );
+    case 'lastAuditSentiment':
+      return value ? <SentimentBadge sentiment={String(value)} /> : <span className="text-slate-600">—</span>;
+    case 'isFavorite':
+      return account.isFavorite ? <Star className="w-3 h-3 text-yellow-500 fill-yellow-500" /> : null;
+  }
+
+  if (value === undefined || value === null || value === '') return <span className="text-slate-600">—</span>;
+  const column = columnFor(field);
+  if (column.type === 'boolean') return <span className="text-xs">{value ? 'Yes' : 'No'}</span>;
+  if (column.type === 'date') return <span className="text-xs font-mono">{formatDate(String(value))}</span>;
+  return <span className="block truncate text-xs text-slate-300" title={String(value)}>{String(value)}</span>;
+};
+
+export default AccountCell;
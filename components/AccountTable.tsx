@@ -1,85 +1,426 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { UserAccount, ActivityLog, AIAnalysisResult } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { UserAccount, ActivityLog, AIAuditRecord, AuthState, BulkAction, UserProfile } from '../types';
 import { analyzeAccount, getPlatformTrends } from '../services/geminiService';
+import { GroundedAnswer } from '../services/llm';
+import { auditRecordFor, latestAudit } from '../services/aiAudits';
+import { decryptCredentials, decryptSecret, isEncrypted, VaultLockedError } from '../services/vault';
+import { decodeQrImage, normalizeTotpInput, validateTotpSecret } from '../services/totp';
+import { AccountErrors, AccountValidationError, normalizeAccountInput, validateAccount } from '../services/accountSchema';
+import TotpCode from './TotpCode';
+import ImportWizard from './ImportWizard';
+import ExportDialog from './ExportDialog';
+import BulkEditPanel from './BulkEditPanel';
+import DuplicatesPanel from './DuplicatesPanel';
+import { DUPLICATE_REASON_LABELS, findDuplicatesOf } from '../services/duplicates';
+import GrowthSparkline from './GrowthSparkline';
+import AuditTimeline from './AuditTimeline';
+import AiAuditCard from './AiAuditCard';
+import ContentStudio from './ContentStudio';
+import BatchAuditPanel from './BatchAuditPanel';
+import AskPanel from './AskPanel';
+import { can } from '../services/roles';
+import {
+  AccountFilters, AccountPage, AccountRepository, matchesAccountFilters, PageCursor, ReadOptions
+} from '../services/accountRepository';
+import {
+  ACCOUNT_COLUMNS, AccountField, columnFor, ColumnSort, compareByColumns, IDENTITY_FIELD, MIN_COLUMN_WIDTH, toServerSort
+} from '../services/accountColumns';
+import { loadTableLayout, saveTableLayout } from '../services/tableLayout';
+import AccountCell from './AccountCell';
+import PlatformBadge from './PlatformBadge';
+import { PLATFORMS, platformFor, profileUrlFor } from '../services/platforms';
+import { matchesSearch, parseSearchQuery } from '../services/searchQuery';
+import SearchQueryInput from './SearchQueryInput';
+import SavedViewTabs from './SavedViewTabs';
+import { DEFAULT_VIEW_STATE, SavedView, TableViewState, toAccountFilters } from '../services/savedViews';
 import { 
-  Search, ChevronLeft, ChevronRight, XCircle, Plus, Lock, Globe, Phone, Mail, User,
-  ArrowUpDown, Download, Star, MapPin, Tag, Archive, RefreshCw, Briefcase, Calendar, 
-  Users, Clock, MoreVertical, Edit2, Trash2, Copy, Check, Sparkles, Zap, ExternalLink, Eye, EyeOff
+  ChevronLeft, ChevronRight, XCircle, Plus, Lock, Globe, Phone, Mail, User,
+  ArrowUpDown, ArrowUp, ArrowDown, GripVertical, Download, Star, MapPin, Tag, Archive, RefreshCw, Calendar, 
+  Users, Clock, Columns3, MoreVertical, Edit2, PencilLine, RotateCcw, Trash2, Copy, Check, Sparkles, Zap, ExternalLink, Eye, EyeOff, QrCode, ShieldCheck, Upload,
+  CopyCheck, AlertTriangle, MessageSquare
 } from 'lucide-react';
 
 interface AccountTableProps {
-  data: UserAccount[];
+  // Applies edits that are not yet on the server to the rows of a page.
+  applyPending: (accounts: UserAccount[]) => UserAccount[];
   onAddAccount: (account: Omit<UserAccount, 'id'>) => Promise<void>;
   onUpdateAccount: (id: string, updates: Partial<UserAccount>) => Promise<void>;
   onDeleteAccount: (id: string) => Promise<void>;
-  onBulkAction: (ids: string[], action: 'archive' | 'restore' | 'delete') => Promise<void>;
+  onBulkAction: (ids: string[], action: BulkAction) => Promise<void>;
+  onBulkEdit: (updatesById: Record<string, Partial<UserAccount>>) => Promise<void>;
+  // Keeps one of several duplicate records and archives the rest.
+  onMergeAccounts: (updatesById: Record<string, Partial<UserAccount>>) => Promise<void>;
+  onSaveAiAudit: (id: string, record: AIAuditRecord) => Promise<void>;
+  onImportAccounts: React.ComponentProps<typeof ImportWizard>['onCommit'];
+  isVaultUnlocked: boolean;
+  onRequestVaultUnlock: () => void;
+  currentUser: AuthState['user'];
+  profile: UserProfile;
+  repository: AccountRepository;
 }
 
-type SortConfig = { key: keyof UserAccount; direction: 'asc' | 'desc' } | null;
+const PAGE_SIZES = [10, 25, 50, 100];
+// Identity and the row commands are always shown.
+const OPTIONAL_COLUMNS = ACCOUNT_COLUMNS.filter(c => c.field !== IDENTITY_FIELD);
+const CHECKBOX_COLUMN_WIDTH = 56;
+const COMMANDS_COLUMN_WIDTH = 150;
+const STATUSES: UserAccount['status'][] = ['Active', 'Verified', 'Shadowbanned', 'Suspended'];
 
 const AccountTable: React.FC<AccountTableProps> = ({ 
-  data, onAddAccount, onUpdateAccount, onDeleteAccount, onBulkAction 
+  applyPending, onAddAccount, onUpdateAccount, onDeleteAccount, onBulkAction, onBulkEdit, onMergeAccounts, onSaveAiAudit, onImportAccounts, isVaultUnlocked, onRequestVaultUnlock, currentUser, profile, repository
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedAccount, setSelectedAccount] = useState<UserAccount | null>(null);
-  const [viewMode, setViewMode] = useState<'active' | 'archived'>('active');
-  const [sortConfig, setSortConfig] = useState<SortConfig>(null);
-  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [viewMode, setViewMode] = useState<'active' | 'archived' | 'trash'>(DEFAULT_VIEW_STATE.archived ? 'archived' : 'active');
+  const [sortConfig, setSortConfig] = useState<ColumnSort[]>(DEFAULT_VIEW_STATE.sort);
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(DEFAULT_VIEW_STATE.favoritesOnly);
+  const [platformFilter, setPlatformFilter] = useState<UserAccount['platform'] | ''>(DEFAULT_VIEW_STATE.platform);
+  const [statusFilter, setStatusFilter] = useState<UserAccount['status'] | ''>(DEFAULT_VIEW_STATE.status);
+  // null means any manager; '' matches unassigned accounts.
+  const [managerFilter, setManagerFilter] = useState<string | null>(DEFAULT_VIEW_STATE.accountManager);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [pageSize, setPageSize] = useState(DEFAULT_VIEW_STATE.pageSize);
+  const [visibleColumns, setVisibleColumns] = useState<AccountField[]>(DEFAULT_VIEW_STATE.columns);
+  const [columnWidths, setColumnWidths] = useState<Partial<Record<AccountField, number>>>({});
+  const [draggedColumn, setDraggedColumn] = useState<AccountField | null>(null);
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false);
+  const isLayoutLoaded = useRef(false);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  // cursors[i] is where page i + 1 starts; pages are only reachable in order.
+  const [cursors, setCursors] = useState<PageCursor[]>([null]);
+  const [page, setPage] = useState<AccountPage | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isPageLoading, setIsPageLoading] = useState(false);
+  // Bumped whenever the page listener reports a change, to re-run the count.
+  const [countKey, setCountKey] = useState(0);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showPass, setShowPass] = useState(false);
+  const [revealedCredentials, setRevealedCredentials] = useState<{ password: string; twoFactorSecret: string } | null>(null);
+  // Page rows carry no credentials; the drawer reads the open account's own.
+  const [drawerCredentials, setDrawerCredentials] = useState<Pick<UserAccount, 'id' | 'password' | 'twoFactorSecret'> | null>(null);
+  // Bumped after saving the form, so the drawer picks up changed credentials.
+  const [credentialsKey, setCredentialsKey] = useState(0);
+  // Accounts matching the filters, listened to only while the table pages them itself.
+  const [matching, setMatching] = useState<UserAccount[] | null>(null);
+  // Accounts the open panel works on, read when it was opened.
+  const [panelAccounts, setPanelAccounts] = useState<UserAccount[]>([]);
+  const [isPanelLoading, setIsPanelLoading] = useState(false);
+  const [managers, setManagers] = useState<string[]>([]);
 
   // AI States
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<AIAnalysisResult | null>(null);
-  const [platformTrends, setPlatformTrends] = useState<{text: string, sources: any[]} | null>(null);
+  // An audit of an account the user cannot edit is shown but not saved.
+  const [analysis, setAnalysis] = useState<AIAuditRecord | null>(null);
+  const [platformTrends, setPlatformTrends] = useState<GroundedAnswer | null>(null);
+  const [trendsError, setTrendsError] = useState<string | null>(null);
 
   // Modals
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isBatchAuditOpen, setIsBatchAuditOpen] = useState(false);
+  const [isAskOpen, setIsAskOpen] = useState(false);
   
   const initialFormState = {
-    username: '', platform: 'Twitter' as const, followers: 0, engagementRate: 0,
-    status: 'Active' as const, bio: '', category: '', realName: '', email: '',
+    username: '', platform: 'Twitter' as UserAccount['platform'], followers: 0, engagementRate: 0,
+    status: 'Active' as UserAccount['status'], bio: '', category: '', realName: '', email: '',
     password: '', twoFactorSecret: '', phone: '', website: '', country: '',
     tags: [] as string[], accountManager: '', targetAudience: '', lastPostedDate: '',
     creationDate: '', notes: ''
   };
 
   const [formState, setFormState] = useState(initialFormState);
+  // The account being edited, as read when the form opened; the form itself
+  // only holds its fields.
+  const [editing, setEditing] = useState<UserAccount | null>(null);
   const [tagsInput, setTagsInput] = useState('');
+  const [credentialsLocked, setCredentialsLocked] = useState(false);
+  const [totpSecret, setTotpSecret] = useState<string | null>(null);
+  const [qrError, setQrError] = useState<string | null>(null);
+  // Schema errors from the last save attempt; editing a field clears its error.
+  const [formErrors, setFormErrors] = useState<AccountErrors>({});
 
-  const ITEMS_PER_PAGE = 10;
-  
-  const filteredData = useMemo(() => {
-    let result = data.filter(item => viewMode === 'active' ? !item.isArchived : item.isArchived);
-    if (searchTerm) {
-        const lower = searchTerm.toLowerCase();
-        result = result.filter(item => 
-            item.username.toLowerCase().includes(lower) || 
-            item.platform.toLowerCase().includes(lower) ||
-            (item.realName && item.realName.toLowerCase().includes(lower)) ||
-            (item.email && item.email.toLowerCase().includes(lower)) ||
-            (item.accountManager && item.accountManager.toLowerCase().includes(lower))
-        );
+  const twoFactorError = credentialsLocked ? null : (qrError || validateTotpSecret(formState.twoFactorSecret));
+
+  const drawerAccount = selectedAccount && drawerCredentials?.id === selectedAccount.id
+    ? { ...selectedAccount, ...drawerCredentials }
+    : selectedAccount;
+
+  useEffect(() => {
+    setDrawerCredentials(null);
+    if (!selectedAccount || !can(profile, 'credentials:reveal', selectedAccount)) return;
+    let cancelled = false;
+    const id = selectedAccount.id;
+    repository.get(id)
+      .then(account => {
+        const current = account && applyPending([account]).find(a => a.id === id);
+        if (!cancelled && current) setDrawerCredentials({ id, password: current.password, twoFactorSecret: current.twoFactorSecret });
+      })
+      .catch(err => console.error("Loading credentials failed:", err));
+    return () => { cancelled = true; };
+  }, [repository, selectedAccount?.id, credentialsKey]);
+
+  // The live code needs the plaintext seed, so it is only decrypted while the vault is open.
+  useEffect(() => {
+    setTotpSecret(null);
+    const stored = drawerAccount?.twoFactorSecret;
+    if (!stored || (isEncrypted(stored) && !isVaultUnlocked)) return;
+    let cancelled = false;
+    decryptSecret(stored)
+      .then(secret => { if (!cancelled) setTotpSecret(secret); })
+      .catch(err => console.error("Credential decryption failed:", err));
+    return () => { cancelled = true; };
+  }, [drawerAccount?.id, drawerAccount?.twoFactorSecret, isVaultUnlocked]);
+
+  // Decrypted values never outlive the vault session.
+  useEffect(() => {
+    if (!isVaultUnlocked) {
+      setRevealedCredentials(null);
+      setShowPass(false);
     }
-    if (showFavoritesOnly) result = result.filter(item => item.isFavorite);
-    if (sortConfig) {
-        result.sort((a, b) => {
-            const aVal = a[sortConfig.key] ?? '';
-            const bVal = b[sortConfig.key] ?? '';
-            if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-            if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-            return 0;
-        });
+  }, [isVaultUnlocked]);
+
+  useEffect(() => {
+    setRevealedCredentials(null);
+    setShowPass(false);
+  }, [selectedAccount?.id]);
+
+  // Once the vault is unlocked mid-edit, swap the ciphertext in the form for plaintext.
+  useEffect(() => {
+    if (!credentialsLocked || !isVaultUnlocked) return;
+    decryptCredentials(formState)
+      .then(credentials => {
+        setFormState(prev => ({ ...prev, ...credentials }));
+        setCredentialsLocked(false);
+      })
+      .catch(err => console.error("Credential decryption failed:", err));
+  }, [credentialsLocked, isVaultUnlocked]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const viewState = useMemo<TableViewState>(() => ({
+    search: searchTerm,
+    archived: viewMode === 'archived',
+    favoritesOnly: showFavoritesOnly,
+    platform: platformFilter,
+    status: statusFilter,
+    accountManager: managerFilter,
+    sort: sortConfig,
+    pageSize,
+    columns: visibleColumns
+  }), [searchTerm, viewMode, showFavoritesOnly, platformFilter, statusFilter, managerFilter, sortConfig, pageSize, visibleColumns]);
+
+  const filters = useMemo<AccountFilters>(
+    () => ({ ...toAccountFilters(viewState), deleted: viewMode === 'trash' }),
+    [viewMode, platformFilter, statusFilter, managerFilter, showFavoritesOnly]
+  );
+
+  const applyView = (view: SavedView | null) => {
+    const state = view?.state ?? DEFAULT_VIEW_STATE;
+    setActiveViewId(view?.id ?? null);
+    setSearchTerm(state.search);
+    setDebouncedSearch(state.search.trim());
+    setViewMode(state.archived ? 'archived' : 'active');
+    setShowFavoritesOnly(state.favoritesOnly);
+    setPlatformFilter(state.platform);
+    setStatusFilter(state.status);
+    // Managers only ever see their own accounts.
+    setManagerFilter(profile.role === 'manager' ? null : state.accountManager);
+    setPageSize(state.pageSize);
+    // Going back to all accounts keeps the user's own sort and columns.
+    if (view) {
+      setSortConfig(state.sort);
+      setVisibleColumns(state.columns);
+    }
+  };
+
+  // The last layout the user left the table in is restored on their next visit.
+  useEffect(() => {
+    let cancelled = false;
+    loadTableLayout(profile)
+      .then(layout => {
+        if (cancelled || !layout) return;
+        if (layout.columns.length) setVisibleColumns(layout.columns);
+        if (layout.sort.length) setSortConfig(layout.sort);
+        setColumnWidths(layout.widths);
+      })
+      .catch(err => console.error("Loading table layout failed:", err))
+      .finally(() => { isLayoutLoaded.current = true; });
+    return () => { cancelled = true; };
+  }, [profile.uid]);
+
+  useEffect(() => {
+    if (!isLayoutLoaded.current) return;
+    const timer = setTimeout(() => {
+      saveTableLayout(profile, { columns: visibleColumns, widths: columnWidths, sort: sortConfig })
+        .catch(err => console.error("Saving table layout failed:", err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [visibleColumns, columnWidths, sortConfig]);
+
+  const toggleColumn = (field: AccountField) =>
+    setVisibleColumns(prev => prev.includes(field) ? prev.filter(c => c !== field) : [...prev, field]);
+
+  const moveColumn = (field: AccountField, before: AccountField) => {
+    if (field === before) return;
+    setVisibleColumns(prev => {
+      const rest = prev.filter(c => c !== field);
+      rest.splice(rest.indexOf(before), 0, field);
+      return rest;
+    });
+  };
+
+  const columnWidth = (field: AccountField) => columnWidths[field] ?? columnFor(field).width;
+  const tableWidth = [IDENTITY_FIELD, ...visibleColumns].reduce(
+    (sum, field) => sum + columnWidth(field), CHECKBOX_COLUMN_WIDTH + COMMANDS_COLUMN_WIDTH
+  );
+
+  const startResize = (field: AccountField, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = columnWidth(field);
+    const onMove = (move: MouseEvent) =>
+      setColumnWidths(prev => ({ ...prev, [field]: Math.max(MIN_COLUMN_WIDTH, startWidth + move.clientX - startX) }));
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  // The backend cannot evaluate search queries or sort by more than one
+  // indexed field, so in those cases the table listens to every account
+  // within the filters and searches, sorts and pages them itself.
+  const search = useMemo(() => parseSearchQuery(debouncedSearch), [debouncedSearch]);
+  const searchQuery = search.query;
+  const serverSort = useMemo(() => toServerSort(sortConfig), [sortConfig]);
+  const isLocal = !!searchQuery || !serverSort;
+
+  useEffect(() => {
+    setMatching(null);
+    if (!isLocal) return;
+    setIsPageLoading(true);
+    return repository.subscribeMatching(filters, accounts => {
+      setMatching(accounts);
+      setIsPageLoading(false);
+    }, err => {
+      console.error("Loading accounts failed:", err);
+      setIsPageLoading(false);
+    });
+  }, [repository, filters, isLocal]);
+
+  const localResults = useMemo(
+    () => isLocal
+      ? applyPending(matching ?? []).filter(a => matchesAccountFilters(a, filters) && (!searchQuery || matchesSearch(a, searchQuery))).sort(compareByColumns(sortConfig))
+      : null,
+    [isLocal, matching, applyPending, filters, searchQuery, sortConfig]
+  );
+
+  // Any change to the query starts again from the first page.
+  useEffect(() => {
+    setCursors([null]);
+    setCurrentPage(1);
+    setSelectedIds(new Set());
+  }, [filters, searchQuery, sortConfig, pageSize]);
+
+  // Only the visible page is listened to. A change to it also re-runs the
+  // count; changes on other pages show up in the count on the next query.
+  useEffect(() => {
+    if (!serverSort || searchQuery) return;
+    let isFirstPage = true;
+    setIsPageLoading(true);
+    const unsubscribe = repository.subscribePage(
+      { filters, sort: serverSort, pageSize, after: cursors[currentPage - 1] },
+      result => {
+        setPage(result);
+        setIsPageLoading(false);
+        if (!isFirstPage) setCountKey(k => k + 1);
+        isFirstPage = false;
+      },
+      err => {
+        console.error("Loading accounts failed:", err);
+        setIsPageLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, [repository, filters, searchQuery, serverSort, pageSize, currentPage]);
+
+  useEffect(() => {
+    if (isLocal) return;
+    let cancelled = false;
+    repository.count(filters)
+      .then(count => { if (!cancelled) setTotalCount(count); })
+      .catch(err => console.error("Counting accounts failed:", err));
+    return () => { cancelled = true; };
+  }, [repository, filters, isLocal, countKey]);
+
+  // Rows come from the page listener, with local edits that have not reached
+  // the server yet applied on top.
+  const paginatedData = useMemo(() => {
+    if (localResults) return localResults.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+    const pageIds = new Set((page?.accounts ?? []).map(a => a.id));
+    return applyPending(page?.accounts ?? []).filter(a => pageIds.has(a.id) && matchesAccountFilters(a, filters));
+  }, [localResults, currentPage, pageSize, page, applyPending, filters]);
+  const resultCount = localResults ? localResults.length : totalCount;
+  const totalPages = Math.ceil(resultCount / pageSize);
+  const hasNextPage = currentPage < totalPages && (isLocal || !!page?.next);
+
+  // Keep the open drawer in step with live updates to its row. An account
+  // that has left the page is shown as it was last seen.
+  useEffect(() => {
+    setSelectedAccount(prev => prev && (paginatedData.find(a => a.id === prev.id) ?? prev));
+  }, [paginatedData]);
+
+  useEffect(() => {
+    let cancelled = false;
+    repository.listManagers()
+      .then(names => { if (!cancelled) setManagers(names); })
+      .catch(err => console.error("Loading managers failed:", err));
+    return () => { cancelled = true; };
+  }, [repository]);
+
+  const loadSelection = async (options?: ReadOptions) => {
+    const ids = Array.from(selectedIds);
+    return applyPending(await repository.getMany(ids, options)).filter(a => selectedIds.has(a.id));
+  };
+
+  const loadMatching = async (filters: AccountFilters, options?: ReadOptions) =>
+    applyPending(await repository.list(filters, options)).filter(a => matchesAccountFilters(a, filters));
+
+  // Panels work on the accounts as they were when opened.
+  const openPanel = async (load: () => Promise<UserAccount[]>, open: () => void) => {
+    setIsPanelLoading(true);
+    try {
+      setPanelAccounts(await load());
+      open();
+    } catch (err) {
+      console.error("Loading accounts failed:", err);
+      alert('Could not load the accounts.');
+    } finally {
+      setIsPanelLoading(false);
     }
-    return result;
-  }, [data, searchTerm, showFavoritesOnly, viewMode, sortConfig]);
+  };
 
-  const paginatedData = filteredData.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
-  const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE);
+  const goToNextPage = () => {
+    if (isLocal) {
+      setCurrentPage(p => p + 1);
+      return;
+    }
+    if (!page?.next) return;
+    setCursors(prev => [...prev.slice(0, currentPage), page.next]);
+    setCurrentPage(p => p + 1);
+  };
 
   const handleCopy = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -87,15 +428,64 @@ const AccountTable: React.FC<AccountTableProps> = ({
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  const toggleReveal = async () => {
+    if (showPass) {
+      setShowPass(false);
+      setRevealedCredentials(null);
+      return;
+    }
+    if (!drawerAccount) return;
+    if (!isVaultUnlocked) {
+      onRequestVaultUnlock();
+      return;
+    }
+    try {
+      setRevealedCredentials(await decryptCredentials(drawerAccount));
+      setShowPass(true);
+    } catch (err) {
+      console.error("Credential decryption failed:", err);
+      alert("Could not decrypt credentials for this account.");
+    }
+  };
+
+  const handleCopySecret = async (value: string | undefined, id: string) => {
+    if (!value) return;
+    if (isEncrypted(value) && !isVaultUnlocked) {
+      onRequestVaultUnlock();
+      return;
+    }
+    try {
+      handleCopy(await decryptSecret(value), id);
+    } catch (err) {
+      console.error("Credential decryption failed:", err);
+    }
+  };
+
   const runAudit = async () => {
     if (!selectedAccount) return;
+    const account = selectedAccount;
     setIsAnalyzing(true);
-    const result = await analyzeAccount(selectedAccount);
-    setAnalysis(result);
-    
-    const trends = await getPlatformTrends(selectedAccount.platform);
-    setPlatformTrends(trends);
-    setIsAnalyzing(false);
+    setTrendsError(null);
+    try {
+      const { analysis: result, model } = await analyzeAccount(account);
+      const record = auditRecordFor(result, model, profile);
+      if (can(profile, 'account:edit', account)) await onSaveAiAudit(account.id, record);
+      else setAnalysis(record);
+    } catch (err: any) {
+      console.error("AI audit failed:", err);
+      alert(`AI audit failed: ${err?.message || 'unknown error'}`);
+      setIsAnalyzing(false);
+      return;
+    }
+    // Trends are extra context; failing to fetch them does not fail the audit.
+    try {
+      setPlatformTrends(await getPlatformTrends(account.platform, account.id));
+    } catch (err: any) {
+      console.error("Trend search failed:", err);
+      setTrendsError(err?.message || 'Failed to fetch live trends.');
+    } finally {
+      setIsAnalyzing(false);
+    }
   };
 
   const toggleSelectAll = () => {
@@ -113,59 +503,195 @@ const AccountTable: React.FC<AccountTableProps> = ({
     setSelectedIds(next);
   };
 
-  const handleSort = (key: keyof UserAccount) => {
-    setSortConfig({ key, direction: sortConfig?.key === key && sortConfig.direction === 'asc' ? 'desc' : 'asc' });
+  // A click sorts by the column alone; shift-click adds it as a further key,
+  // flips it, then removes it again.
+  const handleSort = (field: AccountField, additive: boolean) => {
+    const existing = sortConfig.find(s => s.field === field);
+    if (!additive) {
+      const isOnlyAsc = sortConfig.length === 1 && existing?.direction === 'asc';
+      setSortConfig([{ field, direction: isOnlyAsc ? 'desc' : 'asc' }]);
+    } else if (!existing) {
+      setSortConfig([...sortConfig, { field, direction: 'asc' }]);
+    } else if (existing.direction === 'asc') {
+      setSortConfig(sortConfig.map(s => s.field === field ? { field, direction: 'desc' } : s));
+    } else if (sortConfig.length > 1) {
+      setSortConfig(sortConfig.filter(s => s.field !== field));
+    }
+  };
+
+  const sortIcon = (field: AccountField) => {
+    const index = sortConfig.findIndex(s => s.field === field);
+    if (index < 0) return <ArrowUpDown className="w-3 h-3 opacity-30" />;
+    const Icon = sortConfig[index].direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <span className="flex items-center text-indigo-400">
+        <Icon className="w-3 h-3" />
+        {sortConfig.length > 1 && <span className="text-[9px]">{index + 1}</span>}
+      </span>
+    );
   };
 
+  const headerCell = (field: AccountField, isDraggable: boolean) => (
+    <th
+      key={field}
+      style={{ width: columnWidth(field) }}
+      draggable={isDraggable}
+      onDragStart={() => setDraggedColumn(field)}
+      onDragEnd={() => setDraggedColumn(null)}
+      onDragOver={(e) => { if (isDraggable && draggedColumn) e.preventDefault(); }}
+      onDrop={() => { if (draggedColumn) moveColumn(draggedColumn, field); setDraggedColumn(null); }}
+      onClick={(e) => handleSort(field, e.shiftKey)}
+      title="Click to sort, shift-click to add a sort key"
+      className={`relative px-6 py-4 cursor-pointer hover:bg-slate-800 transition-colors select-none ${draggedColumn === field ? 'opacity-40' : ''}`}
+    >
+      <div className="flex items-center gap-1">
+        {isDraggable && <GripVertical className="w-3 h-3 opacity-30 cursor-grab" />}
+        <span className="truncate">{columnFor(field).label}</span> {sortIcon(field)}
+      </div>
+      <span onMouseDown={(e) => startResize(field, e)} onClick={(e) => e.stopPropagation()} className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-indigo-500/50" />
+    </th>
+  );
+
   const openAddModal = () => {
     setModalMode('add');
-    setFormState(initialFormState);
+    setEditing(null);
+    setCredentialsLocked(false);
+    setQrError(null);
+    setFormErrors({});
+    // Managers can only create accounts assigned to themselves.
+    setFormState({ ...initialFormState, accountManager: profile.role === 'manager' ? profile.managerName : '' });
     setTagsInput('');
     setIsModalOpen(true);
   };
 
-  const openEditModal = (account: UserAccount) => {
+  // Rows carry no credentials, so the form starts from the stored account.
+  const openEditModal = async (row: UserAccount) => {
+    let account = row;
+    try {
+      const stored = await repository.get(row.id);
+      account = (stored && applyPending([stored]).find(a => a.id === row.id)) ?? row;
+    } catch (err) {
+      console.error("Loading account failed:", err);
+      alert('Could not load this account.');
+      return;
+    }
     setModalMode('edit');
-    setFormState({ ...initialFormState, ...account });
+    setEditing(account);
+    const hasCiphertext = isEncrypted(account.password) || isEncrypted(account.twoFactorSecret);
+    const { id, ...fields } = account;
+    let nextForm = { ...initialFormState, ...fields };
+    if (hasCiphertext && isVaultUnlocked) {
+      try {
+        nextForm = { ...nextForm, ...(await decryptCredentials(account)) };
+      } catch (err) {
+        console.error("Credential decryption failed:", err);
+      }
+    }
+    // While locked, the ciphertext stays in the form and is written back untouched.
+    setCredentialsLocked(hasCiphertext && !isVaultUnlocked);
+    setQrError(null);
+    setFormErrors({});
+    setFormState(nextForm);
     setTagsInput(account.tags?.join(', ') || '');
     setIsModalOpen(true);
   };
 
+  // Deleting only moves the account to the trash, and can be undone from the toast.
   const handleDelete = async (id: string) => {
-    if (window.confirm("Are you sure you want to permanently delete this account? This cannot be undone.")) {
-      await onDeleteAccount(id);
-    }
+    await onDeleteAccount(id);
   };
 
-  const handleBulk = async (action: 'archive' | 'restore' | 'delete') => {
+  const handlePurge = async (ids: string[]) => {
+    if (!window.confirm(`Permanently delete ${ids.length === 1 ? 'this account' : `${ids.length} accounts`}, including credentials? This cannot be undone.`)) return;
+    await onBulkAction(ids, 'purge');
+  };
+
+  const handleBulk = async (action: BulkAction) => {
     if (selectedIds.size === 0) return;
-    if (action === 'delete' && !window.confirm(`Delete ${selectedIds.size} accounts permanently?`)) return;
-    await onBulkAction(Array.from(selectedIds), action);
+    const ids = Array.from<string>(selectedIds);
+    if (action === 'purge') await handlePurge(ids);
+    else await onBulkAction(ids, action);
     setSelectedIds(new Set());
   };
 
+  const handleQrUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setQrError(null);
+    try {
+      const uri = await decodeQrImage(file);
+      setFormState(prev => ({ ...prev, twoFactorSecret: normalizeTotpInput(uri) }));
+    } catch (err: any) {
+      setQrError(err.message || 'Could not read QR code.');
+    }
+  };
+
+  // Existing accounts the entry being added or edited appears to duplicate,
+  // looked up once typing pauses.
+  const [duplicateMatches, setDuplicateMatches] = useState<ReturnType<typeof findDuplicatesOf>>([]);
+  useEffect(() => {
+    setDuplicateMatches([]);
+    if (!isModalOpen) return;
+    const candidate = { ...formState, id: editing?.id, username: formState.username.startsWith('@') ? formState.username : `@${formState.username}` };
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      repository.findDuplicates([candidate])
+        .then(accounts => { if (!cancelled) setDuplicateMatches(findDuplicatesOf(candidate, applyPending(accounts))); })
+        .catch(err => console.error("Duplicate check failed:", err));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isModalOpen, editing?.id, formState.username, formState.platform, formState.email, formState.phone, repository]);
+
+  const updateForm = (updates: Partial<typeof initialFormState>) => {
+    setFormState(prev => ({ ...prev, ...updates }));
+    setFormErrors(prev => {
+      const next = { ...prev };
+      Object.keys(updates).forEach(field => delete next[field as keyof AccountErrors]);
+      return next;
+    });
+  };
+
+  const fieldError = (field: keyof AccountErrors) =>
+    formErrors[field] && <p className="text-[10px] text-red-400 font-bold mt-2">This field {formErrors[field]}.</p>;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (twoFactorError) return;
+    const errors = validateAccount(normalizeAccountInput({ ...formState, tags: tagsInput.split(',').map(t => t.trim()).filter(Boolean) }), { previous: editing ?? undefined });
+    setFormErrors(errors);
+    if (Object.keys(errors).length) return;
+    if (duplicateMatches.length && !window.confirm(`This looks like a duplicate of ${duplicateMatches.map(m => m.account.username).join(', ')}. Save anyway?`)) return;
     setIsSubmitting(true);
     const tags = tagsInput.split(',').map(t => t.trim()).filter(Boolean);
     const username = formState.username.startsWith('@') ? formState.username : `@${formState.username}`;
+    const twoFactorSecret = credentialsLocked || !formState.twoFactorSecret.trim()
+      ? formState.twoFactorSecret
+      : normalizeTotpInput(formState.twoFactorSecret);
     
     try {
       if (modalMode === 'add') {
         await onAddAccount({ 
           ...formState, 
           username, 
+          twoFactorSecret,
           tags,
           avatar: `https://ui-avatars.com/api/?name=${username.replace('@','')}&background=random&color=fff`,
           history: [{ date: new Date().toISOString(), action: 'Account Created', details: 'Initial entry' }]
         });
-      } else {
-        const id = (formState as any).id;
-        const currentAccount = data.find(d => d.id === id);
+      } else if (editing) {
         const historyEntry: ActivityLog = { date: new Date().toISOString(), action: 'Profile Updated' };
-        await onUpdateAccount(id, { ...formState, username, tags, history: [...(currentAccount?.history || []), historyEntry] });
+        await onUpdateAccount(editing.id, { ...formState, username, tags, twoFactorSecret, history: [...(editing.history || []), historyEntry] });
+        setCredentialsKey(k => k + 1);
       }
       setIsModalOpen(false);
+    } catch (err) {
+      // A locked vault keeps the modal open; App has already prompted for the passphrase.
+      if (err instanceof AccountValidationError) setFormErrors(err.errors);
+      else if (!(err instanceof VaultLockedError)) throw err;
     } finally {
       setIsSubmitting(false);
     }
@@ -176,40 +702,66 @@ const AccountTable: React.FC<AccountTableProps> = ({
     return map[country || ''] || '🏳️';
   };
 
-  const handleExport = () => {
-    const source = selectedIds.size > 0 ? data.filter(d => selectedIds.has(d.id)) : filteredData;
-    const headers = ['ID', 'Username', 'Platform', 'Followers', 'Manager', 'Status', 'Email'];
-    const csv = [headers.join(','), ...source.map(u => [u.id, u.username, u.platform, u.followers, u.accountManager, u.status, u.email].join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `socialbase_export_${new Date().toISOString().slice(0,10)}.csv`;
-    a.click();
-  };
+  // Exports include credentials, so they are read along with the accounts.
+  const loadExport = async () => selectedIds.size > 0
+    ? loadSelection({ credentials: true })
+    : (await loadMatching(filters, { credentials: true }))
+        .filter(a => !searchQuery || matchesSearch(a, searchQuery))
+        .sort(compareByColumns(sortConfig));
 
   return (
     <div className="flex flex-col h-full gap-4 relative">
+      <SavedViewTabs profile={profile} repository={repository} refreshKey={countKey} current={viewState} activeViewId={activeViewId} onSelect={applyView} />
+
       {/* Header Bar */}
       <div className="flex flex-col xl:flex-row gap-4 justify-between bg-slate-800 p-4 rounded-xl border border-slate-700 shadow-xl">
         <div className="flex flex-col sm:flex-row gap-3 flex-1">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-2.5 w-5 h-5 text-slate-500" />
-            <input
-              type="text" placeholder="Search database..." value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
-            />
-          </div>
+          <SearchQueryInput value={searchTerm} onChange={setSearchTerm} accounts={localResults ?? paginatedData} errors={search.errors} />
           <div className="flex gap-2">
-            <button onClick={openAddModal} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-lg shadow-indigo-600/20"><Plus className="w-4 h-4" /> Add Entry</button>
-            <button onClick={handleExport} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all"><Download className="w-5 h-5" /></button>
+            <button onClick={() => setIsAskOpen(true)} title="Ask a question" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all"><MessageSquare className="w-5 h-5" /></button>
+            {can(profile, 'account:create') && <button onClick={openAddModal} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-lg shadow-indigo-600/20"><Plus className="w-4 h-4" /> Add Entry</button>}
+            {can(profile, 'account:import') && <button onClick={() => setIsImportOpen(true)} title="Bulk Import" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all"><Upload className="w-5 h-5" /></button>}
+            {can(profile, 'account:edit') && <button onClick={() => openPanel(loadSelection, () => setIsBatchAuditOpen(true))} disabled={isPanelLoading} title="Batch AI Audit" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all disabled:opacity-50"><Sparkles className="w-5 h-5" /></button>}
+            <button onClick={() => openPanel(() => loadMatching({ archived: false }, { credentials: true }), () => setIsDuplicatesOpen(true))} disabled={isPanelLoading} title="Duplicates" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all disabled:opacity-50"><CopyCheck className="w-5 h-5" /></button>
+            <button onClick={() => openPanel(loadExport, () => setIsExportOpen(true))} disabled={isPanelLoading} title="Export" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all disabled:opacity-50"><Download className="w-5 h-5" /></button>
+            <div className="relative">
+              <button onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)} title="Columns" className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-all"><Columns3 className="w-5 h-5" /></button>
+              {isColumnMenuOpen && (
+                <div className="absolute right-0 mt-2 w-48 max-h-80 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-30 p-2">
+                  {OPTIONAL_COLUMNS.map(col => (
+                    <label key={col.field} className="flex items-center gap-2 px-2 py-1.5 text-xs text-slate-300 hover:bg-slate-800 rounded cursor-pointer">
+                      <input type="checkbox" checked={visibleColumns.includes(col.field)} onChange={() => toggleColumn(col.field)} className="rounded border-slate-700 bg-slate-800 text-indigo-600" />
+                      {col.label}
+                    </label>
+                  ))}
+                  <p className="px-2 pt-2 mt-1 border-t border-slate-800 text-[10px] text-slate-500">Drag headers to reorder, drag their edge to resize.</p>
+                </div>
+              )}
+            </div>
             <button onClick={() => setShowFavoritesOnly(!showFavoritesOnly)} className={`p-2 rounded-lg border transition-all ${showFavoritesOnly ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-400' : 'bg-slate-900 border-slate-700 text-slate-500'}`}><Star className={`w-5 h-5 ${showFavoritesOnly ? 'fill-yellow-400' : ''}`} /></button>
           </div>
         </div>
+        <div className="flex flex-wrap gap-2">
+          <select value={platformFilter} onChange={(e) => setPlatformFilter(e.target.value as UserAccount['platform'] | '')} className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500">
+            <option value="">All networks</option>
+            {PLATFORMS.map(p => <option key={p} value={p}>{platformFor(p).name}</option>)}
+          </select>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as UserAccount['status'] | '')} className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500">
+            <option value="">All statuses</option>
+            {STATUSES.map(st => <option key={st} value={st}>{st}</option>)}
+          </select>
+          {profile.role !== 'manager' && (
+            <select value={managerFilter ?? '*'} onChange={(e) => setManagerFilter(e.target.value === '*' ? null : e.target.value)} className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500">
+              <option value="*">All custodians</option>
+              <option value="">Unassigned</option>
+              {managers.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          )}
+        </div>
         <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-700">
            <button onClick={() => setViewMode('active')} className={`px-6 py-1.5 rounded-md text-sm font-bold transition-all ${viewMode === 'active' ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}>Operational</button>
            <button onClick={() => setViewMode('archived')} className={`px-6 py-1.5 rounded-md text-sm font-bold transition-all flex items-center gap-2 ${viewMode === 'archived' ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}><Archive className="w-4 h-4" /> Cold Storage</button>
+           <button onClick={() => setViewMode('trash')} className={`px-6 py-1.5 rounded-md text-sm font-bold transition-all flex items-center gap-2 ${viewMode === 'trash' ? 'bg-red-500/20 text-red-300' : 'text-slate-500 hover:text-slate-300'}`}><Trash2 className="w-4 h-4" /> Trash</button>
         </div>
       </div>
 
@@ -217,36 +769,40 @@ const AccountTable: React.FC<AccountTableProps> = ({
       {selectedIds.size > 0 && (
         <div className="bg-indigo-600/10 border border-indigo-500/30 p-3 rounded-lg flex items-center justify-between animate-in fade-in slide-in-from-top-2">
           <span className="text-sm font-bold text-indigo-300 ml-2">{selectedIds.size} accounts selected</span>
+          {viewMode === 'trash' ? (
           <div className="flex gap-2">
-            {viewMode === 'active' ? (
+            {can(profile, 'account:bulk') && can(profile, 'account:delete') && <>
+              <button onClick={() => handleBulk('recover')} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold rounded flex items-center gap-1"><RotateCcw className="w-3 h-3" /> Restore</button>
+              <button onClick={() => handleBulk('purge')} className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white text-xs font-bold rounded flex items-center gap-1"><Trash2 className="w-3 h-3" /> Purge</button>
+            </>}
+          </div>
+          ) : (
+          <div className="flex gap-2">
+            {can(profile, 'account:edit') && <button onClick={() => openPanel(loadSelection, () => setIsBatchAuditOpen(true))} disabled={isPanelLoading} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded flex items-center gap-1 disabled:opacity-50"><Sparkles className="w-3 h-3" /> AI Audit</button>}
+            {can(profile, 'account:bulk') && <button onClick={() => openPanel(loadSelection, () => setIsBulkEditOpen(true))} disabled={isPanelLoading} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs font-bold rounded flex items-center gap-1 disabled:opacity-50"><PencilLine className="w-3 h-3" /> Edit Fields</button>}
+            {!can(profile, 'account:bulk') ? null : viewMode === 'active' ? (
               <button onClick={() => handleBulk('archive')} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded flex items-center gap-1"><Archive className="w-3 h-3" /> Archive</button>
             ) : (
               <button onClick={() => handleBulk('restore')} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold rounded flex items-center gap-1"><RefreshCw className="w-3 h-3" /> Restore</button>
             )}
-            <button onClick={() => handleBulk('delete')} className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white text-xs font-bold rounded flex items-center gap-1"><Trash2 className="w-3 h-3" /> Delete</button>
+            {can(profile, 'account:bulk') && can(profile, 'account:delete') && <button onClick={() => handleBulk('delete')} className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white text-xs font-bold rounded flex items-center gap-1"><Trash2 className="w-3 h-3" /> Delete</button>}
           </div>
+          )}
         </div>
       )}
 
       {/* Main Table */}
       <div className="bg-slate-800 rounded-xl border border-slate-700 flex-1 overflow-hidden flex flex-col shadow-2xl">
         <div className="overflow-x-auto">
-          <table className="w-full text-left text-sm text-slate-400">
+          <table className="min-w-full table-fixed text-left text-sm text-slate-400" style={{ width: tableWidth }}>
             <thead className="bg-slate-900/90 text-slate-300 uppercase text-[10px] font-black tracking-widest sticky top-0 z-10">
               <tr>
-                <th className="px-6 py-4 w-4">
+                <th className="px-6 py-4" style={{ width: CHECKBOX_COLUMN_WIDTH }}>
                   <input type="checkbox" checked={paginatedData.length > 0 && selectedIds.size === paginatedData.length} onChange={toggleSelectAll} className="rounded border-slate-700 bg-slate-800 text-indigo-600" />
                 </th>
-                <th className="px-6 py-4 cursor-pointer hover:bg-slate-800 transition-colors" onClick={() => handleSort('username')}>
-                  <div className="flex items-center gap-1">Identity <ArrowUpDown className="w-3 h-3 opacity-30" /></div>
-                </th>
-                <th className="px-6 py-4 cursor-pointer hover:bg-slate-800 transition-colors" onClick={() => handleSort('accountManager')}>
-                  <div className="flex items-center gap-1">Custodian <ArrowUpDown className="w-3 h-3 opacity-30" /></div>
-                </th>
-                <th className="px-6 py-4">Network</th>
-                <th className="px-6 py-4">Reach</th>
-                <th className="px-6 py-4">Status</th>
-                <th className="px-6 py-4 text-right">Commands</th>
+                {headerCell(IDENTITY_FIELD, false)}
+                {visibleColumns.map(field => headerCell(field, true))}
+                <th className="px-6 py-4 text-right" style={{ width: COMMANDS_COLUMN_WIDTH }}>Commands</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-700/50">
@@ -265,35 +821,34 @@ const AccountTable: React.FC<AccountTableProps> = ({
                         <div className="font-bold text-white flex items-center gap-1">
                             {user.username} {user.isFavorite && <Star className="w-3 h-3 text-yellow-500 fill-yellow-500" />}
                         </div>
-                        <div className="text-[10px] text-slate-500 font-mono truncate max-w-[120px]">{user.email || 'NO_EMAIL_RECORDED'}</div>
+                        {user.isDeleted ? (
+                          <div className="text-[10px] text-red-400/80 truncate" title={user.deletedAt}>
+                            Deleted {user.deletedAt ? new Date(user.deletedAt).toLocaleDateString() : ''}{user.deletedBy ? ` by ${user.deletedBy}` : ''}
+                          </div>
+                        ) : (
+                          <div className="text-[10px] text-slate-500 font-mono truncate max-w-[120px]">{user.email || 'NO_EMAIL_RECORDED'}</div>
+                        )}
                       </div>
                     </div>
                   </td>
-                  <td className="px-6 py-4">
-                    <span className="text-slate-300 font-medium text-xs flex items-center gap-1.5">
-                      <Briefcase className="w-3 h-3 text-indigo-400" /> {user.accountManager || 'Unassigned'}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-xs font-bold uppercase tracking-wider text-slate-400">{user.platform}</td>
-                  <td className="px-6 py-4">
-                      <div className="text-white font-mono font-bold">{(user.followers > 1000000 ? (user.followers/1000000).toFixed(1) + 'M' : (user.followers/1000).toFixed(1) + 'k')}</div>
-                      <div className="text-[10px] text-slate-500">{user.engagementRate}% engagement</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${user.status === 'Active' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>
-                      {user.status}
-                    </span>
-                  </td>
+                  {visibleColumns.map(field => (
+                    <td key={field} className="px-6 py-4 overflow-hidden"><AccountCell account={user} field={field} /></td>
+                  ))}
                   <td className="px-6 py-4 text-right">
                     <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button onClick={() => { setSelectedAccount(user); setAnalysis(null); setPlatformTrends(null); }} className="p-2 hover:bg-slate-700 rounded-lg text-indigo-400" title="Full Details"><MoreVertical className="w-4 h-4" /></button>
-                      <button onClick={() => openEditModal(user)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-300" title="Edit Entry"><Edit2 className="w-4 h-4" /></button>
-                      <button onClick={() => handleDelete(user.id)} className="p-2 hover:bg-slate-700 rounded-lg text-red-400" title="Delete Entry"><Trash2 className="w-4 h-4" /></button>
+                      <button onClick={() => { setSelectedAccount(user); setAnalysis(null); setPlatformTrends(null); setTrendsError(null); }} className="p-2 hover:bg-slate-700 rounded-lg text-indigo-400" title="Full Details"><MoreVertical className="w-4 h-4" /></button>
+                      {user.isDeleted ? (can(profile, 'account:delete', user) && <>
+                        <button onClick={() => onBulkAction([user.id], 'recover')} className="p-2 hover:bg-slate-700 rounded-lg text-emerald-400" title="Restore from Trash"><RotateCcw className="w-4 h-4" /></button>
+                        <button onClick={() => handlePurge([user.id])} className="p-2 hover:bg-slate-700 rounded-lg text-red-400" title="Purge"><Trash2 className="w-4 h-4" /></button>
+                      </>) : <>
+                        {can(profile, 'account:edit', user) && <button onClick={() => openEditModal(user)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-300" title="Edit Entry"><Edit2 className="w-4 h-4" /></button>}
+                        {can(profile, 'account:delete', user) && <button onClick={() => handleDelete(user.id)} className="p-2 hover:bg-slate-700 rounded-lg text-red-400" title="Move to Trash"><Trash2 className="w-4 h-4" /></button>}
+                      </>}
                     </div>
                   </td>
                 </tr>
               )) : (
-                <tr><td colSpan={7} className="px-6 py-32 text-center text-slate-500 italic">No matching entries found in {viewMode} database.</td></tr>
+                <tr><td colSpan={3 + visibleColumns.length} className="px-6 py-32 text-center text-slate-500 italic">{isPageLoading ? 'Loading entries...' : `No matching entries found in ${viewMode} database.`}</td></tr>
               )}
             </tbody>
           </table>
@@ -301,10 +856,16 @@ const AccountTable: React.FC<AccountTableProps> = ({
         
         {/* Pagination Footer */}
         <div className="mt-auto border-t border-slate-700 p-4 flex items-center justify-between bg-slate-900/50 backdrop-blur">
-          <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Page {currentPage} of {totalPages || 1} — {filteredData.length} Entries</span>
-          <div className="flex gap-2">
-            <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1} className="p-2 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-20 transition-all"><ChevronLeft className="w-4 h-4" /></button>
-            <button onClick={() => setCurrentPage(p => Math.min(totalPages || 1, p + 1))} disabled={currentPage >= totalPages} className="p-2 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-20 transition-all"><ChevronRight className="w-4 h-4" /></button>
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2">
+            Page {currentPage} of {totalPages || 1} — {resultCount} Entries
+            {isPageLoading && <RefreshCw className="w-3 h-3 animate-spin" />}
+          </span>
+          <div className="flex items-center gap-2">
+            <select value={pageSize} onChange={(e) => setPageSize(Number(e.target.value))} title="Rows per page" className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300 outline-none">
+              {PAGE_SIZES.map(size => <option key={size} value={size}>{size} / page</option>)}
+            </select>
+            <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1 || isPageLoading} className="p-2 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-20 transition-all"><ChevronLeft className="w-4 h-4" /></button>
+            <button onClick={goToNextPage} disabled={!hasNextPage || isPageLoading} className="p-2 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-20 transition-all"><ChevronRight className="w-4 h-4" /></button>
           </div>
         </div>
       </div>
@@ -326,15 +887,24 @@ const AccountTable: React.FC<AccountTableProps> = ({
                <div className="flex-1">
                  <h2 className="text-2xl font-black text-white">{selectedAccount.username}</h2>
                  <p className="text-indigo-400 text-xs font-bold uppercase tracking-widest flex items-center gap-2">
-                    {selectedAccount.platform} {getCountryFlag(selectedAccount.country)}
+                    <PlatformBadge platform={selectedAccount.platform} className="text-indigo-400" /> {getCountryFlag(selectedAccount.country)}
+                    {profileUrlFor(selectedAccount.platform, selectedAccount.username) && (
+                      <a href={profileUrlFor(selectedAccount.platform, selectedAccount.username)!} target="_blank" rel="noreferrer" title="Open profile" className="text-slate-500 hover:text-white"><ExternalLink className="w-3 h-3" /></a>
+                    )}
                  </p>
                  <div className="flex items-center gap-2 mt-3">
                    <span className="px-2 py-1 rounded bg-slate-800 text-[10px] font-bold text-slate-400 border border-slate-700">{selectedAccount.category}</span>
-                   <button onClick={() => onUpdateAccount(selectedAccount.id, { isFavorite: !selectedAccount.isFavorite })} className={selectedAccount.isFavorite ? 'text-yellow-500' : 'text-slate-600'}><Star className={`w-5 h-5 ${selectedAccount.isFavorite ? 'fill-yellow-500' : ''}`} /></button>
+                   <button disabled={!can(profile, 'account:edit', selectedAccount)} onClick={() => onUpdateAccount(selectedAccount.id, { isFavorite: !selectedAccount.isFavorite })} className={selectedAccount.isFavorite ? 'text-yellow-500' : 'text-slate-600'}><Star className={`w-5 h-5 ${selectedAccount.isFavorite ? 'fill-yellow-500' : ''}`} /></button>
                  </div>
                </div>
             </div>
 
+            {/* Growth Sparkline */}
+            <div className="space-y-3">
+                <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><Users className="w-3 h-3" /> Audience Growth</h4>
+                <GrowthSparkline account={selectedAccount} />
+            </div>
+
             {/* AI Audit Section */}
             <div className="space-y-4">
                  <div className="flex justify-between items-center">
@@ -348,31 +918,11 @@ const AccountTable: React.FC<AccountTableProps> = ({
                     </button>
                  </div>
                  
-                 {analysis ? (
-                     <div className="bg-indigo-600/5 border border-indigo-500/20 p-6 rounded-2xl space-y-4 animate-in fade-in zoom-in-95">
-                         <div className="flex justify-between items-center">
-                            <span className="text-xs font-bold text-slate-400">Account Sentiment</span>
-                            <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${analysis.sentiment === 'Positive' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'}`}>{analysis.sentiment}</span>
-                         </div>
-                         <div className="grid grid-cols-2 gap-4">
-                            <div>
-                                <p className="text-[9px] font-bold text-emerald-500 uppercase mb-2">Strengths</p>
-                                <ul className="space-y-1">
-                                    {analysis.strengths.map((s, i) => <li key={i} className="text-xs text-slate-300 flex items-start gap-1"><span>•</span> {s}</li>)}
-                                </ul>
-                            </div>
-                            <div>
-                                <p className="text-[9px] font-bold text-red-500 uppercase mb-2">Risks</p>
-                                <ul className="space-y-1">
-                                    {analysis.weaknesses.map((w, i) => <li key={i} className="text-xs text-slate-300 flex items-start gap-1"><span>•</span> {w}</li>)}
-                                </ul>
-                            </div>
-                         </div>
-                         <div className="pt-2 border-t border-indigo-500/20">
-                            <p className="text-[9px] font-bold text-indigo-400 uppercase mb-1">Growth Directives</p>
-                            <p className="text-xs text-slate-200 italic leading-relaxed">"{analysis.growthStrategy}"</p>
-                         </div>
-                     </div>
+                 {(analysis ?? latestAudit(selectedAccount)) ? (
+                     <AiAuditCard
+                        audit={(analysis ?? latestAudit(selectedAccount))!}
+                        previous={analysis ? selectedAccount.aiAudits ?? [] : (selectedAccount.aiAudits ?? []).slice(0, -1)}
+                     />
                  ) : isAnalyzing ? (
                     <div className="bg-slate-900/50 border border-slate-800 p-8 rounded-2xl flex flex-col items-center justify-center gap-3">
                         <div className="w-8 h-8 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
@@ -380,6 +930,8 @@ const AccountTable: React.FC<AccountTableProps> = ({
                     </div>
                  ) : null}
 
+                 {trendsError && <p className="text-xs text-red-400">{trendsError}</p>}
+
                  {platformTrends && (
                      <div className="bg-slate-950 border border-slate-800 p-6 rounded-2xl space-y-3">
                          <div className="flex items-center gap-2 text-indigo-400">
@@ -387,10 +939,11 @@ const AccountTable: React.FC<AccountTableProps> = ({
                             <span className="text-[9px] font-black uppercase tracking-widest">Network Intel & Trends</span>
                          </div>
                          <p className="text-xs text-slate-400 leading-relaxed">{platformTrends.text}</p>
+                         {!platformTrends.grounded && <p className="text-[10px] text-amber-400/80">Not based on a live search; the current AI provider cannot search the web.</p>}
                          <div className="flex flex-wrap gap-2 pt-2">
-                            {platformTrends.sources.map((src: any, i: number) => (
-                                <a key={i} href={src.maps?.uri || src.web?.uri} target="_blank" className="text-[9px] text-indigo-500 hover:underline flex items-center gap-1">
-                                    <ExternalLink className="w-2 h-2" /> Source {i+1}
+                            {platformTrends.sources.map((src, i) => (
+                                <a key={i} href={src.uri} target="_blank" rel="noreferrer" title={src.title} className="text-[9px] text-indigo-500 hover:underline flex items-center gap-1">
+                                    <ExternalLink className="w-2 h-2" /> {src.title || `Source ${i + 1}`}
                                 </a>
                             ))}
                          </div>
@@ -398,12 +951,20 @@ const AccountTable: React.FC<AccountTableProps> = ({
                  )}
             </div>
 
+            <ContentStudio
+              key={selectedAccount.id}
+              account={selectedAccount}
+              profile={profile}
+              trends={platformTrends}
+              onAcceptBio={(bio) => onUpdateAccount(selectedAccount.id, { bio })}
+            />
+
             {/* Secure Access Section */}
-            <div className="space-y-4">
+            {can(profile, 'credentials:reveal', selectedAccount) && <div className="space-y-4">
                 <div className="flex justify-between items-center">
                     <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><Lock className="w-3 h-3" /> Cryptographic Access Layer</h4>
-                    <button onClick={() => setShowPass(!showPass)} className="text-[10px] text-slate-500 hover:text-white flex items-center gap-1">
-                        {showPass ? <><EyeOff className="w-3 h-3" /> Hide</> : <><Eye className="w-3 h-3" /> Reveal</>}
+                    <button onClick={toggleReveal} className="text-[10px] text-slate-500 hover:text-white flex items-center gap-1">
+                        {showPass ? <><EyeOff className="w-3 h-3" /> Hide</> : isVaultUnlocked ? <><Eye className="w-3 h-3" /> Reveal</> : <><Lock className="w-3 h-3" /> Unlock to Reveal</>}
                     </button>
                 </div>
                 <div className="bg-slate-950/50 rounded-2xl border border-slate-800 overflow-hidden divide-y divide-slate-800">
@@ -420,10 +981,10 @@ const AccountTable: React.FC<AccountTableProps> = ({
                         <div className="flex-1">
                           <p className="text-[9px] font-bold text-slate-600 uppercase mb-1">Master Password</p>
                           <p className={`text-xs font-mono text-slate-300 tracking-tighter ${!showPass ? 'blur-[5px]' : ''}`}>
-                            {selectedAccount.password || '••••••••'}
+                            {(showPass && revealedCredentials?.password) || '••••••••'}
                           </p>
                         </div>
-                        <button onClick={() => handleCopy(selectedAccount.password!, 'pass')} className="p-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white">
+                        <button onClick={() => handleCopySecret(drawerAccount?.password, 'pass')} className="p-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white">
                             {copiedId === 'pass' ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
                         </button>
                     </div>
@@ -431,19 +992,34 @@ const AccountTable: React.FC<AccountTableProps> = ({
                         <div className="flex-1">
                           <p className="text-[9px] font-bold text-slate-600 uppercase mb-1">2FA / OTP Seed</p>
                           <p className={`text-xs font-mono text-slate-300 ${!showPass ? 'blur-[5px]' : ''}`}>
-                            {selectedAccount.twoFactorSecret || 'NONE_CONFIGURED'}
+                            {!drawerAccount?.twoFactorSecret ? 'NONE_CONFIGURED' : (showPass && revealedCredentials?.twoFactorSecret) || '••••••••••••••••'}
                           </p>
                         </div>
-                        <button onClick={() => handleCopy(selectedAccount.twoFactorSecret!, 'otp')} className="p-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white">
+                        <button onClick={() => handleCopySecret(drawerAccount?.twoFactorSecret, 'otp')} className="p-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-white">
                             {copiedId === 'otp' ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
                         </button>
                     </div>
+                    {drawerAccount?.twoFactorSecret && (
+                      <div className="p-4">
+                        <p className="text-[9px] font-bold text-slate-600 uppercase mb-2 flex items-center gap-1"><ShieldCheck className="w-3 h-3" /> Live Authenticator Code</p>
+                        {totpSecret ? (
+                          <TotpCode secret={totpSecret} />
+                        ) : (
+                          <button onClick={onRequestVaultUnlock} className="text-[10px] font-black uppercase text-emerald-400 hover:text-emerald-300 flex items-center gap-1"><Lock className="w-3 h-3" /> Unlock vault to generate codes</button>
+                        )}
+                      </div>
+                    )}
                 </div>
-            </div>
+            </div>}
 
-            {/* Audit Log */}
+            <AuditTimeline
+              account={selectedAccount}
+              onRevert={can(profile, 'account:edit', selectedAccount) && !selectedAccount.isDeleted ? (updates) => onUpdateAccount(selectedAccount.id, updates) : undefined}
+            />
+
+            {/* Activity notes kept on the record itself */}
             <div className="space-y-4">
-                 <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><Clock className="w-3 h-3" /> Vault Audit Logs</h4>
+                 <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><Clock className="w-3 h-3" /> Activity Notes</h4>
                  <div className="space-y-4 border-l-2 border-slate-800 ml-2 pl-6 py-2">
                      {(selectedAccount.history || []).slice().reverse().map((log, i) => (
                          <div key={i} className="relative group">
@@ -457,13 +1033,68 @@ const AccountTable: React.FC<AccountTableProps> = ({
             </div>
           </div>
           
-          <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex gap-4">
+          {can(profile, 'account:edit', selectedAccount) && <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex gap-4">
             <button onClick={() => openEditModal(selectedAccount)} className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all shadow-xl shadow-indigo-600/20 flex items-center justify-center gap-2"><Edit2 className="w-4 h-4" /> Edit Record</button>
-            <button onClick={() => handleDelete(selectedAccount.id)} className="p-3 bg-red-600/10 hover:bg-red-600 text-red-500 hover:text-white rounded-xl transition-all"><Trash2 className="w-5 h-5" /></button>
-          </div>
+            {can(profile, 'account:delete', selectedAccount) && <button onClick={() => handleDelete(selectedAccount.id)} className="p-3 bg-red-600/10 hover:bg-red-600 text-red-500 hover:text-white rounded-xl transition-all"><Trash2 className="w-5 h-5" /></button>}
+          </div>}
         </div>
       )}
 
+      {isImportOpen && (
+        <ImportWizard findExisting={(candidates) => repository.findDuplicates(candidates).then(applyPending)} onCommit={onImportAccounts} onClose={() => setIsImportOpen(false)} />
+      )}
+
+      {isBulkEditOpen && (
+        <BulkEditPanel
+          accounts={panelAccounts}
+          managers={managers}
+          onCommit={async (updatesById) => {
+            await onBulkEdit(updatesById);
+            setSelectedIds(new Set());
+          }}
+          onClose={() => setIsBulkEditOpen(false)}
+        />
+      )}
+
+      {isDuplicatesOpen && (
+        <DuplicatesPanel
+          accounts={panelAccounts}
+          onMerge={can(profile, 'account:bulk') ? onMergeAccounts : undefined}
+          onClose={() => setIsDuplicatesOpen(false)}
+        />
+      )}
+
+      {isBatchAuditOpen && (
+        <BatchAuditPanel
+          repository={repository}
+          selection={panelAccounts}
+          profile={profile}
+          onSaveAudit={onSaveAiAudit}
+          onClose={() => setIsBatchAuditOpen(false)}
+        />
+      )}
+
+      {isAskOpen && (
+        <AskPanel
+          repository={repository}
+          profile={profile}
+          filters={filters}
+          viewState={viewState}
+          onApply={setSearchTerm}
+          onSaveView={applyView}
+          onClose={() => setIsAskOpen(false)}
+        />
+      )}
+
+      {isExportOpen && (
+        <ExportDialog
+          accounts={panelAccounts}
+          scopeLabel={selectedIds.size > 0 ? 'selected rows' : `current ${viewMode} view`}
+          exportedBy={currentUser?.email ?? null}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
       {/* Entry Modal (Add/Edit) */}
       {isModalOpen && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
@@ -473,53 +1104,94 @@ const AccountTable: React.FC<AccountTableProps> = ({
                     <button onClick={() => setIsModalOpen(false)} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-7 h-7" /></button>
                 </div>
                 <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-8">
+                    {duplicateMatches.length > 0 && (
+                        <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 space-y-1 text-sm text-amber-300">
+                            <p className="flex items-center gap-2 font-bold"><AlertTriangle className="w-4 h-4" /> Possible duplicate</p>
+                            {duplicateMatches.map(m => (
+                                <p key={m.account.id} className="text-xs text-amber-200/80">
+                                    {m.account.username} on {m.account.platform}{m.account.isArchived ? ' (archived)' : ''}: {m.reasons.map(r => DUPLICATE_REASON_LABELS[r]).join(', ')}
+                                </p>
+                            ))}
+                        </div>
+                    )}
                     <form id="entryForm" onSubmit={handleSubmit} className="space-y-10">
                         <section className="space-y-6">
                             <h4 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest border-b border-slate-800 pb-2">Identification Layer</h4>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Username / Handle</label>
-                                    <input type="text" required value={formState.username} onChange={(e) => setFormState({...formState, username: e.target.value})} placeholder="@handle" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold" />
+                                    <input type="text" required value={formState.username} onChange={(e) => updateForm({ username: e.target.value })} placeholder={`@handle (${platformFor(formState.platform).handle.hint})`} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold" />
+                                    {fieldError('username')}
                                 </div>
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Network Layer</label>
-                                    <select value={formState.platform} onChange={(e) => setFormState({...formState, platform: e.target.value as any})} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold">
-                                        <option value="Twitter">Twitter</option><option value="Instagram">Instagram</option><option value="LinkedIn">LinkedIn</option><option value="TikTok">TikTok</option>
+                                    <select value={formState.platform} onChange={(e) => updateForm({ platform: e.target.value as UserAccount['platform'] })} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold">
+                                        {PLATFORMS.map(p => <option key={p} value={p}>{platformFor(p).name}</option>)}
                                     </select>
+                                    {fieldError('platform')}
                                 </div>
                             </div>
                             <div className="grid grid-cols-2 gap-6">
                                 <div>
-                                    <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Verified Reach</label>
-                                    <input type="number" required min="0" value={formState.followers} onChange={(e) => setFormState({...formState, followers: parseInt(e.target.value) || 0})} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono" />
+                                    <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Verified Reach ({platformFor(formState.platform).metrics.audience})</label>
+                                    <input type="number" required min="0" value={formState.followers} onChange={(e) => updateForm({ followers: parseInt(e.target.value) || 0 })} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono" />
+                                    {fieldError('followers')}
                                 </div>
                                 <div>
-                                    <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Engagement Velocity (%)</label>
-                                    <input type="number" required min="0" max="100" step="0.1" value={formState.engagementRate} onChange={(e) => setFormState({...formState, engagementRate: parseFloat(e.target.value) || 0})} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono" />
+                                    <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">{platformFor(formState.platform).metrics.engagement} (%)</label>
+                                    <input type="number" required min="0" max="100" step="0.1" value={formState.engagementRate} onChange={(e) => updateForm({ engagementRate: parseFloat(e.target.value) || 0 })} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono" />
+                                    {fieldError('engagementRate')}
                                 </div>
                             </div>
                         </section>
 
                         <section className="space-y-6">
-                            <h4 className="text-[10px] font-black text-emerald-400 uppercase tracking-widest border-b border-slate-800 pb-2">Security Credentials</h4>
+                            <div className="flex justify-between items-center border-b border-slate-800 pb-2">
+                                <h4 className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">Security Credentials</h4>
+                                {credentialsLocked && (
+                                    <button type="button" onClick={onRequestVaultUnlock} className="text-[10px] font-black uppercase text-emerald-400 hover:text-emerald-300 flex items-center gap-1"><Lock className="w-3 h-3" /> Unlock to Edit</button>
+                                )}
+                            </div>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Access Email</label>
-                                    <input type="email" value={formState.email} onChange={(e) => setFormState({...formState, email: e.target.value})} placeholder="vault@system.com" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono" />
+                                    <input type="email" value={formState.email} onChange={(e) => updateForm({ email: e.target.value })} placeholder="vault@system.com" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono" />
+                                    {fieldError('email')}
                                 </div>
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Access Key (Password)</label>
-                                    <input type="text" value={formState.password} onChange={(e) => setFormState({...formState, password: e.target.value})} placeholder="SECURE_PHRASE" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono" />
+                                    <input type="text" disabled={credentialsLocked} value={credentialsLocked ? '' : formState.password} onChange={(e) => updateForm({ password: e.target.value })} placeholder={credentialsLocked ? 'VAULT_LOCKED' : 'SECURE_PHRASE'} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono disabled:opacity-50" />
+                                    {fieldError('password')}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Recovery Phone</label>
+                                    <input type="tel" value={formState.phone} onChange={(e) => updateForm({ phone: e.target.value })} placeholder="+15550102030" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono" />
+                                    {fieldError('phone')}
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Website</label>
+                                    <input type="text" value={formState.website} onChange={(e) => updateForm({ website: e.target.value })} placeholder="https://example.com" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono" />
+                                    {fieldError('website')}
                                 </div>
                             </div>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Assigned Custodian</label>
-                                    <input type="text" value={formState.accountManager} onChange={(e) => setFormState({...formState, accountManager: e.target.value})} placeholder="Operator Name" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold" />
+                                    <input type="text" disabled={profile.role === 'manager'} value={formState.accountManager} onChange={(e) => updateForm({ accountManager: e.target.value })} placeholder="Operator Name" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold disabled:opacity-50" />
+                                    {fieldError('accountManager')}
                                 </div>
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">MFA Token Seed</label>
-                                    <input type="text" value={formState.twoFactorSecret} onChange={(e) => setFormState({...formState, twoFactorSecret: e.target.value})} placeholder="JBSW..." className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono" />
+                                    <div className="flex gap-2">
+                                        <input type="text" disabled={credentialsLocked} value={credentialsLocked ? '' : formState.twoFactorSecret} onChange={(e) => { setQrError(null); updateForm({ twoFactorSecret: e.target.value }); }} placeholder={credentialsLocked ? 'VAULT_LOCKED' : 'JBSW... or otpauth://'} className={`w-full bg-slate-950 border rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono disabled:opacity-50 ${twoFactorError ? 'border-red-500/60' : 'border-slate-800'}`} />
+                                        <label title="Scan QR image" className={`flex items-center px-3 rounded-xl border border-slate-800 bg-slate-950 text-slate-400 hover:text-white transition-all ${credentialsLocked ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                                            <QrCode className="w-5 h-5" />
+                                            <input type="file" accept="image/*" onChange={handleQrUpload} className="hidden" />
+                                        </label>
+                                    </div>
+                                    {twoFactorError ? <p className="text-[10px] text-red-400 font-bold mt-2">{twoFactorError}</p> : fieldError('twoFactorSecret')}
                                 </div>
                             </div>
                         </section>
@@ -529,27 +1201,29 @@ const AccountTable: React.FC<AccountTableProps> = ({
                             <div className="grid grid-cols-2 gap-6">
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Regional Sector</label>
-                                    <select value={formState.country} onChange={(e) => setFormState({...formState, country: e.target.value})} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold">
+                                    <select value={formState.country} onChange={(e) => updateForm({ country: e.target.value })} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold">
                                         <option value="">N/A</option><option value="USA">USA</option><option value="UK">UK</option><option value="Canada">Canada</option><option value="India">India</option><option value="Brazil">Brazil</option><option value="Japan">Japan</option>
                                     </select>
                                 </div>
                                 <div>
                                     <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Operational Status</label>
-                                    <select value={formState.status} onChange={(e) => setFormState({...formState, status: e.target.value as any})} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold">
+                                    <select value={formState.status} onChange={(e) => updateForm({ status: e.target.value as UserAccount['status'] })} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-bold">
                                         <option value="Active">Active</option><option value="Suspended">Suspended</option><option value="Verified">Verified</option><option value="Shadowbanned">Shadowbanned</option>
                                     </select>
+                                    {fieldError('status')}
                                 </div>
                             </div>
                             <div>
                                 <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Internal Directives (Notes)</label>
-                                <textarea rows={4} value={formState.notes} onChange={(e) => setFormState({...formState, notes: e.target.value})} placeholder="Operational directives and strategy..." className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-none transition-all font-medium" />
+                                <textarea rows={4} value={formState.notes} onChange={(e) => updateForm({ notes: e.target.value })} placeholder="Operational directives and strategy..." className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-none transition-all font-medium" />
+                                {fieldError('notes')}
                             </div>
                         </section>
                     </form>
                 </div>
                 <div className="p-8 border-t border-slate-800 bg-slate-800/30 flex justify-end gap-4">
                     <button onClick={() => setIsModalOpen(false)} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs">Cancel</button>
-                    <button type="submit" form="entryForm" disabled={isSubmitting} className="px-10 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50 shadow-2xl shadow-indigo-600/30">
+                    <button type="submit" form="entryForm" disabled={isSubmitting || !!twoFactorError} className="px-10 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50 shadow-2xl shadow-indigo-600/30">
                         {isSubmitting ? 'Syncing...' : modalMode === 'add' ? 'Initialize Entry' : 'Commit Entry Changes'}
                     </button>
                 </div>
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { AIAuditRecord } from '../types';
+import { compareAudits } from '../services/aiAudits';
+import SentimentBadge from './SentimentBadge';
+import { GitCompare } from 'lucide-react';
+
+interface AiAuditCardProps {
+  audit: AIAuditRecord;
+  // Earlier audits of the same account, oldest first, to compare against.
+  previous: AIAuditRecord[];
+}
+
+const formatWhen = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const PointList: React.FC<{ points: string[]; marker?: string; className?: string }> = ({ points, marker = '•', className = 'text-slate-300' }) => (
+  <ul className="space-y-1">
+    {points.map((point, i) => <li key={i} className={`text-xs flex items-start gap-1 ${className}`}><span>{marker}</span> {point}</li>)}
+  </ul>
+);
+
+// The current audit of an account, optionally compared with an earlier one.
+const AiAuditCard: React.FC<AiAuditCardProps> = ({ audit, previous }) => {
+  const [compareDate, setCompareDate] = useState('');
+  const baseline = previous.find(p => p.date === compareDate) ?? null;
+  const comparison = baseline ? compareAudits(audit, baseline) : null;
+
+  // A new audit starts without a comparison.
+  useEffect(() => setCompareDate(''), [audit.date]);
+
+  return (
+    <div className="bg-indigo-600/5 border border-indigo-500/20 p-6 rounded-2xl space-y-4 animate-in fade-in zoom-in-95">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-slate-400">Account Sentiment</span>
+        <SentimentBadge sentiment={audit.sentiment} />
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {formatWhen(audit.date)} · {audit.model}{audit.auditedBy ? ` · ${audit.auditedBy}` : ''}
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-[9px] font-bold text-emerald-500 uppercase mb-2">Strengths</p>
+          <PointList points={audit.strengths} />
+        </div>
+        <div>
+          <p className="text-[9px] font-bold text-red-500 uppercase mb-2">Risks</p>
+          <PointList points={audit.weaknesses} />
+        </div>
+      </div>
+      <div className="pt-2 border-t border-indigo-500/20">
+        <p className="text-[9px] font-bold text-indigo-400 uppercase mb-1">Growth Directives</p>
+        <p className="text-xs text-slate-200 italic leading-relaxed">"{audit.growthStrategy}"</p>
+      </div>
+
+      {previous.length > 0 && (
+        <div className="pt-2 border-t border-indigo-500/20 space-y-3">
+          <label className="flex items-center gap-2 text-[9px] font-bold text-slate-500 uppercase">
+            <GitCompare className="w-3 h-3" /> Compare with
+            <select value={compareDate} onChange={e => setCompareDate(e.target.value)} className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300 normal-case font-normal outline-none">
+              <option value="">—</option>
+              {[...previous].reverse().map(p => <option key={p.date} value={p.date}>{formatWhen(p.date)} · {p.sentiment}</option>)}
+            </select>
+          </label>
+          {baseline && comparison && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                Sentiment: <SentimentBadge sentiment={baseline.sentiment} /> → <SentimentBadge sentiment={audit.sentiment} />
+                {!comparison.sentimentChanged && <span className="text-slate-600">(unchanged)</span>}
+              </div>
+              {comparison.newStrengths.length > 0 && <div><p className="text-[9px] font-bold text-emerald-500 uppercase mb-1">New strengths</p><PointList points={comparison.newStrengths} marker="+" className="text-emerald-300" /></div>}
+              {comparison.lostStrengths.length > 0 && <div><p className="text-[9px] font-bold text-slate-500 uppercase mb-1">No longer listed as strengths</p><PointList points={comparison.lostStrengths} marker="−" className="text-slate-500 line-through" /></div>}
+              {comparison.newWeaknesses.length > 0 && <div><p className="text-[9px] font-bold text-red-500 uppercase mb-1">New risks</p><PointList points={comparison.newWeaknesses} marker="+" className="text-red-300" /></div>}
+              {comparison.resolvedWeaknesses.length > 0 && <div><p className="text-[9px] font-bold text-slate-500 uppercase mb-1">Risks no longer listed</p><PointList points={comparison.resolvedWeaknesses} marker="−" className="text-slate-500 line-through" /></div>}
+              {comparison.strategyChanged && (
+                <div>
+                  <p className="text-[9px] font-bold text-slate-500 uppercase mb-1">Previous directive</p>
+                  <p className="text-xs text-slate-500 italic leading-relaxed">"{baseline.growthStrategy}"</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiAuditCard;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { LLMProviderId } from '../services/llm';
+import { createProvider, DEFAULT_GATEWAY_POLICY, DEFAULT_MODELS, LLM_PROVIDER_LABELS, LLMSettings, loadLLMSettings, saveLLMSettings } from '../services/llmSettings';
+import { withGateway } from '../services/aiGateway';
+import { cachedEntryCount, clearAiCache } from '../services/aiCache';
+import { Sparkles, CheckCircle2, AlertCircle } from 'lucide-react';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Chooses the model behind audits, trends and other AI features for this browser.
+const AiProviderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [cacheSize, setCacheSize] = useState(cachedEntryCount);
+
+  const update = (changes: Partial<LLMSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveLLMSettings(next);
+    setTestResult(null);
+  };
+
+  const changeProvider = (provider: LLMProviderId) => update({ provider, model: DEFAULT_MODELS[provider] });
+
+  const updateNumber = (field: keyof typeof DEFAULT_GATEWAY_POLICY, value: string, min: number) =>
+    update({ [field]: Math.max(min, Math.floor(Number(value) || 0)) });
+
+  const clearCache = () => {
+    clearAiCache();
+    setCacheSize(0);
+  };
+
+  const testConnection = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      await withGateway(createProvider(settings), settings).generateJson(
+        'Reply with {"ok": true}.', { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] }, { feature: 'test', fresh: true }
+      );
+      setTestResult({ ok: true, message: `${settings.model} answered.` });
+    } catch (err: any) {
+      console.error("AI provider test failed:", err);
+      setTestResult({ ok: false, message: `${err?.name ?? 'Error'}: ${err?.message ?? err}` });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left space-y-3">
+      <p className="text-xs text-slate-500 uppercase font-bold flex items-center gap-2"><Sparkles className="w-3 h-3 text-indigo-400" /> AI Provider</p>
+      <p className="text-sm text-slate-400">Used for AI features in this browser. Saved audits record the model that wrote them.</p>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">Provider</span>
+          <select value={settings.provider} onChange={(e) => changeProvider(e.target.value as LLMProviderId)} className={inputClass}>
+            {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderId[]).map(id => <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">Model</span>
+          <input value={settings.model} disabled={settings.provider === 'mock'} onChange={(e) => update({ model: e.target.value })} onBlur={() => { if (!settings.model.trim()) update({ model: DEFAULT_MODELS[settings.provider] }); }} className={`${inputClass} disabled:opacity-50`} />
+        </label>
+      </div>
+      {settings.provider === 'openai' && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">Base URL</span>
+            <input value={settings.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">API key (optional)</span>
+            <input type="password" value={settings.apiKey} onChange={(e) => update({ apiKey: e.target.value })} autoComplete="off" className={inputClass} />
+          </label>
+        </div>
+      )}
+      {settings.provider === 'openai' && <p className="text-[10px] text-slate-500">The key is kept in this browser's local storage. Local servers such as Ollama need none, but must allow this site's origin.</p>}
+      <div className="grid grid-cols-3 gap-3">
+        <label className="block">
+          <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">Cache replies (min)</span>
+          <input type="number" min={0} value={settings.responseTtlMinutes} onChange={(e) => updateNumber('responseTtlMinutes', e.target.value, 0)} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">Cache trends (min)</span>
+          <input type="number" min={0} value={settings.trendsTtlMinutes} onChange={(e) => updateNumber('trendsTtlMinutes', e.target.value, 0)} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="block text-[10px] font-black text-slate-500 uppercase mb-1">Requests / min</span>
+          <input type="number" min={1} value={settings.requestsPerMinute} onChange={(e) => updateNumber('requestsPerMinute', e.target.value, 1)} className={inputClass} />
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-[10px] text-slate-500">Identical requests reuse the cached reply; 0 turns caching off. New bios and post ideas are never cached. {cacheSize} repl{cacheSize === 1 ? 'y' : 'ies'} cached.</p>
+        <button onClick={clearCache} disabled={cacheSize === 0} className="text-[10px] font-black uppercase text-slate-400 hover:text-white whitespace-nowrap disabled:opacity-50">Clear cache</button>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        {testResult ? (
+          <p className={`text-xs flex items-center gap-1 ${testResult.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+            {testResult.ok ? <CheckCircle2 className="w-3 h-3 flex-shrink-0" /> : <AlertCircle className="w-3 h-3 flex-shrink-0" />} {testResult.message}
+          </p>
+        ) : <span />}
+        <button onClick={testConnection} disabled={isTesting} className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-xs font-bold whitespace-nowrap disabled:opacity-50">
+          {isTesting ? 'Testing...' : 'Test Connection'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AiProviderSettings;
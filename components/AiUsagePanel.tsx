@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UserProfile } from '../types';
+import { AIUsageEntry, loadAiBudget, saveAiBudget, startOfMonth, subscribeToUsage, summarizeUsage, UsageSummary } from '../services/aiUsage';
+import { BarChart3 } from 'lucide-react';
+
+interface AiUsagePanelProps {
+  profile: UserProfile;
+}
+
+const LEDGER_DAYS = 14;
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens >= 10_000 ? `${(tokens / 1000).toFixed(0)}k` : tokens.toLocaleString();
+const localDay = (iso: string) => new Date(iso).toLocaleDateString('en-CA');
+
+const SummaryTable: React.FC<{ title: string; rows: UsageSummary[]; empty: string }> = ({ title, rows, empty }) => (
+  <div>
+    <p className="text-[10px] font-black text-slate-500 uppercase mb-1">{title}</p>
+    {rows.length === 0 ? <p className="text-xs text-slate-500">{empty}</p> : (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="font-bold py-1"></th>
+            <th className="font-bold py-1 text-right">Calls</th>
+            <th className="font-bold py-1 text-right">Tokens in / out</th>
+            <th className="font-bold py-1 text-right">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800">
+          {rows.map(row => (
+            <tr key={row.key} className="text-slate-300">
+              <td className="py-1 truncate max-w-[10rem]">{row.key}</td>
+              <td className="py-1 text-right">{row.calls}</td>
+              <td className="py-1 text-right font-mono">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</td>
+              <td className="py-1 text-right font-mono">{formatCost(row.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+// The workspace's AI usage ledger by day and by member, and its monthly budget.
+const AiUsagePanel: React.FC<AiUsagePanelProps> = ({ profile }) => {
+  const [entries, setEntries] = useState<AIUsageEntry[]>([]);
+  const [budget, setBudget] = useState<number | null>(null);
+  const monthStart = useMemo(() => startOfMonth(), []);
+  const since = useMemo(() => {
+    const ledgerStart = new Date();
+    ledgerStart.setHours(0, 0, 0, 0);
+    ledgerStart.setDate(ledgerStart.getDate() - (LEDGER_DAYS - 1));
+    return ledgerStart < monthStart ? ledgerStart : monthStart;
+  }, [monthStart]);
+
+  useEffect(() => subscribeToUsage(since, setEntries, (err) => console.error("AI usage listener failed:", err)), [since]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAiBudget()
+      .then(value => { if (!cancelled) setBudget(value); })
+      .catch(err => console.error("Loading AI budget failed:", err));
+    return () => { cancelled = true; };
+  }, []);
+
+  const saveBudget = async () => {
+    if (budget === null) return;
+    try {
+      await saveAiBudget(budget);
+    } catch (err) {
+      console.error("Saving AI budget failed:", err);
+      alert("Could not save the AI budget.");
+    }
+  };
+
+  const monthEntries = entries.filter(e => e.date >= monthStart.toISOString());
+  const spent = monthEntries.reduce((total, e) => total + e.cost, 0);
+  const byDay = summarizeUsage(entries.filter(e => Date.parse(e.date) >= Date.now() - LEDGER_DAYS * 24 * 60 * 60 * 1000), e => localDay(e.date)).reverse();
+  const byUser = summarizeUsage(monthEntries, e => e.userName || e.uid || 'Unknown').sort((a, b) => b.cost - a.cost);
+  // Workspace settings are admin-only, like trash retention.
+  const isAdmin = profile.role === 'admin';
+
+  return (
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left space-y-4">
+      <p className="text-xs text-slate-500 uppercase font-bold flex items-center gap-2"><BarChart3 className="w-3 h-3 text-indigo-400" /> AI Usage</p>
+      <div>
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-400">This month</span>
+          <span className="text-white font-bold">{formatCost(spent)}{budget ? ` of ${formatCost(budget)}` : ''}</span>
+        </div>
+        {budget ? (
+          <div className="h-2 mt-2 bg-slate-800 rounded-full overflow-hidden">
+            <div className={`h-full transition-all ${spent >= budget ? 'bg-red-500' : spent >= budget * 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }} />
+          </div>
+        ) : null}
+        {budget !== null && budget > 0 && spent >= budget && <p className="text-xs text-red-400 mt-2">The budget is used up; AI requests are blocked until next month or until it is raised.</p>}
+      </div>
+      {isAdmin && (
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-sm text-slate-400">Monthly budget in US dollars. 0 means no cap.</span>
+          <input
+            type="number" min={0} step={1} value={budget ?? ''} disabled={budget === null}
+            onChange={(e) => setBudget(Math.max(0, Number(e.target.value) || 0))}
+            onBlur={saveBudget}
+            className="w-24 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      )}
+      <SummaryTable title={`Last ${LEDGER_DAYS} days`} rows={byDay} empty="No AI requests yet." />
+      <SummaryTable title="By member this month" rows={byUser} empty="No AI requests this month." />
+      <p className="text-[10px] text-slate-500">Costs are estimated from token counts and list prices. Cached replies are free and not counted. Local models count as free.</p>
+    </div>
+  );
+};
+
+export default AiUsagePanel;
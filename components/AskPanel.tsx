@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UserAccount, UserProfile } from '../types';
+import { translateQuestion } from '../services/geminiService';
+import { askContext, toSearchQuery } from '../services/askQuery';
+import { matchesSearch, parseSearchQuery } from '../services/searchQuery';
+import { AccountFilters, AccountRepository, matchesAccountFilters } from '../services/accountRepository';
+import { createView, SavedView, TableViewState } from '../services/savedViews';
+import SearchQueryInput from './SearchQueryInput';
+import PlatformBadge from './PlatformBadge';
+import { MessageSquare, XCircle, AlertCircle, ShieldCheck } from 'lucide-react';
+
+interface AskPanelProps {
+  repository: AccountRepository;
+  profile: UserProfile;
+  // The table's current filters; the answer is counted within them.
+  filters: AccountFilters;
+  viewState: TableViewState;
+  onApply: (query: string) => void;
+  onSaveView: (view: SavedView) => void;
+  onClose: () => void;
+}
+
+const EXAMPLES = [
+  'Verified TikTok accounts over 50k followers managed by Priya',
+  'Accounts that have not posted since last month',
+  'Negative audits or shadowbanned, excluding archived'
+];
+
+const PREVIEW_LIMIT = 5;
+
+// Turns a plain-language question into a search query. Only the question
+// and field vocabulary go to the model; the query is matched here.
+const AskPanel: React.FC<AskPanelProps> = ({ repository, profile, filters, viewState, onApply, onSaveView, onClose }) => {
+  // The accounts within the table's filters, read once when the panel opens.
+  const [data, setData] = useState<UserAccount[]>([]);
+  const [question, setQuestion] = useState('');
+  const [query, setQuery] = useState('');
+  const [explanation, setExplanation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [viewName, setViewName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    repository.list(filters)
+      .then(accounts => { if (!cancelled) setData(accounts); })
+      .catch(err => console.error("Loading accounts failed:", err));
+    return () => { cancelled = true; };
+  }, [repository, filters]);
+
+  const parsed = useMemo(() => parseSearchQuery(query), [query]);
+  const matches = useMemo(
+    () => parsed.query ? data.filter(a => matchesAccountFilters(a, filters) && matchesSearch(a, parsed.query!)) : [],
+    [data, filters, parsed]
+  );
+  const isValid = !!parsed.query && parsed.errors.length === 0;
+
+  const ask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+    setIsAsking(true);
+    setError(null);
+    try {
+      const filter = await translateQuestion(question.trim(), askContext(data));
+      setQuery(toSearchQuery(filter));
+      setExplanation(filter.explanation);
+      setViewName(question.trim().slice(0, 60));
+    } catch (err: any) {
+      console.error("Translating question failed:", err);
+      setError(err?.message ?? 'The question could not be translated.');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const apply = () => {
+    onApply(query);
+    onClose();
+  };
+
+  const saveView = async () => {
+    if (!viewName.trim()) return;
+    try {
+      const view = await createView(profile, { name: viewName.trim(), shared: false, state: { ...viewState, search: query } });
+      onSaveView(view);
+      onClose();
+    } catch (err) {
+      console.error("Saving view failed:", err);
+      alert("Could not save this view.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-3xl shadow-4xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-lg font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-indigo-400" /> Ask the Database
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-7 h-7" /></button>
+        </div>
+
+        <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-6">
+          <form onSubmit={ask} className="flex gap-3">
+            <input
+              autoFocus
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              placeholder={EXAMPLES[0]}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button type="submit" disabled={isAsking || !question.trim()} className="px-6 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">
+              {isAsking ? 'Thinking...' : 'Ask'}
+            </button>
+          </form>
+          {!query && !error && (
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLES.map(example => (
+                <button key={example} onClick={() => setQuestion(example)} className="px-3 py-1.5 rounded-full bg-slate-800 hover:bg-slate-700 text-slate-400 text-xs transition-all">{example}</button>
+              ))}
+            </div>
+          )}
+          {error && <p className="text-sm text-red-400 flex items-center gap-2"><AlertCircle className="w-4 h-4 flex-shrink-0" /> {error}</p>}
+
+          {(query || explanation) && (
+            <div className="space-y-3">
+              {explanation && <p className="text-sm text-slate-300 italic">"{explanation}"</p>}
+              <span className="block text-[10px] font-black text-slate-500 uppercase">Filter (edit freely)</span>
+              <SearchQueryInput value={query} onChange={setQuery} accounts={data} errors={parsed.errors} />
+              {isValid && (
+                <div className="border border-slate-800 rounded-2xl">
+                  <p className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 border-b border-slate-800">
+                    {matches.length} matching account{matches.length === 1 ? '' : 's'} in the current table filters
+                  </p>
+                  {matches.slice(0, PREVIEW_LIMIT).map(account => (
+                    <div key={account.id} className="px-4 py-2 flex items-center gap-3 text-xs">
+                      <span className="font-bold text-white flex-1 truncate">{account.username}</span>
+                      <PlatformBadge platform={account.platform} className="text-slate-400" />
+                    </div>
+                  ))}
+                  {matches.length > PREVIEW_LIMIT && <p className="px-4 py-2 text-xs text-slate-500">and {matches.length - PREVIEW_LIMIT} more</p>}
+                </div>
+              )}
+            </div>
+          )}
+
+          <p className="text-[10px] text-slate-500 flex items-center gap-1">
+            <ShieldCheck className="w-3 h-3" /> Only your question and the names of fields, networks, statuses, tags, countries, categories and managers are sent. Account records and credentials stay in this browser.
+          </p>
+        </div>
+
+        <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex flex-col sm:flex-row justify-between gap-4">
+          <button onClick={onClose} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs">Close</button>
+          <div className="flex gap-3">
+            <input
+              value={viewName}
+              onChange={e => setViewName(e.target.value)}
+              placeholder="View name"
+              disabled={!isValid}
+              className="bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white text-xs outline-none disabled:opacity-50"
+            />
+            <button onClick={saveView} disabled={!isValid || !viewName.trim()} className="px-6 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">Save as View</button>
+            <button onClick={apply} disabled={!isValid} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">Apply to Table</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AskPanel;
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UserProfile } from '../types';
+import {
+  AUDIT_ACTION_LABELS, AUDIT_PAGE_SIZE, AUDITED_FIELDS, AuditEntry, auditFieldLabel, AuditQuery, fetchAuditLog, formatAuditValue
+} from '../services/auditLog';
+import { listMembers } from '../services/workspaces';
+import { isFirestoreBackend } from '../services/config';
+import { History, Lock, Filter } from 'lucide-react';
+
+interface AuditLogViewProps {
+  profile: UserProfile;
+}
+
+// Date inputs give local calendar days; the log stores UTC timestamps.
+const dayStart = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const dayEnd = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+const AuditLogView: React.FC<AuditLogViewProps> = ({ profile }) => {
+  const [actorUid, setActorUid] = useState('');
+  const [field, setField] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isFirestoreBackend()) return;
+    listMembers().then(setMembers).catch(err => console.error("Loading members failed:", err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const filters: AuditQuery = { actorUid: actorUid || undefined, field: field || undefined, from: dayStart(fromDay), to: dayEnd(toDay) };
+    setIsLoading(true);
+    fetchAuditLog(filters)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(err => console.error("Loading audit log failed:", err))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [actorUid, field, fromDay, toDay]);
+
+  // Former members and the local backends' single user only appear in the log itself.
+  const actors = useMemo(() => {
+    const byUid = new Map<string, string>([[profile.uid, profile.displayName || profile.email || profile.uid]]);
+    members.forEach(m => byUid.set(m.uid, m.displayName || m.email || m.uid));
+    entries.forEach(e => { if (!byUid.has(e.actorUid)) byUid.set(e.actorUid, e.actorName); });
+    return Array.from(byUid, ([uid, name]) => ({ uid, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [members, entries, profile]);
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl p-4 flex flex-wrap items-end gap-4">
+        <Filter className="w-4 h-4 text-slate-500 mb-3" />
+        <label className="space-y-1">
+          <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest">User</span>
+          <select value={actorUid} onChange={(e) => setActorUid(e.target.value)} className={inputClass}>
+            <option value="">Everyone</option>
+            {actors.map(a => <option key={a.uid} value={a.uid}>{a.name}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest">Field</span>
+          <select value={field} onChange={(e) => setField(e.target.value)} className={inputClass}>
+            <option value="">Any field</option>
+            {AUDITED_FIELDS.map(f => <option key={f} value={f}>{auditFieldLabel(f)}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest">From</span>
+          <input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest">To</span>
+          <input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className={inputClass} />
+        </label>
+        {(actorUid || field || fromDay || toDay) && (
+          <button onClick={() => { setActorUid(''); setField(''); setFromDay(''); setToDay(''); }} className="mb-2 text-xs font-bold text-slate-400 hover:text-white">Clear filters</button>
+        )}
+      </div>
+
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-bold text-white flex items-center gap-2"><History className="w-4 h-4 text-indigo-400" /> Audit Log</h3>
+          <span className="text-xs text-slate-500">
+            {isLoading ? 'Loading…' : entries.length >= AUDIT_PAGE_SIZE ? `Latest ${AUDIT_PAGE_SIZE} changes` : `${entries.length} changes`}
+          </span>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-900/50 text-[10px] uppercase tracking-widest text-slate-500">
+            <tr>
+              <th className="px-6 py-3 font-black">When</th>
+              <th className="px-6 py-3 font-black">User</th>
+              <th className="px-6 py-3 font-black">Account</th>
+              <th className="px-6 py-3 font-black">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {!isLoading && entries.length === 0 && (
+              <tr><td colSpan={4} className="px-6 py-10 text-center text-slate-500 italic">No changes match these filters.</td></tr>
+            )}
+            {entries.map(entry => (
+              <tr key={`${entry.accountId}/${entry.id}`} className="align-top hover:bg-slate-700/20">
+                <td className="px-6 py-3 text-xs text-slate-400 font-mono whitespace-nowrap">{new Date(entry.at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</td>
+                <td className="px-6 py-3 text-slate-200 whitespace-nowrap">{entry.actorName}</td>
+                <td className="px-6 py-3 text-slate-200">{entry.username || <span className="text-slate-500 italic">unknown</span>}</td>
+                <td className="px-6 py-3">
+                  <p className="text-xs font-bold text-slate-300">{AUDIT_ACTION_LABELS[entry.action]}</p>
+                  {entry.action !== 'create' && entry.changes.map(c => (
+                    <p key={c.field} className="text-[11px] font-mono leading-relaxed">
+                      <span className="text-slate-500">{auditFieldLabel(c.field)}: </span>
+                      {c.masked && <Lock className="inline w-2.5 h-2.5 text-slate-500 mr-1" />}
+                      <span className="text-red-400 line-through">{formatAuditValue(c.before)}</span>
+                      <span className="text-slate-600"> → </span>
+                      <span className="text-emerald-400">{formatAuditValue(c.after)}</span>
+                    </p>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogView;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { UserAccount } from '../types';
+import {
+  AUDIT_ACTION_LABELS, AuditEntry, auditFieldLabel, fetchAccountAudit, formatAuditValue, versionUpdates
+} from '../services/auditLog';
+import { History, Lock, RotateCcw } from 'lucide-react';
+
+interface AuditTimelineProps {
+  account: UserAccount;
+  // Omitted for users who may not edit the account.
+  onRevert?: (updates: Partial<UserAccount>) => Promise<void>;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ account, onRevert }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  // Reloaded whenever the account changes, so a revert shows up straight away.
+  useEffect(() => {
+    let cancelled = false;
+    fetchAccountAudit(account.id)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(err => {
+        console.error("Loading audit log failed:", err);
+        if (!cancelled) setEntries([]);
+      });
+    return () => { cancelled = true; };
+  }, [account]);
+
+  const handleRevert = async (entry: AuditEntry) => {
+    if (!onRevert || !entries) return;
+    const updates = versionUpdates(account, entries, entry);
+    const skipsCredentials = entries.slice(0, entries.indexOf(entry)).some(e => e.changes.some(c => c.masked));
+    if (Object.keys(updates).length === 0) {
+      alert(skipsCredentials ? 'Only credentials changed since this version; they cannot be reverted.' : 'The account already matches this version.');
+      return;
+    }
+    const fields = Object.keys(updates).map(auditFieldLabel).join(', ');
+    const note = skipsCredentials ? '\n\nCredential changes are not reverted.' : '';
+    if (!window.confirm(`Revert ${fields} to the version of ${formatTime(entry.at)}?${note}`)) return;
+
+    setRevertingId(entry.id);
+    try {
+      await onRevert({
+        ...updates,
+        history: [...(account.history || []), { date: new Date().toISOString(), action: 'Reverted', details: `To the version of ${formatTime(entry.at)}: ${fields}` }]
+      });
+    } catch (err) {
+      console.error("Revert failed:", err);
+      alert('Revert failed.');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><History className="w-3 h-3" /> Change History</h4>
+      <div className="space-y-4 border-l-2 border-slate-800 ml-2 pl-6 py-2">
+        {entries === null && <p className="text-[10px] text-slate-500 italic">Loading…</p>}
+        {entries?.length === 0 && <p className="text-[10px] text-slate-500 italic">No recorded changes yet.</p>}
+        {entries?.map((entry, i) => (
+          <div key={entry.id} className="relative group">
+            <div className="absolute -left-[31px] top-1 w-2 h-2 rounded-full bg-slate-700 ring-4 ring-slate-900 group-hover:bg-indigo-500 transition-colors"></div>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-xs font-bold text-slate-200">{AUDIT_ACTION_LABELS[entry.action]} <span className="font-normal text-slate-400">by {entry.actorName}</span></p>
+                <p className="text-[10px] text-slate-500 font-mono">{formatTime(entry.at)}</p>
+              </div>
+              {onRevert && i > 0 && entry.action !== 'purge' && (
+                <button
+                  onClick={() => handleRevert(entry)}
+                  disabled={revertingId !== null}
+                  title="Revert to this version"
+                  className="opacity-0 group-hover:opacity-100 flex items-center gap-1 text-[10px] font-bold text-indigo-400 hover:text-indigo-300 disabled:opacity-30 transition-opacity"
+                >
+                  <RotateCcw className="w-3 h-3" /> {revertingId === entry.id ? 'Reverting…' : 'Revert'}
+                </button>
+              )}
+            </div>
+            {entry.action !== 'create' && entry.changes.map(c => (
+              <p key={c.field} className="text-[10px] mt-1 font-mono leading-relaxed">
+                <span className="text-slate-500">{auditFieldLabel(c.field)}: </span>
+                {c.masked && <Lock className="inline w-2.5 h-2.5 text-slate-500 mr-1" />}
+                <span className="text-red-400 line-through">{formatAuditValue(c.before)}</span>
+                <span className="text-slate-600"> → </span>
+                <span className="text-emerald-400">{formatAuditValue(c.after)}</span>
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AuditTimeline;
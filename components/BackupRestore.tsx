@@ -0,0 +1,173 @@
+import React, { useState, useMemo } from 'react';
+import { UserAccount } from '../types';
+import {
+  AccountBackup, RestoreMode, RestoreWrites, ConflictResolution,
+  createBackup, downloadFile, exportFileName, parseBackup, planRestore, resolveRestore
+} from '../services/backup';
+import { Download, Upload, AlertCircle, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface BackupRestoreProps {
+  // Reads every account, credentials included; called per backup or restore.
+  loadAccounts: () => Promise<UserAccount[]>;
+  exportedBy: string | null;
+  onRestore: (
+    writes: RestoreWrites['writes'],
+    deletes: string[],
+    onProgress?: (committed: number, total: number) => void
+  ) => Promise<void>;
+}
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ loadAccounts, exportedBy, onRestore }) => {
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  // The database as it was when the backup file was opened, to plan the restore against.
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const plan = useMemo(() => (backup ? planRestore(backup, accounts) : null), [backup, accounts]);
+  const conflicts = plan ? plan.rows.filter(r => r.status === 'conflict') : [];
+  const creates = plan ? plan.rows.filter(r => r.status === 'create').length : 0;
+  // Records that fail the account schema are skipped rather than failing the whole restore.
+  const invalid = plan ? plan.rows.filter(r => r.status === 'invalid') : [];
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    setError(null);
+    try {
+      downloadFile(JSON.stringify(createBackup(await loadAccounts(), exportedBy), null, 2), exportFileName('backup', 'json'), 'application/json');
+    } catch (err) {
+      setError('Could not read the accounts to back up.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setStatus(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      setAccounts(await loadAccounts());
+      setBackup(parsed);
+      setResolutions({});
+    } catch (err: any) {
+      setError(err.message || 'Could not read backup.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    const { writes, deletes } = resolveRestore(plan, mode, resolutions);
+    if (mode === 'replace' && !window.confirm(`Replace the database with this backup? ${deletes.length} accounts not in the backup will be deleted.`)) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(writes, deletes, (committed, total) => setStatus(`Restoring… ${committed}/${total}`));
+      setStatus(`Restored ${writes.length} accounts${deletes.length ? `, removed ${deletes.length}` : ''}${invalid.length ? `, skipped ${invalid.length} invalid` : ''}.`);
+      setBackup(null);
+    } catch (err) {
+      setError('Restore failed. Batches already committed were kept.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500 uppercase font-bold">Backup & Restore</p>
+        <div className="flex gap-2">
+          <button onClick={handleBackup} disabled={isBackingUp} className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-xs font-bold disabled:opacity-50"><Download className="w-3 h-3" /> {isBackingUp ? 'Backing up...' : 'Full Backup'}</button>
+          <label className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-xs font-bold cursor-pointer">
+            <Upload className="w-3 h-3" /> Restore
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" /> <span>{error}</span>
+        </div>
+      )}
+      {status && !backup && (
+        <p className="text-sm text-emerald-400 flex items-center gap-2"><CheckCircle2 className="w-4 h-4" /> {status}</p>
+      )}
+
+      {backup && plan && (
+        <div className="space-y-4">
+          <p className="text-xs text-slate-400">
+            Schema v{backup.schemaVersion} · {backup.accountCount} accounts · exported {new Date(backup.exportedAt).toLocaleString()}{backup.exportedBy ? ` by ${backup.exportedBy}` : ''}
+          </p>
+          <div className="flex bg-slate-950 p-1 rounded-lg border border-slate-700 w-fit">
+            <button onClick={() => setMode('merge')} className={`px-4 py-1.5 rounded-md text-xs font-bold ${mode === 'merge' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>Merge</button>
+            <button onClick={() => setMode('replace')} className={`px-4 py-1.5 rounded-md text-xs font-bold ${mode === 'replace' ? 'bg-red-600 text-white' : 'text-slate-500'}`}>Replace</button>
+          </div>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div className="p-2 bg-slate-950 rounded-lg"><p className="text-lg font-bold text-emerald-400">{creates}</p><p className="text-[10px] uppercase text-slate-500 font-bold">New</p></div>
+            <div className="p-2 bg-slate-950 rounded-lg"><p className="text-lg font-bold text-amber-400">{conflicts.length}</p><p className="text-[10px] uppercase text-slate-500 font-bold">Conflicts</p></div>
+            <div className="p-2 bg-slate-950 rounded-lg"><p className={`text-lg font-bold ${invalid.length ? 'text-red-400' : 'text-slate-400'}`}>{invalid.length}</p><p className="text-[10px] uppercase text-slate-500 font-bold">Invalid (skipped)</p></div>
+            <div className="p-2 bg-slate-950 rounded-lg"><p className={`text-lg font-bold ${mode === 'replace' ? 'text-red-400' : 'text-slate-400'}`}>{plan.orphans.length}</p><p className="text-[10px] uppercase text-slate-500 font-bold">{mode === 'replace' ? 'To Delete' : 'Kept (not in backup)'}</p></div>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="max-h-64 overflow-y-auto divide-y divide-slate-800 border border-slate-800 rounded-lg">
+              {conflicts.map(row => (
+                <div key={row.record.id} className="p-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-white flex items-center gap-2"><AlertTriangle className="w-3 h-3 text-amber-400" /> {row.record.username} <span className="text-xs text-slate-500 font-normal">{row.record.platform}</span></p>
+                    <p className="text-[10px] text-slate-500 font-mono truncate">
+                      {row.existing!.id !== row.record.id ? 'Same handle under a different id. ' : ''}
+                      {row.differingFields.length ? `Differs in: ${row.differingFields.join(', ')}` : ''}
+                    </p>
+                  </div>
+                  {mode === 'merge' ? (
+                    <select
+                      value={resolutions[row.record.id] || 'keep'}
+                      onChange={(e) => setResolutions({ ...resolutions, [row.record.id]: e.target.value as ConflictResolution })}
+                      className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-white"
+                    >
+                      <option value="keep">Keep current</option>
+                      <option value="backup">Use backup</option>
+                    </select>
+                  ) : (
+                    <span className="text-[10px] font-black uppercase text-red-400 whitespace-nowrap">Overwritten</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {invalid.length > 0 && (
+            <div className="max-h-48 overflow-y-auto divide-y divide-slate-800 border border-red-500/20 rounded-lg">
+              {invalid.map(row => (
+                <div key={row.record.id} className="p-3 min-w-0">
+                  <p className="text-sm font-bold text-white flex items-center gap-2"><AlertCircle className="w-3 h-3 text-red-400" /> {row.record.username} <span className="text-xs text-slate-500 font-normal">{row.record.platform}</span></p>
+                  <p className="text-[10px] text-red-400 font-mono truncate">
+                    {Object.entries(row.errors!).map(([field, message]) => `${field} ${message}`).join('; ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setBackup(null)} disabled={isRestoring} className="px-4 py-2 rounded-lg text-xs font-bold text-slate-400 hover:text-white">Cancel</button>
+            <button onClick={handleRestore} disabled={isRestoring} className={`px-4 py-2 rounded-lg text-xs font-bold text-white disabled:opacity-50 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-500' : 'bg-indigo-600 hover:bg-indigo-500'}`}>
+              {isRestoring ? status || 'Restoring…' : mode === 'replace' ? 'Replace Database' : 'Merge Backup'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
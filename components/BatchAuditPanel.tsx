@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AIAuditRecord, UserAccount, UserProfile } from '../types';
+import { analyzeAccount } from '../services/geminiService';
+import { auditRecordFor, AuditItemState, DEFAULT_AUDIT_CONCURRENCY, runAuditBatch } from '../services/aiAudits';
+import { accountsInView, SavedView, subscribeToViews, toAccountFilters } from '../services/savedViews';
+import { AccountRepository } from '../services/accountRepository';
+import { can } from '../services/roles';
+import SentimentBadge from './SentimentBadge';
+import { Sparkles, XCircle, RefreshCw, CheckCircle2, AlertCircle, Clock, Ban } from 'lucide-react';
+
+interface BatchAuditPanelProps {
+  // Saved views are read from the backend when chosen.
+  repository: AccountRepository;
+  selection: UserAccount[];
+  profile: UserProfile;
+  onSaveAudit: (id: string, record: AIAuditRecord) => Promise<void>;
+  onClose: () => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5];
+const SELECTION_SOURCE = 'selection';
+
+const STATUS_LABELS: Record<AuditItemState['status'], string> = {
+  queued: 'Queued',
+  running: 'Auditing',
+  retrying: 'Retrying',
+  done: 'Saved',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const StatusIcon: React.FC<{ state?: AuditItemState }> = ({ state }) => {
+  switch (state?.status) {
+    case 'running': return <RefreshCw className="w-3 h-3 animate-spin text-indigo-400" />;
+    case 'retrying': return <RefreshCw className="w-3 h-3 text-amber-400" />;
+    case 'done': return <CheckCircle2 className="w-3 h-3 text-emerald-400" />;
+    case 'failed': return <AlertCircle className="w-3 h-3 text-red-400" />;
+    case 'cancelled': return <Ban className="w-3 h-3 text-slate-500" />;
+    default: return <Clock className="w-3 h-3 text-slate-600" />;
+  }
+};
+
+// Runs AI audits over the selected rows or a saved view and saves each
+// result on its account as it arrives.
+const BatchAuditPanel: React.FC<BatchAuditPanelProps> = ({ repository, selection, profile, onSaveAudit, onClose }) => {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [source, setSource] = useState(selection.length ? SELECTION_SOURCE : '');
+  const [concurrency, setConcurrency] = useState(DEFAULT_AUDIT_CONCURRENCY);
+  const [items, setItems] = useState<Record<string, AuditItemState>>({});
+  const [viewAccounts, setViewAccounts] = useState<UserAccount[]>([]);
+  const [isLoadingView, setIsLoadingView] = useState(false);
+  // The accounts of the current or last run, whichever source is chosen since.
+  const [runAccounts, setRunAccounts] = useState<UserAccount[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => subscribeToViews(profile, setViews, (error) => console.error("Saved views listener failed:", error)), [profile]);
+
+  // Closing the panel stops the batch.
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const view = views.find(v => v.id === source);
+  useEffect(() => {
+    setViewAccounts([]);
+    if (!view) return;
+    let cancelled = false;
+    setIsLoadingView(true);
+    repository.list(toAccountFilters(view.state))
+      .then(accounts => { if (!cancelled) setViewAccounts(accountsInView(view.state, accounts)); })
+      .catch(err => console.error("Loading view accounts failed:", err))
+      .finally(() => { if (!cancelled) setIsLoadingView(false); });
+    return () => { cancelled = true; };
+  }, [repository, source, view?.state]);
+
+  const sourceAccounts = source === SELECTION_SOURCE ? selection : viewAccounts;
+  // Results are saved on the account, so only editable accounts can be audited.
+  const targets = sourceAccounts.filter(a => can(profile, 'account:edit', a));
+  const skipped = sourceAccounts.length - targets.length;
+
+  const runIds = useMemo(() => runAccounts.map(a => a.id), [runAccounts]);
+  const byId = useMemo(() => new Map(runAccounts.map(a => [a.id, a])), [runAccounts]);
+  const states = runIds.map(id => items[id]);
+  const finished = states.filter(s => s && ['done', 'failed', 'cancelled'].includes(s.status)).length;
+  const failedIds = runIds.filter(id => items[id]?.status === 'failed');
+  const savedCount = states.filter(s => s?.status === 'done').length;
+
+  const start = async (accounts: UserAccount[]) => {
+    if (!accounts.length) return;
+    const abort = new AbortController();
+    controller.current = abort;
+    setRunAccounts(accounts);
+    setItems({});
+    setIsRunning(true);
+    await runAuditBatch(accounts, async account => {
+      const { analysis, model } = await analyzeAccount(account);
+      return auditRecordFor(analysis, model, profile);
+    }, {
+      concurrency,
+      signal: abort.signal,
+      onResult: (account, record) => onSaveAudit(account.id, record),
+      onItem: (id, state) => setItems(prev => ({ ...prev, [id]: state }))
+    });
+    if (controller.current === abort) controller.current = null;
+    setIsRunning(false);
+  };
+
+  const retryFailed = () => start(failedIds.map(id => byId.get(id)).filter((a): a is UserAccount => !!a));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-3xl shadow-4xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-lg font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-indigo-400" /> Batch AI Audit
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-7 h-7" /></button>
+        </div>
+
+        <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-500 uppercase mb-2">Accounts</span>
+              <select value={source} onChange={e => setSource(e.target.value)} disabled={isRunning} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white text-sm outline-none disabled:opacity-50">
+                <option value="" disabled>Choose…</option>
+                {selection.length > 0 && <option value={SELECTION_SOURCE}>Selected rows ({selection.length})</option>}
+                {views.map(v => <option key={v.id} value={v.id}>View: {v.name}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-500 uppercase mb-2">Parallel requests</span>
+              <select value={concurrency} onChange={e => setConcurrency(Number(e.target.value))} disabled={isRunning} className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white text-sm outline-none disabled:opacity-50">
+                {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-sm text-slate-400">
+            {isLoadingView ? 'Loading the view…' : `${targets.length} account${targets.length === 1 ? '' : 's'} to audit.`}
+            {skipped > 0 && ` ${skipped} you cannot edit will be skipped.`}
+            {' '}Failed requests are retried with backoff. Each result is saved on its account.
+          </p>
+
+          {runIds.length > 0 && (
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">
+                  <span>{finished} / {runIds.length}</span>
+                  <span>{savedCount} saved{failedIds.length > 0 && ` · ${failedIds.length} failed`}</span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(finished / runIds.length) * 100}%` }} />
+                </div>
+              </div>
+              <div className="divide-y divide-slate-800 border border-slate-800 rounded-2xl">
+                {runIds.map(id => {
+                  const account = byId.get(id);
+                  const state = items[id];
+                  return (
+                    <div key={id} className="px-4 py-2 flex items-center gap-3 text-xs">
+                      <StatusIcon state={state} />
+                      <span className="font-bold text-white flex-1 truncate">{account?.username ?? id}</span>
+                      {state?.status === 'done' && account?.lastAuditSentiment && <SentimentBadge sentiment={account.lastAuditSentiment} />}
+                      {state?.error && state.status !== 'done' && <span className="text-red-400 truncate max-w-[40%]" title={state.error}>{state.error}</span>}
+                      <span className="text-slate-500 w-24 text-right">
+                        {STATUS_LABELS[state?.status ?? 'queued']}{state && state.attempts > 1 ? ` (${state.attempts})` : ''}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex justify-between gap-4">
+          {isRunning ? (
+            <button onClick={() => controller.current?.abort()} className="px-6 py-3 rounded-xl text-red-400 hover:text-red-300 transition-all font-bold uppercase tracking-widest text-xs">Cancel</button>
+          ) : (
+            <button onClick={onClose} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs">Close</button>
+          )}
+          <div className="flex gap-3">
+            {!isRunning && failedIds.length > 0 && (
+              <button onClick={retryFailed} className="px-6 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 text-white font-black uppercase tracking-widest text-xs transition-all">Retry {failedIds.length} failed</button>
+            )}
+            <button onClick={() => start(targets)} disabled={isRunning || isLoadingView || targets.length === 0} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">
+              {isRunning ? 'Auditing...' : `Audit ${targets.length} account${targets.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchAuditPanel;
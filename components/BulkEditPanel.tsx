@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { UserAccount } from '../types';
+import {
+  BULK_EDIT_FIELDS, BulkEditField, BulkEditMode, BulkEditOperation, bulkEditUpdates, previewBulkEdit, validateBulkEdit
+} from '../services/bulkEdit';
+import { PencilLine, XCircle, ArrowRight, ArrowLeft, AlertCircle } from 'lucide-react';
+
+interface BulkEditPanelProps {
+  accounts: UserAccount[];
+  // Known custodians, offered as suggestions.
+  managers: string[];
+  onCommit: (updatesById: Record<string, Partial<UserAccount>>) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'edit' | 'preview';
+
+const STATUSES: UserAccount['status'][] = ['Active', 'Verified', 'Shadowbanned', 'Suspended'];
+
+const MODE_LABELS: Record<BulkEditMode, string> = { set: 'Set to', clear: 'Clear', append: 'Add' };
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '∅';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '∅';
+  return String(value);
+};
+
+const BulkEditPanel: React.FC<BulkEditPanelProps> = ({ accounts, managers, onCommit, onClose }) => {
+  const [step, setStep] = useState<Step>('edit');
+  // Fields without an entry are left untouched.
+  const [operations, setOperations] = useState<Partial<Record<BulkEditField, BulkEditOperation>>>({});
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeOperations = Object.values(operations) as BulkEditOperation[];
+  const problems = validateBulkEdit(activeOperations);
+  const preview = useMemo(
+    () => (step === 'preview' ? previewBulkEdit(accounts, activeOperations) : []),
+    [step, accounts, operations]
+  );
+
+  const setMode = (field: BulkEditField, mode: BulkEditMode | '') => {
+    setOperations(prev => {
+      const next = { ...prev };
+      if (!mode) delete next[field];
+      else next[field] = { field, mode, value: field === 'isFavorite' ? prev[field]?.value ?? true : prev[field]?.value };
+      return next;
+    });
+  };
+
+  const setValue = (field: BulkEditField, value: BulkEditOperation['value']) => {
+    setOperations(prev => prev[field] ? { ...prev, [field]: { ...prev[field]!, value } } : prev);
+  };
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+    setError(null);
+    try {
+      await onCommit(Object.fromEntries(preview.map(p => [p.account.id, bulkEditUpdates(p)])));
+      onClose();
+    } catch (err) {
+      console.error("Bulk edit failed:", err);
+      setError('Bulk edit failed.');
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const valueInput = (field: BulkEditField, op: BulkEditOperation) => {
+    const inputClass = 'flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500';
+    if (op.mode === 'clear') return <span className="flex-1 text-xs text-slate-500 italic">Value will be removed</span>;
+    if (field === 'status') {
+      return (
+        <select value={String(op.value ?? '')} onChange={(e) => setValue(field, e.target.value)} className={inputClass}>
+          <option value="">Choose a status…</option>
+          {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      );
+    }
+    if (field === 'isFavorite') {
+      return (
+        <select value={op.value ? 'yes' : 'no'} onChange={(e) => setValue(field, e.target.value === 'yes')} className={inputClass}>
+          <option value="yes">Favorite</option>
+          <option value="no">Not favorite</option>
+        </select>
+      );
+    }
+    return (
+      <input
+        value={String(op.value ?? '')}
+        onChange={(e) => setValue(field, e.target.value)}
+        list={field === 'accountManager' ? 'bulk-edit-managers' : undefined}
+        placeholder={field === 'tags' ? 'Comma separated, e.g. priority, q3' : 'New value'}
+        className={inputClass}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-3xl shadow-4xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-lg font-black text-white uppercase tracking-widest flex items-center gap-2"><PencilLine className="w-5 h-5 text-indigo-400" /> Bulk Edit · {accounts.length} accounts</h3>
+          <button onClick={onClose} disabled={isCommitting} className="text-slate-500 hover:text-white transition-colors disabled:opacity-30"><XCircle className="w-7 h-7" /></button>
+        </div>
+
+        <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-6">
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'edit' && (
+            <div className="space-y-3">
+              <datalist id="bulk-edit-managers">{managers.map(m => <option key={m} value={m} />)}</datalist>
+              {BULK_EDIT_FIELDS.map(({ field, label, modes }) => {
+                const op = operations[field];
+                return (
+                  <div key={field} className="flex items-center gap-3">
+                    <span className="w-28 text-xs font-bold uppercase tracking-wider text-slate-400">{label}</span>
+                    <select value={op?.mode ?? ''} onChange={(e) => setMode(field, e.target.value as BulkEditMode | '')} className="w-32 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500">
+                      <option value="">Keep</option>
+                      {modes.map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+                    </select>
+                    {op ? valueInput(field, op) : <span className="flex-1" />}
+                  </div>
+                );
+              })}
+              {problems.map(p => <p key={p} className="text-xs text-amber-400">{p}</p>)}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-400">
+                {preview.length} of {accounts.length} accounts will change
+                {preview.length < accounts.length && <>; {accounts.length - preview.length} already match and are skipped</>}.
+              </p>
+              <div className="bg-slate-950/50 rounded-2xl border border-slate-800 divide-y divide-slate-800 max-h-96 overflow-y-auto">
+                {preview.length === 0 && <p className="p-6 text-center text-sm text-slate-500 italic">Nothing to change.</p>}
+                {preview.map(({ account, changes }) => (
+                  <div key={account.id} className="p-3 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-white">{account.username}</span>
+                      <span className="text-xs text-slate-500">{account.platform}</span>
+                    </div>
+                    {changes.map(c => (
+                      <p key={c.field} className="text-xs pl-4 font-mono">
+                        <span className="text-slate-500">{c.field}: </span>
+                        <span className="text-red-400 line-through">{formatValue(c.before)}</span>
+                        <span className="text-slate-600"> → </span>
+                        <span className="text-emerald-400">{formatValue(c.after)}</span>
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex justify-between gap-4">
+          {step === 'preview' ? (
+            <button onClick={() => setStep('edit')} disabled={isCommitting} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs flex items-center gap-2 disabled:opacity-30"><ArrowLeft className="w-4 h-4" /> Back</button>
+          ) : <span />}
+          {step === 'edit' ? (
+            <button onClick={() => setStep('preview')} disabled={activeOperations.length === 0 || problems.length > 0} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50 flex items-center gap-2">Preview <ArrowRight className="w-4 h-4" /></button>
+          ) : (
+            <button onClick={handleCommit} disabled={isCommitting || preview.length === 0} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">
+              {isCommitting ? 'Committing...' : `Update ${preview.length} Accounts`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkEditPanel;
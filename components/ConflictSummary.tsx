@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { FlushResult, WriteConflict } from '../services/offlineQueue';
+import { GitMerge, XCircle, AlertTriangle } from 'lucide-react';
+
+interface ConflictSummaryProps {
+  result: FlushResult;
+  onKeepTheirs: (conflict: WriteConflict) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const ConflictSummary: React.FC<ConflictSummaryProps> = ({ result, onKeepTheirs, onClose }) => {
+  const [resolved, setResolved] = useState<Set<string>>(new Set());
+  const keyOf = (c: WriteConflict) => `${c.writeId}:${c.accountId}:${c.field}`;
+
+  const handleKeepTheirs = async (conflict: WriteConflict) => {
+    await onKeepTheirs(conflict);
+    setResolved(new Set(resolved).add(keyOf(conflict)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-2xl shadow-4xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <GitMerge className="w-4 h-4 text-amber-400" /> Offline Changes Synced
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-xs text-slate-400">
+            {result.flushed} queued change{result.flushed === 1 ? ' was' : 's were'} saved.
+            {result.conflicts.length > 0 && ' Some fields had also been changed by a teammate while you were offline; your values were kept.'}
+          </p>
+
+          {result.conflicts.length > 0 && (
+            <table className="w-full text-left text-xs">
+              <thead className="text-[10px] text-slate-500 uppercase">
+                <tr>
+                  <th className="py-2">Account / Field</th>
+                  <th className="py-2">Before</th>
+                  <th className="py-2">Teammate</th>
+                  <th className="py-2">Yours (saved)</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {result.conflicts.map(conflict => (
+                  <tr key={keyOf(conflict)} className="align-top">
+                    <td className="py-2 pr-2">
+                      <p className="text-white font-medium">{conflict.username}</p>
+                      <p className="text-slate-500">{String(conflict.field)}</p>
+                    </td>
+                    <td className="py-2 pr-2 text-slate-500 break-all">{formatValue(conflict.base)}</td>
+                    <td className="py-2 pr-2 text-amber-300 break-all">{formatValue(conflict.theirs)}</td>
+                    <td className="py-2 pr-2 text-emerald-300 break-all">{formatValue(conflict.ours)}</td>
+                    <td className="py-2 text-right">
+                      {resolved.has(keyOf(conflict)) ? (
+                        <span className="text-[10px] text-slate-500">Restored</span>
+                      ) : (
+                        <button onClick={() => handleKeepTheirs(conflict)} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 whitespace-nowrap">
+                          Use teammate's
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(result.missing.length > 0 || result.failed.length > 0) && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 space-y-1 text-xs text-red-300">
+              <p className="font-bold flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> Not saved</p>
+              {result.missing.map(m => <p key={`${m.label}:${m.accountId}`}>{m.label}: the account was deleted in the meantime.</p>)}
+              {result.failed.map((f, i) => <p key={i}>{f.label}: {f.message}</p>)}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+          <button onClick={onClose} className="bg-indigo-600 hover:bg-indigo-500 text-white px-6 py-2 rounded-xl text-xs font-bold">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictSummary;
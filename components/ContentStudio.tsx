@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { ContentDraft, ContentDraftKind, UserAccount, UserProfile } from '../types';
+import { generateBios, generatePostIdeas, getPlatformTrends, PostIdea } from '../services/geminiService';
+import { GroundedAnswer } from '../services/llm';
+import {
+  createDraft, currentText, deleteDraft, markDraftAccepted, reviseDraft, subscribeToDrafts, toneFor, TONE_PRESETS
+} from '../services/contentDrafts';
+import { platformFor } from '../services/platforms';
+import { can } from '../services/roles';
+import { PenTool, RefreshCw, Wand2, Save, CheckCircle2, Edit2, Trash2, History } from 'lucide-react';
+
+interface ContentStudioProps {
+  account: UserAccount;
+  profile: UserProfile;
+  // Trends already fetched by the drawer's audit, reused for post ideas.
+  trends: GroundedAnswer | null;
+  // Writes the bio through the normal account update.
+  onAcceptBio: (bio: string) => Promise<void>;
+}
+
+interface Candidate {
+  text: string;
+  title?: string;
+  model: string;
+}
+
+const KIND_LABELS: Record<ContentDraftKind, string> = { bio: 'Bios', post: 'Post ideas' };
+
+const formatWhen = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const ideaText = (idea: PostIdea) =>
+  [idea.caption.trim(), idea.hashtags.map(h => `#${h.replace(/^#/, '').replace(/\s+/g, '')}`).join(' ')].filter(Boolean).join('\n\n');
+
+const charCount = (text: string) => [...text].length;
+
+const BioLength: React.FC<{ text: string; max: number }> = ({ text, max }) => (
+  <span className={`text-[9px] font-mono ${charCount(text) > max ? 'text-red-400' : 'text-slate-500'}`}>{charCount(text)}/{max}</span>
+);
+
+// Generates bios and post ideas for one account and keeps the ones worth
+// keeping as versioned drafts.
+const ContentStudio: React.FC<ContentStudioProps> = ({ account, profile, trends, onAcceptBio }) => {
+  const [kind, setKind] = useState<ContentDraftKind>('bio');
+  const [tone, setTone] = useState(TONE_PRESETS[0].id);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [drafts, setDrafts] = useState<ContentDraft[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  // Which version of each draft is shown; the latest when absent.
+  const [shownVersion, setShownVersion] = useState<Record<string, number>>({});
+  const [fetchedTrends, setFetchedTrends] = useState<GroundedAnswer | null>(null);
+
+  const canEdit = can(profile, 'account:edit', account) && !account.isDeleted;
+  const bioMaxLength = platformFor(account.platform).bioMaxLength;
+  const visibleDrafts = drafts.filter(d => d.kind === kind);
+
+  useEffect(() => subscribeToDrafts(account.id, setDrafts, (err) => console.error("Drafts listener failed:", err)), [account.id]);
+
+  const switchKind = (next: ContentDraftKind) => {
+    setKind(next);
+    setCandidates([]);
+    setError(null);
+  };
+
+  // Post ideas use the latest trends when they can be had; without them the
+  // model falls back to the account's niche.
+  const trendText = async () => {
+    const known = trends ?? fetchedTrends;
+    if (known) return known.text;
+    try {
+      const answer = await getPlatformTrends(account.platform, account.id);
+      setFetchedTrends(answer);
+      return answer.text;
+    } catch (err) {
+      console.error("Trend search failed:", err);
+      return undefined;
+    }
+  };
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      if (kind === 'bio') {
+        const { bios, model } = await generateBios(account, toneFor(tone));
+        setCandidates(bios.map(text => ({ text, model })));
+      } else {
+        const { ideas, model } = await generatePostIdeas(account, toneFor(tone), await trendText());
+        setCandidates(ideas.map(idea => ({ text: ideaText(idea), title: idea.title, model })));
+      }
+    } catch (err: any) {
+      console.error("Content generation failed:", err);
+      setError(err?.message || 'Generation failed.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const saveCandidate = async (candidate: Candidate) => {
+    const draft = await createDraft(profile, { accountId: account.id, kind, tone, title: candidate.title }, candidate.text, candidate.model);
+    setCandidates(prev => prev.filter(c => c !== candidate));
+    return draft;
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      alert(`${failure}.`);
+    }
+  };
+
+  const acceptBio = (text: string, draft?: ContentDraft, model?: string) => run(async () => {
+    await onAcceptBio(text);
+    await markDraftAccepted(draft ?? await createDraft(profile, { accountId: account.id, kind: 'bio', tone }, text, model));
+  }, "Using the bio failed");
+
+  const saveEdit = (draft: ContentDraft) => run(async () => {
+    if (!editing) return;
+    await reviseDraft(draft, editing.text, profile);
+    setEditing(null);
+    setShownVersion(prev => ({ ...prev, [draft.id]: -1 }));
+  }, "Saving the draft failed");
+
+  const removeDraft = (draft: ContentDraft) => {
+    if (!confirm('Delete this draft and all its versions?')) return;
+    run(() => deleteDraft(draft), "Deleting the draft failed");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><PenTool className="w-3 h-3 text-indigo-400" /> Content Studio</h4>
+        <div className="flex bg-slate-950 p-0.5 rounded-lg border border-slate-800">
+          {(Object.keys(KIND_LABELS) as ContentDraftKind[]).map(k => (
+            <button key={k} onClick={() => switchKind(k)} disabled={isGenerating} className={`px-3 py-1 rounded-md text-[10px] font-black uppercase transition-all ${kind === k ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{KIND_LABELS[k]}</button>
+          ))}
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <select value={tone} onChange={e => setTone(e.target.value)} className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-300 outline-none">
+            {TONE_PRESETS.map(t => <option key={t.id} value={t.id}>{t.label} – {t.description}</option>)}
+          </select>
+          <button onClick={generate} disabled={isGenerating} className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-indigo-400 text-[10px] font-black uppercase flex items-center gap-1 disabled:opacity-50">
+            {isGenerating ? <><RefreshCw className="w-3 h-3 animate-spin" /> Writing</> : <><Wand2 className="w-3 h-3" /> Generate</>}
+          </button>
+        </div>
+      )}
+      {kind === 'bio' && <p className="text-[10px] text-slate-500">{platformFor(account.platform).name} bios can be up to {bioMaxLength} characters.</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {candidates.length > 0 && (
+        <div className="space-y-2">
+          {candidates.map((candidate, i) => (
+            <div key={i} className="bg-indigo-600/5 border border-indigo-500/20 p-4 rounded-2xl space-y-2 animate-in fade-in">
+              {candidate.title && <p className="text-xs font-bold text-white">{candidate.title}</p>}
+              <p className="text-xs text-slate-200 whitespace-pre-wrap leading-relaxed">{candidate.text}</p>
+              <div className="flex items-center justify-between">
+                {kind === 'bio' ? <BioLength text={candidate.text} max={bioMaxLength} /> : <span />}
+                <div className="flex gap-3">
+                  <button onClick={() => run(() => saveCandidate(candidate), "Saving the draft failed")} className="text-[10px] font-black uppercase text-slate-400 hover:text-white flex items-center gap-1"><Save className="w-3 h-3" /> Save draft</button>
+                  {kind === 'bio' && (
+                    <button onClick={() => { setCandidates(prev => prev.filter(c => c !== candidate)); acceptBio(candidate.text, undefined, candidate.model); }} className="text-[10px] font-black uppercase text-emerald-400 hover:text-emerald-300 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Use as bio</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {visibleDrafts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[9px] font-bold text-slate-600 uppercase">Saved drafts</p>
+          {visibleDrafts.map(draft => {
+            const latest = draft.versions.length - 1;
+            const index = (shownVersion[draft.id] ?? -1) < 0 ? latest : Math.min(shownVersion[draft.id], latest);
+            const version = draft.versions[index];
+            const isLatest = index === latest;
+            const isEditing = editing?.id === draft.id;
+            const text = isEditing ? editing.text : version?.text ?? '';
+            return (
+              <div key={draft.id} className="bg-slate-950 border border-slate-800 p-4 rounded-2xl space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-bold text-white truncate">{draft.title || toneFor(draft.tone).label}</p>
+                  {draft.acceptedAt && <span className="px-2 py-0.5 rounded text-[9px] font-black uppercase bg-emerald-500/10 text-emerald-400 flex-shrink-0">In use</span>}
+                </div>
+                {isEditing ? (
+                  <textarea value={editing.text} onChange={e => setEditing({ id: draft.id, text: e.target.value })} rows={kind === 'bio' ? 3 : 6} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white outline-none focus:ring-2 focus:ring-indigo-500" />
+                ) : (
+                  <p className="text-xs text-slate-300 whitespace-pre-wrap leading-relaxed">{text}</p>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-[9px] text-slate-500">
+                    {kind === 'bio' && <BioLength text={text} max={bioMaxLength} />}
+                    <History className="w-3 h-3" />
+                    <select
+                      value={index}
+                      onChange={e => setShownVersion(prev => ({ ...prev, [draft.id]: Number(e.target.value) }))}
+                      disabled={isEditing}
+                      className="bg-transparent text-slate-500 outline-none"
+                    >
+                      {draft.versions.map((v, i) => (
+                        <option key={i} value={i}>v{i + 1} · {formatWhen(v.date)} · {v.model ? `${v.model}` : v.author || 'edited'}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-3 flex-shrink-0">
+                      {isEditing ? <>
+                        <button onClick={() => setEditing(null)} className="text-[10px] font-black uppercase text-slate-500 hover:text-white">Cancel</button>
+                        <button onClick={() => saveEdit(draft)} className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Save className="w-3 h-3" /> Save version</button>
+                      </> : <>
+                        <button onClick={() => setEditing({ id: draft.id, text: version?.text ?? currentText(draft) })} title={isLatest ? 'Edit' : 'Edit from this version'} className="text-slate-500 hover:text-white"><Edit2 className="w-3 h-3" /></button>
+                        <button onClick={() => removeDraft(draft)} title="Delete draft" className="text-slate-500 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+                        {kind === 'bio' && (
+                          <button onClick={() => acceptBio(text, draft)} disabled={charCount(text) > bioMaxLength || text === account.bio} className="text-[10px] font-black uppercase text-emerald-400 hover:text-emerald-300 flex items-center gap-1 disabled:opacity-40"><CheckCircle2 className="w-3 h-3" /> Use as bio</button>
+                        )}
+                      </>}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!canEdit && visibleDrafts.length === 0 && <p className="text-xs text-slate-500">No saved drafts.</p>}
+    </div>
+  );
+};
+
+export default ContentStudio;
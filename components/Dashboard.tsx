@@ -1,19 +1,40 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState, useEffect } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   PieChart, Pie, Cell, LineChart, Line, AreaChart, Area
 } from 'recharts';
-import { UserAccount } from '../types';
+import { UserAccount, MetricSnapshot, UserProfile } from '../types';
+import { buildDailySeries, fetchAccountSnapshots, fetchPortfolioSnapshots } from '../services/snapshots';
+import { platformFor } from '../services/platforms';
+import PlatformBadge from './PlatformBadge';
 import { Users, Activity, TrendingUp, AlertTriangle, Star, Globe } from 'lucide-react';
 
 interface DashboardProps {
   data: UserAccount[];
+  profile: UserProfile;
 }
 
-const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4'];
+const TREND_RANGES = [7, 30, 90, 365];
+
+const Dashboard: React.FC<DashboardProps> = ({ data, profile }) => {
+  const [trendRange, setTrendRange] = useState(30);
+  const [trendAccountId, setTrendAccountId] = useState<string>('');
+  const [snapshots, setSnapshots] = useState<MetricSnapshot[]>([]);
+  const [isLoadingTrend, setIsLoadingTrend] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = new Date();
+    since.setDate(since.getDate() - trendRange);
+    setIsLoadingTrend(true);
+    const managerScope = profile.role === 'manager' ? profile.managerName : undefined;
+    (trendAccountId ? fetchAccountSnapshots(trendAccountId, since) : fetchPortfolioSnapshots(since, managerScope))
+      .then(result => { if (!cancelled) setSnapshots(result); })
+      .catch(err => console.error("Error fetching snapshots:", err))
+      .finally(() => { if (!cancelled) setIsLoadingTrend(false); });
+    return () => { cancelled = true; };
+  }, [trendRange, trendAccountId, profile.role, profile.managerName]);
 
-const Dashboard: React.FC<DashboardProps> = ({ data }) => {
-  
   // Memoized stats calculation
   const stats = useMemo(() => {
     const totalUsers = data.length;
@@ -32,7 +53,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
   const platformData = useMemo(() => {
     const counts: Record<string, number> = {};
     data.forEach(d => { counts[d.platform] = (counts[d.platform] || 0) + 1; });
-    return Object.keys(counts).map(key => ({ name: key, value: counts[key] }));
+    return Object.keys(counts).map(key => ({ name: platformFor(key).name, value: counts[key], color: platformFor(key).color }));
   }, [data]);
 
   const countryData = useMemo(() => {
@@ -48,17 +69,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
   }, [data]);
 
   const engagementTrendData = useMemo(() => {
-    // Simulating trend data based on sorting by engagement rate to create a "curve"
-    // In a real app, this would be historical snapshots
-    return data
-        .slice(0, 20) // Take sample
-        .sort((a,b) => a.engagementRate - b.engagementRate)
-        .map((u, i) => ({
-            name: `Day ${i+1}`,
-            engagement: u.engagementRate,
-            followers: u.followers / 10000 // Scaled down for visualization
-        }));
-  }, [data]);
+    const accounts = trendAccountId ? data.filter(a => a.id === trendAccountId) : data;
+    return buildDailySeries(snapshots, accounts, trendRange);
+  }, [snapshots, data, trendAccountId, trendRange]);
 
   const StatCard = ({ title, value, icon: Icon, color }: any) => (
     <div className="bg-slate-800 border border-slate-700 p-6 rounded-xl shadow-sm hover:shadow-md transition-shadow relative overflow-hidden group">
@@ -90,8 +103,31 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Engagement Trend (Area Chart) - Spans 2 cols */}
         <div className="lg:col-span-2 bg-slate-800 border border-slate-700 p-6 rounded-xl shadow-sm">
-          <h3 className="text-lg font-semibold text-white mb-6">Engagement Trends (Last 30 Days)</h3>
-          <div className="h-72">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+            <h3 className="text-lg font-semibold text-white">Engagement Trends (Last {trendRange} Days)</h3>
+            <div className="flex items-center gap-2">
+              <select
+                value={trendAccountId}
+                onChange={(e) => setTrendAccountId(e.target.value)}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none max-w-[160px]"
+              >
+                <option value="">Entire portfolio</option>
+                {data.map(a => <option key={a.id} value={a.id}>{a.username} · {platformFor(a.platform).name}</option>)}
+              </select>
+              <div className="flex bg-slate-900 p-0.5 rounded-lg border border-slate-700">
+                {TREND_RANGES.map(days => (
+                  <button
+                    key={days}
+                    onClick={() => setTrendRange(days)}
+                    className={`px-2 py-1 rounded-md text-xs font-bold ${trendRange === days ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {days === 365 ? '1y' : `${days}d`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className={`h-72 transition-opacity ${isLoadingTrend ? 'opacity-40' : ''}`}>
             <ResponsiveContainer width="100%" height="100%">
               <AreaChart data={engagementTrendData}>
                 <defs>
@@ -101,13 +137,15 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
                   </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
-                <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <XAxis dataKey="date" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis yAxisId="engagement" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} unit="%" />
+                <YAxis yAxisId="followers" orientation="right" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v: number) => v >= 1000000 ? `${(v / 1000000).toFixed(1)}M` : `${(v / 1000).toFixed(0)}K`} />
                 <Tooltip 
                   contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px', color: '#fff' }}
                   itemStyle={{ color: '#fff' }}
                 />
-                <Area type="monotone" dataKey="engagement" stroke="#8b5cf6" strokeWidth={3} fillOpacity={1} fill="url(#colorEng)" />
+                <Area yAxisId="engagement" type="monotone" dataKey="engagement" name="Avg engagement" stroke="#8b5cf6" strokeWidth={3} fillOpacity={1} fill="url(#colorEng)" />
+                <Area yAxisId="followers" type="monotone" dataKey="followers" name="Followers" stroke="#10b981" strokeWidth={2} fill="none" />
               </AreaChart>
             </ResponsiveContainer>
           </div>
@@ -129,7 +167,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
                   dataKey="value"
                 >
                   {platformData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    <Cell key={`cell-${index}`} fill={entry.color} />
                   ))}
                 </Pie>
                 <Tooltip 
@@ -140,9 +178,9 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
             </ResponsiveContainer>
           </div>
           <div className="grid grid-cols-2 gap-2 mt-4">
-              {platformData.map((entry, index) => (
+              {platformData.map(entry => (
                   <div key={entry.name} className="flex items-center gap-2 text-xs text-slate-400">
-                      <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
+                      <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }}></div>
                       <span className="truncate">{entry.name} ({entry.value})</span>
                   </div>
               ))}
@@ -193,7 +231,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data }) => {
                                     <img src={user.avatar} className="w-6 h-6 rounded-full" />
                                     {user.username}
                                 </td>
-                                <td className="px-4 py-3">{user.platform}</td>
+                                <td className="px-4 py-3"><PlatformBadge platform={user.platform} className="text-sm" /></td>
                                 <td className="px-4 py-3 text-right text-emerald-400 font-bold">{user.engagementRate}%</td>
                             </tr>
                         ))}
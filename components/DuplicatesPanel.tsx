@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { UserAccount } from '../types';
+import {
+  defaultMergeChoices, DUPLICATE_REASON_LABELS, DuplicateGroup, findDuplicateGroups, MERGE_FIELDS, MergeChoices, MergeField, mergeUpdates
+} from '../services/duplicates';
+import PlatformBadge from './PlatformBadge';
+import { CopyCheck, XCircle, ArrowLeft, AlertCircle, GitMerge } from 'lucide-react';
+
+interface DuplicatesPanelProps {
+  accounts: UserAccount[];
+  // Omitted for users who may not merge; the report is then read-only.
+  onMerge?: (updatesById: Record<string, Partial<UserAccount>>) => Promise<void>;
+  onClose: () => void;
+}
+
+const CREDENTIAL_FIELDS: MergeField[] = ['password', 'twoFactorSecret'];
+
+const formatValue = (field: MergeField, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '∅';
+  if (CREDENTIAL_FIELDS.includes(field)) return '••••••';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ accounts, onMerge, onClose }) => {
+  const groups = useMemo(() => findDuplicateGroups(accounts), [accounts]);
+  const [group, setGroup] = useState<DuplicateGroup | null>(null);
+  const [keepId, setKeepId] = useState('');
+  const [choices, setChoices] = useState<MergeChoices | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const keep = group?.accounts.find(a => a.id === keepId);
+  const others = group?.accounts.filter(a => a.id !== keepId) ?? [];
+  // Fields every record agrees on need no choice.
+  const differing = useMemo(
+    () => group ? MERGE_FIELDS.filter(({ field }) => new Set(group.accounts.map(a => JSON.stringify(a[field] ?? ''))).size > 1) : [],
+    [group]
+  );
+
+  const selectKeep = (target: DuplicateGroup, id: string) => {
+    const kept = target.accounts.find(a => a.id === id)!;
+    setKeepId(id);
+    setChoices(defaultMergeChoices(kept, target.accounts.filter(a => a.id !== id)));
+  };
+
+  const openGroup = (next: DuplicateGroup) => {
+    setGroup(next);
+    selectKeep(next, next.accounts[0].id);
+    setError(null);
+  };
+
+  const handleMerge = async () => {
+    if (!onMerge || !keep || !choices) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      await onMerge(mergeUpdates(keep, others, choices));
+      setGroup(null);
+    } catch (err) {
+      console.error("Merge failed:", err);
+      setError('Merge failed.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-5xl shadow-4xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-lg font-black text-white uppercase tracking-widest flex items-center gap-2">
+            {group ? <><GitMerge className="w-5 h-5 text-indigo-400" /> Merge {group.accounts.length} Records</> : <><CopyCheck className="w-5 h-5 text-indigo-400" /> Duplicates</>}
+          </h3>
+          <button onClick={onClose} disabled={isMerging} className="text-slate-500 hover:text-white transition-colors disabled:opacity-30"><XCircle className="w-7 h-7" /></button>
+        </div>
+
+        <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-6">
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {!group && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-400">
+                {groups.length === 0
+                  ? 'No likely duplicates among active accounts.'
+                  : `${groups.length} group${groups.length === 1 ? '' : 's'} of likely duplicates, matched on handle, email, phone or a similar real name.`}
+              </p>
+              {groups.map(g => (
+                <div key={g.accounts.map(a => a.id).join()} className="bg-slate-950/50 rounded-2xl border border-slate-800 p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex flex-wrap gap-2">
+                      {g.reasons.map(r => <span key={r} className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-amber-500/10 text-amber-400">{DUPLICATE_REASON_LABELS[r]}</span>)}
+                    </div>
+                    {onMerge && <button onClick={() => openGroup(g)} className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold flex items-center gap-1"><GitMerge className="w-3 h-3" /> Merge</button>}
+                  </div>
+                  <div className="divide-y divide-slate-800">
+                    {g.accounts.map(a => (
+                      <div key={a.id} className="py-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                        <span className="font-bold text-white">{a.username}</span>
+                        <PlatformBadge platform={a.platform} className="text-slate-500" />
+                        {a.realName && <span className="text-slate-400">{a.realName}</span>}
+                        {a.email && <span className="text-slate-400 font-mono">{a.email}</span>}
+                        {a.phone && <span className="text-slate-400 font-mono">{a.phone}</span>}
+                        {a.accountManager && <span className="text-slate-500">Custodian: {a.accountManager}</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {group && choices && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-400">
+                Choose the record to keep and, for each field that differs, which record's value it takes. Tags, notes and history are combined. The other records are archived.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead>
+                    <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                      <th className="p-2 font-black">Field</th>
+                      {group.accounts.map(a => (
+                        <th key={a.id} className="p-2">
+                          <label className="flex items-center gap-2 cursor-pointer normal-case tracking-normal text-sm">
+                            <input type="radio" name="merge-keep" checked={keepId === a.id} onChange={() => selectKeep(group, a.id)} className="accent-indigo-500" />
+                            <span className={keepId === a.id ? 'font-bold text-white' : 'text-slate-400'}>{a.username}</span>
+                          </label>
+                          <span className="block text-[10px] font-normal text-slate-500 mt-1">{keepId === a.id ? 'Kept' : 'Archived'}</span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {differing.length === 0 && (
+                      <tr><td colSpan={group.accounts.length + 1} className="p-4 text-center text-slate-500 italic">All fields match.</td></tr>
+                    )}
+                    {differing.map(({ field, label }) => (
+                      <tr key={field}>
+                        <td className="p-2 font-bold uppercase tracking-wider text-slate-400">{label}</td>
+                        {group.accounts.map(a => (
+                          <td key={a.id} className="p-2">
+                            <label className="flex items-start gap-2 cursor-pointer">
+                              <input type="radio" name={`merge-${field}`} checked={choices[field] === a.id} onChange={() => setChoices({ ...choices, [field]: a.id })} className="mt-0.5 accent-indigo-500" />
+                              <span className={`break-words ${choices[field] === a.id ? 'text-emerald-400' : 'text-slate-400'}`}>{formatValue(field, a[field])}</span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex justify-between gap-4">
+          {group ? (
+            <>
+              <button onClick={() => setGroup(null)} disabled={isMerging} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs flex items-center gap-2 disabled:opacity-30"><ArrowLeft className="w-4 h-4" /> Back</button>
+              <button onClick={handleMerge} disabled={isMerging} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">
+                {isMerging ? 'Merging...' : `Merge into ${keep?.username}`}
+              </button>
+            </>
+          ) : (
+            <>
+              <span />
+              <button onClick={onClose} className="px-8 py-3 rounded-xl bg-slate-700 hover:bg-slate-600 text-white font-black uppercase tracking-widest text-xs transition-all">Close</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { UserAccount } from '../types';
+import {
+  EXPORT_FIELDS, DEFAULT_CSV_FIELDS, ExportField,
+  accountsToCsv, createBackup, downloadFile, exportFileName
+} from '../services/backup';
+import { Download, XCircle, FileJson, FileSpreadsheet } from 'lucide-react';
+
+interface ExportDialogProps {
+  accounts: UserAccount[];
+  scopeLabel: string;
+  exportedBy: string | null;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ accounts, scopeLabel, exportedBy, onClose }) => {
+  const [format, setFormat] = useState<'csv' | 'json'>('csv');
+  const [fields, setFields] = useState<Set<ExportField>>(new Set(DEFAULT_CSV_FIELDS));
+
+  const toggleField = (key: ExportField) => {
+    const next = new Set(fields);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setFields(next);
+  };
+
+  const handleDownload = () => {
+    if (format === 'json') {
+      downloadFile(JSON.stringify(createBackup(accounts, exportedBy), null, 2), exportFileName('backup', 'json'), 'application/json');
+    } else {
+      // Keep the canonical field order regardless of click order.
+      const ordered = EXPORT_FIELDS.map(f => f.key).filter(key => fields.has(key));
+      downloadFile(accountsToCsv(accounts, ordered), exportFileName('export', 'csv'), 'text/csv;charset=utf-8');
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-2xl shadow-4xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-lg font-black text-white uppercase tracking-widest flex items-center gap-2"><Download className="w-5 h-5 text-indigo-400" /> Export</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-7 h-7" /></button>
+        </div>
+
+        <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-6">
+          <p className="text-xs text-slate-400">{accounts.length} accounts — {scopeLabel}.</p>
+          <div className="grid grid-cols-2 gap-4">
+            <button onClick={() => setFormat('csv')} className={`p-4 rounded-2xl border text-left transition-all ${format === 'csv' ? 'border-indigo-500 bg-slate-800' : 'border-slate-800 bg-slate-950/50'}`}>
+              <FileSpreadsheet className="w-5 h-5 text-emerald-400 mb-2" />
+              <p className="text-sm font-bold text-white">CSV</p>
+              <p className="text-[10px] text-slate-500">RFC 4180, chosen columns. Opens in spreadsheets.</p>
+            </button>
+            <button onClick={() => setFormat('json')} className={`p-4 rounded-2xl border text-left transition-all ${format === 'json' ? 'border-indigo-500 bg-slate-800' : 'border-slate-800 bg-slate-950/50'}`}>
+              <FileJson className="w-5 h-5 text-indigo-400 mb-2" />
+              <p className="text-sm font-bold text-white">JSON Backup</p>
+              <p className="text-[10px] text-slate-500">Every field including history. Restorable.</p>
+            </button>
+          </div>
+
+          {format === 'csv' && (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Columns</h4>
+                <div className="flex gap-3 text-[10px] font-black uppercase">
+                  <button onClick={() => setFields(new Set(EXPORT_FIELDS.map(f => f.key)))} className="text-indigo-400 hover:text-indigo-300">All</button>
+                  <button onClick={() => setFields(new Set())} className="text-slate-500 hover:text-white">None</button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {EXPORT_FIELDS.map(f => (
+                  <label key={f.key} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={fields.has(f.key)} onChange={() => toggleField(f.key)} className="rounded border-slate-700 bg-slate-800 text-indigo-600" />
+                    {f.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex justify-end gap-4">
+          <button onClick={onClose} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs">Cancel</button>
+          <button onClick={handleDownload} disabled={format === 'csv' && fields.size === 0} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">Download</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
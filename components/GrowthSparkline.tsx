@@ -0,0 +1,68 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { UserAccount, MetricSnapshot } from '../types';
+import { buildDailySeries, fetchAccountSnapshots } from '../services/snapshots';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+
+interface GrowthSparklineProps {
+  account: UserAccount;
+  days?: number;
+}
+
+const GrowthSparkline: React.FC<GrowthSparklineProps> = ({ account, days = 90 }) => {
+  const [snapshots, setSnapshots] = useState<MetricSnapshot[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    setSnapshots(null);
+    fetchAccountSnapshots(account.id, since)
+      .then(result => { if (!cancelled) setSnapshots(result); })
+      .catch(err => {
+        console.error("Error fetching snapshots:", err);
+        if (!cancelled) setSnapshots([]);
+      });
+    return () => { cancelled = true; };
+  }, [account.id, account.followers, days]);
+
+  const series = useMemo(() => (snapshots ? buildDailySeries(snapshots, [account], days) : []), [snapshots, account, days]);
+
+  if (!snapshots) {
+    return <div className="h-16 bg-slate-950/40 rounded-xl border border-slate-800 animate-pulse" />;
+  }
+  if (snapshots.length === 0) {
+    return <p className="text-[10px] text-slate-600 italic">No metric history recorded yet.</p>;
+  }
+
+  const first = series[0].followers;
+  const last = series[series.length - 1].followers;
+  const delta = first ? ((last - first) / first) * 100 : 0;
+  const isUp = delta >= 0;
+
+  return (
+    <div className="flex items-center gap-4 p-3 bg-slate-950/40 rounded-xl border border-slate-800">
+      <div className="h-12 flex-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={series}>
+            <YAxis hide domain={['dataMin', 'dataMax']} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px', color: '#fff', fontSize: 10 }}
+              labelFormatter={(_, payload) => payload?.[0]?.payload?.date}
+              formatter={(value: number) => [value.toLocaleString(), 'Followers']}
+            />
+            <Line type="monotone" dataKey="followers" stroke={isUp ? '#10b981' : '#f87171'} strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-right">
+        <p className={`text-xs font-black flex items-center gap-1 justify-end ${isUp ? 'text-emerald-400' : 'text-red-400'}`}>
+          {isUp ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />} {isUp ? '+' : ''}{delta.toFixed(1)}%
+        </p>
+        <p className="text-[9px] text-slate-600 font-bold uppercase">{days}d followers</p>
+      </div>
+    </div>
+  );
+};
+
+export default GrowthSparkline;
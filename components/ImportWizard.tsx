@@ -0,0 +1,260 @@
+import React, { useEffect, useState, useMemo } from 'react';
+import { UserAccount } from '../types';
+import {
+  IMPORTABLE_FIELDS, ColumnMapping, ImportSource, ImportRowKind,
+  readImportFile, guessMapping, buildImportPlan, buildNewAccount
+} from '../services/importer';
+import { VaultLockedError } from '../services/vault';
+import { Upload, FileSpreadsheet, XCircle, ArrowRight, ArrowLeft, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface ImportWizardProps {
+  // Looks up stored accounts the rows may match; see findDuplicates.
+  findExisting: (candidates: Partial<UserAccount>[]) => Promise<UserAccount[]>;
+  onCommit: (
+    creates: Omit<UserAccount, 'id'>[],
+    updates: { id: string; updates: Partial<UserAccount> }[],
+    onProgress?: (committed: number, total: number) => void
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const KIND_STYLES: Record<ImportRowKind, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-emerald-500/10 text-emerald-400' },
+  update: { label: 'Update', className: 'bg-indigo-500/10 text-indigo-400' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-700/50 text-slate-400' },
+  invalid: { label: 'Invalid', className: 'bg-red-500/10 text-red-400' },
+  duplicate: { label: 'Duplicate', className: 'bg-amber-500/10 text-amber-400' }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '∅';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ findExisting, onCommit, onClose }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [activeKind, setActiveKind] = useState<ImportRowKind>('new');
+  const [error, setError] = useState<string | null>(null);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [progress, setProgress] = useState<{ committed: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<{ created: number; updated: number; skipped: number } | null>(null);
+  const [existing, setExisting] = useState<UserAccount[]>([]);
+  const [isMatching, setIsMatching] = useState(false);
+
+  // Which rows update stored accounts depends on the mapping, so the lookup
+  // runs again whenever it changes.
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    const candidates = buildImportPlan(source.records, mapping, []).rows.filter(r => r.kind === 'new').map(r => r.values);
+    setIsMatching(true);
+    findExisting(candidates)
+      .then(accounts => { if (!cancelled) setExisting(accounts); })
+      .catch(err => {
+        console.error("Looking up existing accounts failed:", err);
+        if (!cancelled) setError('Could not check the file against existing accounts.');
+      })
+      .finally(() => { if (!cancelled) setIsMatching(false); });
+    return () => { cancelled = true; };
+  }, [source, mapping]);
+
+  const plan = useMemo(
+    () => (source && (step === 'mapping' || step === 'preview') ? buildImportPlan(source.records, mapping, existing) : null),
+    [source, mapping, existing, step]
+  );
+
+  const mappedFields = new Set(Object.values(mapping).filter(Boolean));
+  const missingRequired = IMPORTABLE_FIELDS.filter(f => f.required && !mappedFields.has(f.key));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.records.length === 0) throw new Error('The file does not contain any rows.');
+      setSource(parsed);
+      setMapping(guessMapping(parsed.columns));
+      setStep('mapping');
+    } catch (err: any) {
+      setError(err.message || 'Could not read the file.');
+    }
+  };
+
+  const handleMappingChange = (column: string, field: string) => {
+    const next: ColumnMapping = { ...mapping };
+    // A field can only be fed from one column.
+    Object.keys(next).forEach(c => { if (field && next[c] === field) next[c] = ''; });
+    next[column] = field as ColumnMapping[string];
+    setMapping(next);
+  };
+
+  const handleCommit = async () => {
+    if (!plan || !source) return;
+    const creates = plan.rows.filter(r => r.kind === 'new').map(r => buildNewAccount(r.values, source.fileName));
+    const updates = plan.rows.filter(r => r.kind === 'update').map(r => {
+      const current = existing.find(a => a.id === r.existingId);
+      const changedFields = r.changes!.map(c => c.field);
+      const changes = Object.fromEntries(r.changes!.map(c => [c.field, c.after])) as Partial<UserAccount>;
+      return {
+        id: r.existingId!,
+        updates: {
+          ...changes,
+          history: [...(current?.history || []), { date: new Date().toISOString(), action: 'Updated via Import', details: `${source.fileName}: ${changedFields.join(', ')}` }]
+        }
+      };
+    });
+
+    setIsCommitting(true);
+    setError(null);
+    setProgress({ committed: 0, total: creates.length + updates.length });
+    try {
+      await onCommit(creates, updates, (committed, total) => setProgress({ committed, total }));
+      setSummary({ created: creates.length, updated: updates.length, skipped: plan.counts.invalid + plan.counts.duplicate });
+      setStep('done');
+    } catch (err) {
+      setError(err instanceof VaultLockedError
+        ? 'The file contains credentials. Unlock the vault, then commit again.'
+        : 'Import failed. Batches already committed were kept; re-run the import to finish.');
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const writeCount = plan ? plan.counts.new + plan.counts.update : 0;
+  const visibleRows = plan ? plan.rows.filter(r => r.kind === activeKind) : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-4xl shadow-4xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-lg font-black text-white uppercase tracking-widest flex items-center gap-2"><FileSpreadsheet className="w-5 h-5 text-indigo-400" /> Bulk Import</h3>
+          <button onClick={onClose} disabled={isCommitting} className="text-slate-500 hover:text-white transition-colors disabled:opacity-30"><XCircle className="w-7 h-7" /></button>
+        </div>
+
+        <div className="px-8 pt-6 flex gap-2 text-[10px] font-black uppercase tracking-widest">
+          {(['upload', 'mapping', 'preview', 'done'] as Step[]).map((s, i) => (
+            <span key={s} className={`px-3 py-1 rounded-full ${step === s ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-500'}`}>{i + 1}. {s === 'preview' ? 'Dry Run' : s}</span>
+          ))}
+        </div>
+
+        <div className="overflow-y-auto p-8 flex-1 custom-scrollbar space-y-6">
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-4 border-2 border-dashed border-slate-700 hover:border-indigo-500 rounded-2xl p-16 cursor-pointer transition-colors">
+              <Upload className="w-10 h-10 text-slate-500" />
+              <div className="text-center">
+                <p className="text-white font-bold">Choose a CSV or JSON file</p>
+                <p className="text-xs text-slate-500 mt-1">CSV needs a header row. JSON may be an array of accounts or {'{ "accounts": [...] }'}.</p>
+              </div>
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+
+          {step === 'mapping' && source && (
+            <div className="space-y-4">
+              <p className="text-xs text-slate-400">{source.records.length} rows in <span className="font-mono text-slate-300">{source.fileName}</span>. Map each source column onto an account field; unmapped columns are ignored.</p>
+              <div className="bg-slate-950/50 rounded-2xl border border-slate-800 divide-y divide-slate-800">
+                {source.columns.map(column => (
+                  <div key={column} className="p-3 grid grid-cols-3 gap-4 items-center">
+                    <span className="text-sm font-mono text-slate-300 truncate">{column}</span>
+                    <span className="text-xs text-slate-500 truncate italic">{formatValue(source.records[0]?.[column])}</span>
+                    <select value={mapping[column] || ''} onChange={(e) => handleMappingChange(column, e.target.value)} className="bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500">
+                      <option value="">— Ignore —</option>
+                      {IMPORTABLE_FIELDS.map(f => <option key={f.key} value={f.key}>{f.label}{f.required ? ' *' : ''}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-xs text-amber-400 font-bold">Map a column to {missingRequired.map(f => f.label).join(' and ')} to continue.</p>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && plan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-5 gap-2">
+                {(Object.keys(KIND_STYLES) as ImportRowKind[]).map(kind => (
+                  <button key={kind} onClick={() => setActiveKind(kind)} className={`p-3 rounded-xl border text-left transition-all ${activeKind === kind ? 'border-indigo-500 bg-slate-800' : 'border-slate-800 bg-slate-950/50'}`}>
+                    <p className="text-[10px] font-black uppercase text-slate-500">{KIND_STYLES[kind].label}</p>
+                    <p className="text-xl font-bold text-white">{plan.counts[kind]}</p>
+                  </button>
+                ))}
+              </div>
+              <div className="bg-slate-950/50 rounded-2xl border border-slate-800 divide-y divide-slate-800 max-h-96 overflow-y-auto">
+                {visibleRows.length === 0 && <p className="p-6 text-center text-sm text-slate-500 italic">No {KIND_STYLES[activeKind].label.toLowerCase()} rows.</p>}
+                {visibleRows.map(row => (
+                  <div key={row.index} className="p-3 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] font-mono text-slate-600">#{row.index + 1}</span>
+                      <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${KIND_STYLES[row.kind].className}`}>{KIND_STYLES[row.kind].label}</span>
+                      <span className="text-sm font-bold text-white">{row.values.username || '(no username)'}</span>
+                      <span className="text-xs text-slate-500">{row.values.platform}</span>
+                    </div>
+                    {row.errors.map((e, i) => <p key={i} className="text-xs text-red-400 pl-8">{e}</p>)}
+                    {row.kind === 'update' && row.changes!.map(c => (
+                      <p key={c.field} className="text-xs pl-8 font-mono">
+                        <span className="text-slate-500">{c.field}: </span>
+                        <span className="text-red-400 line-through">{c.field === 'password' || c.field === 'twoFactorSecret' ? '••••' : formatValue(c.before)}</span>
+                        <span className="text-slate-600"> → </span>
+                        <span className="text-emerald-400">{c.field === 'password' || c.field === 'twoFactorSecret' ? '••••' : formatValue(c.after)}</span>
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              {progress && (
+                <div className="space-y-1">
+                  <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.total ? (progress.committed / progress.total) * 100 : 100}%` }}></div>
+                  </div>
+                  <p className="text-[10px] text-slate-500 font-bold uppercase">{progress.committed} / {progress.total} writes committed</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'done' && summary && (
+            <div className="flex flex-col items-center justify-center gap-3 py-12">
+              <CheckCircle2 className="w-12 h-12 text-emerald-400" />
+              <p className="text-white font-bold">Import complete</p>
+              <p className="text-sm text-slate-400">{summary.created} created · {summary.updated} updated · {summary.skipped} skipped</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 bg-slate-800/30 flex justify-between gap-4">
+          {step === 'mapping' || step === 'preview' ? (
+            <button onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')} disabled={isCommitting} className="px-6 py-3 rounded-xl text-slate-400 hover:text-white transition-all font-bold uppercase tracking-widest text-xs flex items-center gap-2 disabled:opacity-30"><ArrowLeft className="w-4 h-4" /> Back</button>
+          ) : <span />}
+          {step === 'mapping' && (
+            <button onClick={() => setStep('preview')} disabled={missingRequired.length > 0} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50 flex items-center gap-2">Dry Run <ArrowRight className="w-4 h-4" /></button>
+          )}
+          {step === 'preview' && (
+            <button onClick={handleCommit} disabled={isCommitting || isMatching || writeCount === 0} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all disabled:opacity-50">
+              {isCommitting ? 'Committing...' : `Commit ${writeCount} Writes`}
+            </button>
+          )}
+          {step === 'done' && (
+            <button onClick={onClose} className="px-8 py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all">Close</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
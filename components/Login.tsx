@@ -5,9 +5,11 @@ import { auth } from '../services/firebase';
 
 interface LoginProps {
   onLoginSuccess: () => void;
+  // Offered when the app runs on a local data backend instead of Firebase.
+  onContinueDemo?: () => void;
 }
 
-const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
+const Login: React.FC<LoginProps> = ({ onLoginSuccess, onContinueDemo }) => {
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -142,6 +144,15 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
           </button>
         </form>
 
+        {onContinueDemo && (
+          <button
+            onClick={onContinueDemo}
+            className="w-full mt-4 border border-slate-600 hover:border-indigo-500 text-slate-300 hover:text-white font-semibold py-3 rounded-xl transition-all"
+          >
+            Continue with demo data
+          </button>
+        )}
+
         <div className="mt-8 text-center">
             <p className="text-slate-400 text-sm">
                 {isLogin ? "Don't have an account?" : "Already have an account?"}
@@ -0,0 +1,19 @@
+import React from 'react';
+import { platformFor } from '../services/platforms';
+
+interface PlatformBadgeProps {
+  platform: string;
+  className?: string;
+}
+
+// The network's icon in its brand color, followed by its display name.
+const PlatformBadge: React.FC<PlatformBadgeProps> = ({ platform, className = 'text-xs font-bold uppercase tracking-wider text-slate-400' }) => {
+  const { icon: Icon, color, name } = platformFor(platform);
+  return (
+    <span className={`inline-flex items-center gap-1.5 ${className}`}>
+      <Icon className="w-3.5 h-3.5 flex-shrink-0" style={{ color }} /> {name}
+    </span>
+  );
+};
+
+export default PlatformBadge;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { UserProfile } from '../types';
+import { AccountRepository } from '../services/accountRepository';
+import {
+  accountsInView, createView, DEFAULT_VIEW_STATE, deleteView, isSameViewState, SavedView, subscribeToViews, TableViewState, toAccountFilters, updateView
+} from '../services/savedViews';
+import { parseSearchQuery } from '../services/searchQuery';
+import { can } from '../services/roles';
+import { Bookmark, Plus, Save, Users, X } from 'lucide-react';
+
+interface SavedViewTabsProps {
+  profile: UserProfile;
+  repository: AccountRepository;
+  // Bumped by the table when the accounts may have changed, to recount.
+  refreshKey: number;
+  current: TableViewState;
+  activeViewId: string | null;
+  // null selects the default "All accounts" view.
+  onSelect: (view: SavedView | null) => void;
+}
+
+// Views with a search query are counted over the accounts within their
+// filters, like the table evaluates them; the rest use the backend's count
+// aggregation.
+const countView = async (state: TableViewState, repository: AccountRepository) => {
+  if (parseSearchQuery(state.search).query) return accountsInView(state, await repository.list(toAccountFilters(state))).length;
+  return repository.count(toAccountFilters(state));
+};
+
+const SavedViewTabs: React.FC<SavedViewTabsProps> = ({ profile, repository, refreshKey, current, activeViewId, onSelect }) => {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [shareNew, setShareNew] = useState(false);
+
+  const activeView = views.find(v => v.id === activeViewId) ?? null;
+  const isModified = !!activeView && !isSameViewState(activeView.state, current);
+  const canManage = (view: SavedView) => view.ownerUid === profile.uid || (view.shared && can(profile, 'views:manageShared'));
+
+  useEffect(() => subscribeToViews(profile, setViews, (error) => console.error("Saved views listener failed:", error)), [profile]);
+
+  // Recount once live updates have settled.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const targets: [string, TableViewState][] = [['', DEFAULT_VIEW_STATE], ...views.map(v => [v.id, v.state] as [string, TableViewState])];
+      Promise.all(targets.map(([id, state]) => countView(state, repository).then(count => [id, count] as const)))
+        .then(entries => { if (!cancelled) setCounts(Object.fromEntries(entries)); })
+        .catch(err => console.error("Counting saved views failed:", err));
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [views, repository, refreshKey]);
+
+  // A view the user can no longer see (deleted or unshared by its owner) falls back to the default.
+  useEffect(() => {
+    if (activeViewId && !activeView) onSelect(null);
+  }, [views, activeViewId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      const view = await createView(profile, { name: newName.trim(), shared: shareNew, state: current });
+      setIsSaving(false);
+      setNewName('');
+      setShareNew(false);
+      onSelect(view);
+    } catch (error) {
+      console.error("Saving view failed:", error);
+      alert("Could not save this view.");
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+    try {
+      await updateView(activeView.id, { state: current });
+    } catch (error) {
+      console.error("Updating view failed:", error);
+      alert("Could not update this view.");
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"${view.shared ? ' for everyone in the workspace' : ''}?`)) return;
+    try {
+      await deleteView(view.id);
+      if (view.id === activeViewId) onSelect(null);
+    } catch (error) {
+      console.error("Deleting view failed:", error);
+      alert("Could not delete this view.");
+    }
+  };
+
+  const tabClass = (isActive: boolean) =>
+    `group flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold whitespace-nowrap transition-colors border ${
+      isActive ? 'bg-indigo-600/20 border-indigo-500/40 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+    }`;
+
+  const badge = (id: string) => (
+    <span className="px-1.5 rounded-full bg-slate-900/80 text-[10px] font-black text-slate-400">{counts[id] ?? '…'}</span>
+  );
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1">
+      <button onClick={() => onSelect(null)} className={tabClass(!activeViewId)}>
+        All accounts {badge('')}
+      </button>
+      {views.map(view => (
+        <div key={view.id} className={tabClass(view.id === activeViewId)}>
+          <button onClick={() => onSelect(view)} className="flex items-center gap-2" title={view.shared ? `Shared by ${view.ownerName || 'a teammate'}` : 'Only visible to you'}>
+            {view.shared ? <Users className="w-3 h-3 text-emerald-400" /> : <Bookmark className="w-3 h-3" />}
+            {view.name} {badge(view.id)}
+          </button>
+          {canManage(view) && (
+            <button onClick={() => handleDelete(view)} title="Delete view" className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {activeView && isModified && canManage(activeView) && (
+        <button onClick={handleUpdate} className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-amber-300 hover:text-amber-200 whitespace-nowrap">
+          <Save className="w-3 h-3" /> Update "{activeView.name}"
+        </button>
+      )}
+
+      {isSaving ? (
+        <form onSubmit={handleCreate} className="flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1">
+          <input
+            autoFocus value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="View name"
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-indigo-500 w-36"
+          />
+          <label className="flex items-center gap-1 text-[10px] text-slate-400 whitespace-nowrap">
+            <input type="checkbox" checked={shareNew} onChange={(e) => setShareNew(e.target.checked)} className="rounded border-slate-700 bg-slate-800 text-indigo-600" />
+            Share with workspace
+          </label>
+          <button type="submit" disabled={!newName.trim()} className="text-xs font-bold text-indigo-400 hover:text-indigo-300 disabled:opacity-40">Save</button>
+          <button type="button" onClick={() => setIsSaving(false)} className="text-slate-500 hover:text-white"><X className="w-3 h-3" /></button>
+        </form>
+      ) : (
+        <button onClick={() => setIsSaving(true)} title="Save the current filters, sort and columns as a view" className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-slate-500 hover:text-white whitespace-nowrap">
+          <Plus className="w-3 h-3" /> Save view
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewTabs;
@@ -0,0 +1,111 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { UserAccount } from '../types';
+import { SearchError, SearchSuggestion, suggestSearch } from '../services/searchQuery';
+import { Search, AlertCircle, XCircle } from 'lucide-react';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Used to suggest known values such as tags and managers.
+  accounts: UserAccount[];
+  errors: SearchError[];
+}
+
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, accounts, errors }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const completion = useMemo(() => suggestSearch(value, caret, accounts), [value, caret, accounts]);
+  const isOpen = isFocused && !dismissed && completion.suggestions.length > 0;
+  const error = errors[0];
+
+  const update = (next: string, nextCaret: number) => {
+    onChange(next);
+    setCaret(nextCaret);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const accept = (suggestion: SearchSuggestion) => {
+    const next = value.slice(0, completion.from) + suggestion.insert + value.slice(completion.to);
+    const nextCaret = completion.from + suggestion.insert.length;
+    update(next, nextCaret);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(h => (h + step + completion.suggestions.length) % completion.suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completion.suggestions[highlighted] ?? completion.suggestions[0]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-2.5 w-5 h-5 text-slate-500" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        placeholder='Search, e.g. platform:TikTok followers:>50k -status:Suspended'
+        spellCheck={false}
+        onChange={(e) => update(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className={`w-full bg-slate-900 border rounded-lg pl-10 pr-9 py-2 text-sm text-white font-mono focus:ring-2 outline-none ${error ? 'border-red-500/60 focus:ring-red-500/40' : 'border-slate-700 focus:ring-indigo-500'}`}
+      />
+      {value && (
+        <button onClick={() => update('', 0)} title="Clear search" className="absolute right-3 top-2.5 text-slate-500 hover:text-white">
+          <XCircle className="w-4 h-4" />
+        </button>
+      )}
+
+      {error && (
+        <div className="mt-1 text-[11px] text-red-400 flex items-start gap-1">
+          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            {error.message}{' '}
+            {error.end > error.start && (
+              <span className="font-mono">
+                <span className="text-slate-500">{value.slice(Math.max(0, error.start - 12), error.start)}</span>
+                <span className="underline decoration-wavy decoration-red-500">{value.slice(error.start, error.end)}</span>
+              </span>
+            )}
+          </span>
+        </div>
+      )}
+
+      {isOpen && (
+        <ul className="absolute left-0 right-0 mt-1 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-30 overflow-hidden">
+          {completion.suggestions.map((suggestion, i) => (
+            <li key={suggestion.insert}>
+              <button
+                // Keeps focus in the input so the caret position survives.
+                onMouseDown={(e) => { e.preventDefault(); accept(suggestion); }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`w-full flex items-center justify-between gap-4 px-3 py-2 text-left text-xs ${i === highlighted ? 'bg-indigo-600/20 text-white' : 'text-slate-300'}`}
+              >
+                <span className="font-mono truncate">{suggestion.label}</span>
+                <span className="text-[10px] text-slate-500 truncate">{suggestion.detail}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface SentimentBadgeProps {
+  sentiment: string;
+}
+
+const SENTIMENT_STYLES: Record<string, string> = {
+  positive: 'bg-emerald-500/10 text-emerald-400',
+  neutral: 'bg-slate-500/10 text-slate-300',
+  negative: 'bg-red-500/10 text-red-400'
+};
+
+// The model is asked for Positive, Neutral or Negative; anything else is shown as given.
+const SentimentBadge: React.FC<SentimentBadgeProps> = ({ sentiment }) => (
+  <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${SENTIMENT_STYLES[sentiment.toLowerCase()] ?? 'bg-amber-500/10 text-amber-400'}`}>
+    {sentiment}
+  </span>
+);
+
+export default SentimentBadge;
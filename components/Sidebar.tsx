@@ -1,6 +1,7 @@
 import React from 'react';
-import { LayoutDashboard, Database, Settings, LogOut, ShieldCheck, X } from 'lucide-react';
-import { AppView } from '../types';
+import { LayoutDashboard, Database, Settings, LogOut, ShieldCheck, X, Building2, Plus, History } from 'lucide-react';
+import { AppView, Workspace } from '../types';
+import { ROLE_LABELS } from '../services/roles';
 
 interface SidebarProps {
   currentView: AppView;
@@ -8,9 +9,20 @@ interface SidebarProps {
   onLogout: () => void;
   isOpen: boolean;
   onClose: () => void;
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  onSwitchWorkspace: (id: string) => void;
+  // Omitted when workspaces cannot be created, e.g. with the local demo backends.
+  onAddWorkspace?: () => void;
+  // Shown to admins only.
+  showAuditLog?: boolean;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView, onLogout, isOpen, onClose }) => {
+const Sidebar: React.FC<SidebarProps> = ({
+  currentView, onChangeView, onLogout, isOpen, onClose, workspaces, activeWorkspaceId, onSwitchWorkspace, onAddWorkspace, showAuditLog
+}) => {
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+
   const navItemClass = (view: AppView) =>
     `flex items-center gap-3 px-4 py-3 rounded-lg cursor-pointer transition-colors ${
       currentView === view
@@ -47,6 +59,30 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView, onLogout,
           </button>
         </div>
 
+        <div className="px-4">
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2 px-1">Workspace</label>
+          <div className="flex gap-2">
+            <div className="relative flex-1 min-w-0">
+              <Building2 className="absolute left-3 top-2.5 w-4 h-4 text-slate-500 pointer-events-none" />
+              <select
+                value={activeWorkspaceId}
+                onChange={(e) => { onSwitchWorkspace(e.target.value); onClose(); }}
+                className="w-full appearance-none bg-slate-800 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white truncate focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
+              >
+                {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+            </div>
+            {onAddWorkspace && <button
+              onClick={() => { onAddWorkspace(); onClose(); }}
+              title="Create or join a workspace"
+              className="p-2 rounded-lg border border-slate-700 bg-slate-800 text-slate-400 hover:text-white transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+            </button>}
+          </div>
+          {activeWorkspace && <p className="text-[10px] text-slate-500 mt-1 px-1">Signed in as {ROLE_LABELS[activeWorkspace.role]}</p>}
+        </div>
+
         <nav className="flex-1 px-4 space-y-2 mt-4">
           <div
             className={navItemClass(AppView.DASHBOARD)}
@@ -62,6 +98,13 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView, onLogout,
             <ShieldCheck className="w-5 h-5" />
             <span className="font-medium">Accounts</span>
           </div>
+          {showAuditLog && <div
+            className={navItemClass(AppView.AUDIT)}
+            onClick={() => { onChangeView(AppView.AUDIT); onClose(); }}
+          >
+            <History className="w-5 h-5" />
+            <span className="font-medium">Audit Log</span>
+          </div>}
           <div
             className={navItemClass(AppView.SETTINGS)}
             onClick={() => { onChangeView(AppView.SETTINGS); onClose(); }}
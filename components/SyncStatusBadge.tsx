@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { SyncStatus } from '../services/accountRepository';
+import { QueuedWrite } from '../services/offlineQueue';
+import { CloudOff, RefreshCw, X } from 'lucide-react';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+  error?: Error | null;
+  onRetry: () => void;
+  queue: QueuedWrite[];
+  isFlushing: boolean;
+  onDiscard: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<SyncStatus, { label: string; dot: string; text: string }> = {
+  connected: { label: 'Live Sync Active', dot: 'bg-emerald-500 animate-pulse', text: 'text-slate-300' },
+  syncing: { label: 'Syncing...', dot: 'bg-amber-400 animate-pulse', text: 'text-amber-300' },
+  offline: { label: 'Offline', dot: 'bg-slate-500', text: 'text-slate-400' },
+  error: { label: 'Sync Error', dot: 'bg-red-500', text: 'text-red-400' }
+};
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, error, onRetry, queue, isFlushing, onDiscard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className="relative hidden md:block">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 rounded-full border border-slate-700 hover:border-slate-500 transition-colors"
+      >
+        <div className={`w-2 h-2 rounded-full ${style.dot}`}></div>
+        <span className={`text-xs font-medium ${style.text}`}>{style.label}</span>
+        {queue.length > 0 && (
+          <span className="px-1.5 rounded-full bg-amber-500/20 text-amber-300 text-[10px] font-black">{queue.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl z-50 overflow-hidden">
+          <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+            <p className="text-xs font-black text-white uppercase tracking-widest">Pending Writes</p>
+            <button onClick={() => setIsOpen(false)} className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+          </div>
+          {status === 'error' && (
+            <div className="p-4 border-b border-slate-800 space-y-2">
+              <p className="text-xs text-red-400">{error?.message || 'The live connection to the database failed.'}</p>
+              <button onClick={onRetry} className="flex items-center gap-1 text-xs font-bold text-indigo-400 hover:text-indigo-300">
+                <RefreshCw className="w-3 h-3" /> Reconnect
+              </button>
+            </div>
+          )}
+          {queue.length === 0 ? (
+            <p className="p-4 text-xs text-slate-500">All changes have been saved.</p>
+          ) : (
+            <>
+              <p className="px-4 pt-3 text-[10px] text-slate-500 flex items-center gap-1">
+                {isFlushing
+                  ? <><RefreshCw className="w-3 h-3 animate-spin" /> Sending queued changes...</>
+                  : <><CloudOff className="w-3 h-3" /> Saved on this device; sent when the connection returns.</>}
+              </p>
+              <ul className="max-h-64 overflow-y-auto p-2">
+                {queue.map(write => (
+                  <li key={write.id} className="flex items-center justify-between gap-2 px-2 py-2 rounded-lg hover:bg-slate-800/60">
+                    <div className="min-w-0">
+                      <p className="text-xs text-white truncate">{write.label}</p>
+                      <p className="text-[10px] text-slate-500">{new Date(write.queuedAt).toLocaleTimeString()}</p>
+                    </div>
+                    <button
+                      onClick={() => onDiscard(write.id)}
+                      disabled={isFlushing}
+                      title="Discard this change"
+                      className="text-slate-500 hover:text-red-400 disabled:opacity-30"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusBadge;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Copy, Check, AlertCircle } from 'lucide-react';
+import { parseTotpSecret, generateTotp, secondsRemaining, TotpConfig } from '../services/totp';
+
+interface TotpCodeProps {
+  secret: string;
+}
+
+const RING_RADIUS = 16;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+const TotpCode: React.FC<TotpCodeProps> = ({ secret }) => {
+  const [code, setCode] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  const parsed = useMemo<{ config: TotpConfig | null; error: string | null }>(() => {
+    try {
+      return { config: parseTotpSecret(secret), error: null };
+    } catch (err: any) {
+      return { config: null, error: err.message || 'Invalid 2FA secret.' };
+    }
+  }, [secret]);
+
+  useEffect(() => {
+    const config = parsed.config;
+    if (!config) return;
+    let cancelled = false;
+    let lastCounter = -1;
+
+    const tick = () => {
+      const now = Date.now();
+      setRemaining(secondsRemaining(config.period, now));
+      const counter = Math.floor(now / 1000 / config.period);
+      if (counter === lastCounter) return;
+      lastCounter = counter;
+      generateTotp(config, now)
+        .then(next => { if (!cancelled) setCode(next); })
+        .catch(err => console.error("TOTP generation failed:", err));
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [parsed]);
+
+  if (parsed.error || !parsed.config) {
+    return (
+      <div className="flex items-center gap-2 text-[10px] text-red-400 font-bold">
+        <AlertCircle className="w-3 h-3" /> {parsed.error}
+      </div>
+    );
+  }
+
+  const { period, digits, algorithm } = parsed.config;
+  const formatted = code ? `${code.slice(0, Math.ceil(digits / 2))} ${code.slice(Math.ceil(digits / 2))}` : '— — —';
+  const isExpiring = remaining <= 5;
+
+  const handleCopy = () => {
+    if (!code) return;
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="relative w-10 h-10 flex-shrink-0">
+        <svg className="w-10 h-10 -rotate-90" viewBox="0 0 40 40">
+          <circle cx="20" cy="20" r={RING_RADIUS} fill="none" stroke="#1e293b" strokeWidth="4" />
+          <circle
+            cx="20" cy="20" r={RING_RADIUS} fill="none" strokeWidth="4" strokeLinecap="round"
+            stroke={isExpiring ? '#f87171' : '#10b981'}
+            strokeDasharray={RING_CIRCUMFERENCE}
+            strokeDashoffset={RING_CIRCUMFERENCE * (1 - remaining / period)}
+            className="transition-all duration-1000 ease-linear"
+          />
+        </svg>
+        <span className={`absolute inset-0 flex items-center justify-center text-[10px] font-black ${isExpiring ? 'text-red-400' : 'text-slate-300'}`}>{remaining}</span>
+      </div>
+      <div className="flex-1">
+        <p className={`text-2xl font-mono font-black tracking-widest ${isExpiring ? 'text-red-400' : 'text-white'}`}>{formatted}</p>
+        <p className="text-[9px] text-slate-600 font-bold uppercase">{algorithm} · {digits} digits · {period}s</p>
+      </div>
+      <button onClick={handleCopy} disabled={!code} className="p-2 text-slate-500 hover:text-white disabled:opacity-30" title="Copy current code">
+        {copied ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+};
+
+export default TotpCode;
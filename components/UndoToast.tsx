@@ -0,0 +1,27 @@
+import React, { useEffect } from 'react';
+import { Trash2, Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  // How long the toast stays up, in milliseconds.
+  duration?: number;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, duration = 8000 }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [duration]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[150] flex items-center gap-4 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl px-4 py-3 animate-in fade-in slide-in-from-bottom-2">
+      <span className="flex items-center gap-2 text-sm text-slate-200"><Trash2 className="w-4 h-4 text-slate-400" /> {message}</span>
+      <button onClick={onUndo} className="flex items-center gap-1 text-sm font-bold text-indigo-400 hover:text-indigo-300"><Undo2 className="w-4 h-4" /> Undo</button>
+      <button onClick={onDismiss} title="Dismiss" className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+    </div>
+  );
+};
+
+export default UndoToast;
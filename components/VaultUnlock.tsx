@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Lock, AlertCircle, XCircle } from 'lucide-react';
+import { isVaultInitialized, initializeVault, unlockVault, VaultPassphraseError } from '../services/vault';
+
+interface VaultUnlockProps {
+  onUnlocked: () => void;
+  onClose: () => void;
+}
+
+const VaultUnlock: React.FC<VaultUnlockProps> = ({ onUnlocked, onClose }) => {
+  const [isSetup, setIsSetup] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    isVaultInitialized()
+      .then(initialized => setIsSetup(!initialized))
+      .catch(err => {
+        console.error("Vault lookup failed:", err);
+        setError("Could not reach the vault configuration.");
+      });
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isSetup) {
+      if (passphrase.length < 12) {
+        setError("The master passphrase must be at least 12 characters.");
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError("Passphrases do not match.");
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      if (isSetup) await initializeVault(passphrase);
+      else await unlockVault(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onUnlocked();
+    } catch (err: any) {
+      console.error(err);
+      setError(err instanceof VaultPassphraseError ? err.message : "Vault operation failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-md shadow-4xl overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <KeyRound className="w-4 h-4 text-emerald-400" /> {isSetup ? 'Create Vault Passphrase' : 'Unlock Credential Vault'}
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-6 h-6" /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-8 space-y-5">
+          <p className="text-xs text-slate-400 leading-relaxed">
+            {isSetup
+              ? 'Passwords and 2FA seeds are encrypted in your browser with a key derived from this passphrase. It is never stored and cannot be recovered — share it only with your team.'
+              : 'Enter the workspace master passphrase to decrypt stored credentials for this session.'}
+          </p>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Master Passphrase</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-3.5 w-4 h-4 text-slate-500" />
+              <input
+                type="password" autoFocus required value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-10 pr-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono"
+              />
+            </div>
+          </div>
+
+          {isSetup && (
+            <div>
+              <label className="block text-[10px] font-black text-slate-500 uppercase mb-2">Confirm Passphrase</label>
+              <input
+                type="password" required value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all font-mono"
+              />
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || isSetup === null}
+            className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-black uppercase tracking-widest text-xs py-3.5 rounded-xl transition-all disabled:opacity-50 flex justify-center items-center"
+          >
+            {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : isSetup ? 'Create & Unlock' : 'Unlock Vault'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VaultUnlock;
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { UserProfile, UserRole, WorkspaceInvite } from '../types';
+import { ROLE_LABELS } from '../services/roles';
+import {
+  createInvite, formatInviteCode, inviteMailto, listInvites, listMembers, removeMember, revokeInvite, updateMemberRole
+} from '../services/workspaces';
+import { Users, Save, UserPlus, Mail, Copy, Check, Trash2 } from 'lucide-react';
+
+interface WorkspaceMembersProps {
+  workspaceName: string;
+  currentUid: string;
+  currentEmail: string | null;
+  canManage: boolean;
+}
+
+const WorkspaceMembers: React.FC<WorkspaceMembersProps> = ({ workspaceName, currentUid, currentEmail, canManage }) => {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Pick<UserProfile, 'role' | 'managerName'>>>({});
+  const [savingUid, setSavingUid] = useState<string | null>(null);
+  const [inviteForm, setInviteForm] = useState<Pick<WorkspaceInvite, 'email' | 'role' | 'managerName'>>({ email: '', role: 'viewer', managerName: '' });
+  const [isInviting, setIsInviting] = useState(false);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    listMembers()
+      .then(setProfiles)
+      .catch(error => console.error("Error loading members:", error));
+    if (canManage) {
+      listInvites()
+        .then(setInvites)
+        .catch(error => console.error("Error loading invites:", error));
+    }
+  }, [canManage]);
+
+  const draftFor = (p: UserProfile) => drafts[p.uid] ?? { role: p.role, managerName: p.managerName };
+
+  const handleSave = async (p: UserProfile) => {
+    const draft = draftFor(p);
+    setSavingUid(p.uid);
+    try {
+      await updateMemberRole(p.uid, draft);
+      setProfiles(profiles.map(x => x.uid === p.uid ? { ...x, ...draft } : x));
+      const { [p.uid]: _, ...rest } = drafts;
+      setDrafts(rest);
+    } catch (error) {
+      console.error("Error updating role:", error);
+      alert("Failed to update role.");
+    } finally {
+      setSavingUid(null);
+    }
+  };
+
+  const handleRemove = async (p: UserProfile) => {
+    if (!window.confirm(`Remove ${p.displayName || p.email} from ${workspaceName}?`)) return;
+    try {
+      await removeMember(p.uid);
+      setProfiles(profiles.filter(x => x.uid !== p.uid));
+    } catch (error) {
+      console.error("Error removing member:", error);
+      alert("Failed to remove member.");
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const invite = await createInvite(inviteForm, currentEmail);
+      setInvites([...invites, invite]);
+      setInviteForm({ email: '', role: 'viewer', managerName: '' });
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      alert("Failed to create invite.");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (code: string) => {
+    try {
+      await revokeInvite(code);
+      setInvites(invites.filter(i => i.code !== code));
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      alert("Failed to revoke invite.");
+    }
+  };
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard.writeText(formatInviteCode(code));
+    setCopiedCode(code);
+    setTimeout(() => setCopiedCode(null), 2000);
+  };
+
+  return (
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 text-left space-y-3">
+      <p className="text-xs text-slate-500 uppercase font-bold flex items-center gap-2"><Users className="w-3 h-3" /> Members of {workspaceName}</p>
+      <div className="divide-y divide-slate-800">
+        {profiles.map(p => {
+          const draft = draftFor(p);
+          const isDirty = !!drafts[p.uid];
+          const isSelf = p.uid === currentUid;
+          return (
+            <div key={p.uid} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-white font-medium truncate">{p.displayName || p.email}{isSelf && <span className="text-slate-500"> (you)</span>}</p>
+                  {p.displayName && <p className="text-[10px] text-slate-500 truncate">{p.email}</p>}
+                </div>
+                {!canManage && <span className="px-2 py-0.5 rounded bg-slate-800 text-slate-300 text-[10px] font-bold uppercase">{ROLE_LABELS[p.role]}</span>}
+              </div>
+              {canManage && (
+                <div className="flex gap-2">
+                  <select
+                    value={draft.role}
+                    disabled={isSelf}
+                    onChange={(e) => setDrafts({ ...drafts, [p.uid]: { ...draft, role: e.target.value as UserRole } })}
+                    className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50"
+                  >
+                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <input
+                    type="text" value={draft.managerName} placeholder="Manager name"
+                    title="Must match the Account Manager field on the accounts they handle"
+                    onChange={(e) => setDrafts({ ...drafts, [p.uid]: { ...draft, managerName: e.target.value } })}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-white"
+                  />
+                  <button onClick={() => handleSave(p)} disabled={!isDirty || savingUid === p.uid} className="p-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-30"><Save className="w-3 h-3" /></button>
+                  {!isSelf && <button onClick={() => handleRemove(p)} title="Remove from workspace" className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-800"><Trash2 className="w-3 h-3" /></button>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && (
+        <div className="pt-3 border-t border-slate-800 space-y-3">
+          <p className="text-xs text-slate-500 uppercase font-bold flex items-center gap-2"><UserPlus className="w-3 h-3" /> Invite Member</p>
+          <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+            <input
+              type="email" required value={inviteForm.email} placeholder="name@agency.com"
+              onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+              className="flex-1 min-w-[10rem] bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-white"
+            />
+            <select
+              value={inviteForm.role}
+              onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as UserRole })}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-white"
+            >
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            {inviteForm.role === 'manager' && (
+              <input
+                type="text" required value={inviteForm.managerName} placeholder="Manager name"
+                onChange={(e) => setInviteForm({ ...inviteForm, managerName: e.target.value })}
+                className="w-32 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-white"
+              />
+            )}
+            <button type="submit" disabled={isInviting} className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold disabled:opacity-50">
+              {isInviting ? 'Creating...' : 'Create Invite'}
+            </button>
+          </form>
+          {invites.map(invite => (
+            <div key={invite.code} className="flex items-center gap-2 p-2 rounded-lg bg-slate-950/60 border border-slate-800">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-white truncate">{invite.email} <span className="text-slate-500">· {ROLE_LABELS[invite.role]}</span></p>
+                <p className="text-[10px] font-mono text-indigo-300">{formatInviteCode(invite.code)}</p>
+              </div>
+              <button onClick={() => handleCopy(invite.code)} title="Copy invite code" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800">
+                {copiedCode === invite.code ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+              </button>
+              <a href={inviteMailto(invite)} title="Email invite" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"><Mail className="w-3 h-3" /></a>
+              <button onClick={() => handleRevoke(invite.code)} title="Revoke invite" className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-800"><Trash2 className="w-3 h-3" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceMembers;
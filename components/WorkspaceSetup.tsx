@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Building2, Ticket, AlertCircle, XCircle } from 'lucide-react';
+import { AuthState, Workspace } from '../types';
+import { acceptInvite, createWorkspace, InviteError } from '../services/workspaces';
+
+interface WorkspaceSetupProps {
+  user: NonNullable<AuthState['user']>;
+  onReady: (workspace: Workspace) => void;
+  // Omitted during onboarding, when there is no workspace to go back to.
+  onClose?: () => void;
+  onLogout?: () => void;
+}
+
+const WorkspaceSetup: React.FC<WorkspaceSetupProps> = ({ user, onReady, onClose, onLogout }) => {
+  const [mode, setMode] = useState<'create' | 'join'>('create');
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const workspace = mode === 'create'
+        ? await createWorkspace(user, name.trim())
+        : await acceptInvite(user, code);
+      onReady(workspace);
+    } catch (err: any) {
+      console.error(err);
+      setError(err instanceof InviteError ? err.message : mode === 'create' ? "Could not create the workspace." : "Could not join the workspace.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const tabClass = (tab: 'create' | 'join') =>
+    `flex-1 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors ${mode === tab ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl w-full max-w-md shadow-4xl overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <Building2 className="w-4 h-4 text-indigo-400" /> {onClose ? 'Add Workspace' : 'Set Up Your Workspace'}
+          </h3>
+          {onClose && <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><XCircle className="w-6 h-6" /></button>}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-8 space-y-5">
+          <div className="flex gap-2 p-1 bg-slate-950 rounded-xl border border-slate-800">
+            <button type="button" onClick={() => setMode('create')} className={tabClass('create')}>Create</button>
+            <button type="button" onClick={() => setMode('join')} className={tabClass('join')}>Join with Code</button>
+          </div>
+
+          <p className="text-xs text-slate-400 leading-relaxed">
+            {mode === 'create'
+              ? 'A workspace keeps its accounts, credential vault and members separate from every other team.'
+              : `Enter the invite code an admin sent to ${user.email}.`}
+          </p>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-3 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {mode === 'create' ? (
+            <div>
+              <label className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Workspace Name</label>
+              <input
+                type="text" required autoFocus value={name} placeholder="Acme Social Agency"
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2 flex items-center gap-1"><Ticket className="w-3 h-3" /> Invite Code</label>
+              <input
+                type="text" required autoFocus value={code} placeholder="XXXXX-XXXXX"
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white font-mono uppercase tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
+              />
+            </div>
+          )}
+
+          <button
+            type="submit" disabled={loading}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white py-3 rounded-xl font-bold transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Please wait...' : mode === 'create' ? 'Create Workspace' : 'Join Workspace'}
+          </button>
+
+          {onLogout && (
+            <button type="button" onClick={onLogout} className="w-full text-xs text-slate-500 hover:text-white transition-colors">
+              Sign out of {user.email}
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSetup;
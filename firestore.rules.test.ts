@@ -0,0 +1,227 @@
+import { readFileSync } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, writeBatch } from "firebase/firestore";
+
+// Runs firestore.rules against the emulator; start it with `npm run test:rules`.
+const WORKSPACE = "team";
+
+let env: RulesTestEnvironment;
+
+const member = (uid: string, role: string, managerName = "") => ({
+  uid, role, managerName, email: `${uid}@example.com`, displayName: uid, workspaceName: "Team", joinedAt: "2024-01-01T00:00:00.000Z"
+});
+
+const account = (accountManager: string) => ({ username: "brand", platform: "Instagram", accountManager, status: "Active" });
+
+const db = (uid: string, emailVerified = true) =>
+  env.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: emailVerified }).firestore();
+const path = (...segments: string[]) => ["workspaces", WORKSPACE, ...segments].join("/");
+
+let writeCount = 0;
+
+const auditEntry = (uid: string, accountId: string) => ({
+  accountId, username: "brand", workspaceId: WORKSPACE, accountManager: "", actorUid: uid, actorName: uid,
+  at: serverTimestamp(), action: "update", changes: [], fields: []
+});
+
+// Writes an account the way the app does: with a new audit entry, named
+// as the account's lastWriteId, in the same batch.
+const audited = (uid: string, accountId: string, data: Record<string, unknown>, type: "set" | "update" = "update") => {
+  const firestore = db(uid);
+  const writeId = `write-${++writeCount}`;
+  const batch = writeBatch(firestore);
+  const ref = doc(firestore, path("accounts", accountId));
+  if (type === "set") batch.set(ref, { ...data, lastWriteId: writeId });
+  else batch.update(ref, { ...data, lastWriteId: writeId });
+  batch.set(doc(firestore, path("accounts", accountId, "audit", writeId)), auditEntry(uid, accountId));
+  return batch.commit();
+};
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-socialbase",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") }
+  });
+});
+
+afterAll(() => env.cleanup());
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async context => {
+    const admin = context.firestore();
+    await setDoc(doc(admin, path()), { name: "Team", ownerUid: "alice" });
+    await setDoc(doc(admin, path("members", "alice")), member("alice", "admin"));
+    await setDoc(doc(admin, path("members", "mona")), member("mona", "manager", "Mona"));
+    await setDoc(doc(admin, path("members", "vic")), member("vic", "viewer"));
+    await setDoc(doc(admin, path("accounts", "mine")), account("Mona"));
+    await setDoc(doc(admin, path("accounts", "other")), account("Oscar"));
+    await setDoc(doc(admin, path("accounts", "mine", "secrets", "credentials")), { password: "x", accountManager: "Mona", workspaceId: WORKSPACE });
+    await setDoc(doc(admin, path("accounts", "other", "secrets", "credentials")), { password: "x", accountManager: "Oscar", workspaceId: WORKSPACE });
+  });
+});
+
+describe("accounts", () => {
+  it("admins read and write every account", async () => {
+    await assertSucceeds(getDoc(doc(db("alice"), path("accounts", "other"))));
+    await assertSucceeds(audited("alice", "other", { status: "Paused" }));
+    await assertSucceeds(deleteDoc(doc(db("alice"), path("accounts", "other"))));
+  });
+
+  it("managers only reach their own accounts", async () => {
+    await assertSucceeds(getDoc(doc(db("mona"), path("accounts", "mine"))));
+    await assertSucceeds(audited("mona", "mine", { status: "Paused" }));
+    await assertFails(getDoc(doc(db("mona"), path("accounts", "other"))));
+    await assertFails(audited("mona", "other", { status: "Paused" }));
+  });
+
+  it("managers cannot hand an account to another manager or delete it", async () => {
+    await assertFails(audited("mona", "mine", { accountManager: "Oscar" }));
+    await assertFails(deleteDoc(doc(db("mona"), path("accounts", "mine"))));
+  });
+
+  it("viewers read but never write", async () => {
+    await assertSucceeds(getDoc(doc(db("vic"), path("accounts", "other"))));
+    await assertFails(audited("vic", "other", { status: "Paused" }));
+    await assertFails(audited("vic", "new", account(""), "set"));
+  });
+
+  it("non-members see nothing", async () => {
+    await assertFails(getDoc(doc(db("eve"), path("accounts", "other"))));
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), path("accounts", "other"))));
+  });
+
+  it("credentials cannot be stored on the account doc", async () => {
+    await assertFails(audited("alice", "new", { ...account(""), password: "x" }, "set"));
+  });
+});
+
+describe("audit log", () => {
+  it("account writes need a new entry in the same batch", async () => {
+    await assertSucceeds(audited("alice", "new", account(""), "set"));
+    await assertFails(setDoc(doc(db("alice"), path("accounts", "unaudited")), account("")));
+    await assertFails(updateDoc(doc(db("alice"), path("accounts", "other")), { status: "Paused" }));
+  });
+
+  it("an earlier entry cannot be reused", async () => {
+    await assertSucceeds(audited("alice", "other", { status: "Paused" }));
+    await assertFails(updateDoc(doc(db("alice"), path("accounts", "other")), { status: "Active", lastWriteId: `write-${writeCount}` }));
+  });
+
+  it("maintenance updates need no entry", async () => {
+    await assertSucceeds(updateDoc(doc(db("alice"), path("accounts", "other")), { usernameLower: "brand", isArchived: false, isFavorite: false }));
+    await assertFails(updateDoc(doc(db("alice"), path("accounts", "other")), { isArchived: true }));
+  });
+
+  it("the activity history can only be appended to without an entry", async () => {
+    const item = (action: string) => ({ date: "2025-01-01T00:00:00.000Z", action });
+    await assertSucceeds(updateDoc(doc(db("alice"), path("accounts", "other")), { history: [item("Created")] }));
+    await assertSucceeds(updateDoc(doc(db("alice"), path("accounts", "other")), { history: [item("Created"), item("Updated")] }));
+    await assertFails(updateDoc(doc(db("alice"), path("accounts", "other")), { history: [item("Rewritten")] }));
+    await assertFails(updateDoc(doc(db("alice"), path("accounts", "other")), { history: [item("Rewritten"), item("Updated"), item("Added")] }));
+    await assertFails(updateDoc(doc(db("alice"), path("accounts", "other")), { aiAudits: [] }));
+  });
+
+  it("entries carry the server's time and belong to a write", async () => {
+    const firestore = db("alice");
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, path("accounts", "other")), { status: "Paused", lastWriteId: "backdated" });
+    batch.set(doc(firestore, path("accounts", "other", "audit", "backdated")), { ...auditEntry("alice", "other"), at: "2020-01-01T00:00:00.000Z" });
+    await assertFails(batch.commit());
+    await assertFails(setDoc(doc(firestore, path("accounts", "other", "audit", "stray")), auditEntry("alice", "other")));
+  });
+
+  it("entries name their author and are never changed", async () => {
+    await assertFails(setDoc(doc(db("mona"), path("accounts", "mine", "audit", "forged")), auditEntry("alice", "mine")));
+    await assertSucceeds(audited("alice", "other", { status: "Paused" }));
+    await assertFails(deleteDoc(doc(db("alice"), path("accounts", "other", "audit", `write-${writeCount}`))));
+  });
+});
+
+describe("credential secrets", () => {
+  it("admins and the managing manager read them", async () => {
+    await assertSucceeds(getDoc(doc(db("alice"), path("accounts", "other", "secrets", "credentials"))));
+    await assertSucceeds(getDoc(doc(db("mona"), path("accounts", "mine", "secrets", "credentials"))));
+  });
+
+  it("other managers and viewers do not", async () => {
+    await assertFails(getDoc(doc(db("mona"), path("accounts", "other", "secrets", "credentials"))));
+    await assertFails(getDoc(doc(db("vic"), path("accounts", "other", "secrets", "credentials"))));
+  });
+
+  it("cannot be claimed by a manager who does not manage the account", async () => {
+    await env.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), path("accounts", "legacy")), account("Oscar")));
+    await assertFails(setDoc(doc(db("mona"), path("accounts", "legacy", "secrets", "credentials")), { password: "y", accountManager: "Mona", workspaceId: WORKSPACE }));
+    await assertFails(setDoc(doc(db("mona"), path("accounts", "other", "secrets", "credentials")), { password: "y", accountManager: "Mona", workspaceId: WORKSPACE }));
+  });
+
+  it("only live in the credentials doc and copy the account's manager", async () => {
+    await assertSucceeds(setDoc(doc(db("mona"), path("accounts", "mine", "secrets", "credentials")), { password: "y", accountManager: "Mona", workspaceId: WORKSPACE }));
+    await assertFails(setDoc(doc(db("mona"), path("accounts", "mine", "secrets", "spare")), { password: "y", accountManager: "Mona", workspaceId: WORKSPACE }));
+    await assertFails(setDoc(doc(db("alice"), path("accounts", "other", "secrets", "credentials")), { password: "y", accountManager: "Mona", workspaceId: WORKSPACE }));
+  });
+
+  it("must name the workspace they belong to", async () => {
+    await assertFails(setDoc(doc(db("alice"), path("accounts", "other", "secrets", "credentials")), { password: "y", accountManager: "Oscar", workspaceId: "elsewhere" }));
+  });
+});
+
+describe("AI usage", () => {
+  const usage = (uid: string) => ({
+    date: "2025-01-01T00:00:00.000Z", uid, userName: uid, accountId: null, feature: "bio", provider: "gemini",
+    model: "gemini-2.5-flash", inputTokens: 100, outputTokens: 50, cost: 0.01
+  });
+
+  it("members record their own usage", async () => {
+    await assertSucceeds(setDoc(doc(db("vic"), path("aiUsage", "entry")), usage("vic")));
+    await assertFails(setDoc(doc(db("vic"), path("aiUsage", "entry")), usage("alice")));
+  });
+
+  it("entries need non-negative amounts and a date", async () => {
+    await assertFails(setDoc(doc(db("vic"), path("aiUsage", "entry")), { ...usage("vic"), cost: -5 }));
+    await assertFails(setDoc(doc(db("vic"), path("aiUsage", "entry")), { ...usage("vic"), cost: "0" }));
+    await assertFails(setDoc(doc(db("vic"), path("aiUsage", "entry")), { ...usage("vic"), inputTokens: -1 }));
+    await assertFails(setDoc(doc(db("vic"), path("aiUsage", "entry")), { ...usage("vic"), outputTokens: null }));
+    await assertFails(setDoc(doc(db("vic"), path("aiUsage", "entry")), { ...usage("vic"), date: 20250101 }));
+  });
+});
+
+describe("members", () => {
+  it("cannot join with a role or manager name of their choosing", async () => {
+    await assertFails(setDoc(doc(db("eve"), path("members", "eve")), member("eve", "manager", "Oscar")));
+    await assertFails(setDoc(doc(db("eve"), path("members", "eve")), member("eve", "admin")));
+  });
+
+  it("join with the manager name on their invite", async () => {
+    await env.withSecurityRulesDisabled(context =>
+      setDoc(doc(context.firestore(), "invites/CODE"), { workspaceId: WORKSPACE, email: "eve@example.com", role: "manager", managerName: "Eve" }));
+    await assertFails(setDoc(doc(db("eve"), path("members", "eve")), { ...member("eve", "manager", "Oscar"), inviteCode: "CODE" }));
+    await assertSucceeds(setDoc(doc(db("eve"), path("members", "eve")), { ...member("eve", "manager", "Eve"), inviteCode: "CODE" }));
+  });
+
+  it("need a verified address to read or redeem an invite", async () => {
+    await env.withSecurityRulesDisabled(context =>
+      setDoc(doc(context.firestore(), "invites/CODE"), { workspaceId: WORKSPACE, email: "eve@example.com", role: "viewer", managerName: "" }));
+    await assertFails(getDoc(doc(db("eve", false), "invites/CODE")));
+    await assertFails(setDoc(doc(db("eve", false), path("members", "eve")), { ...member("eve", "viewer"), inviteCode: "CODE" }));
+  });
+
+  it("only admins change roles", async () => {
+    await assertFails(updateDoc(doc(db("mona"), path("members", "mona")), { managerName: "Oscar" }));
+    await assertSucceeds(updateDoc(doc(db("alice"), path("members", "mona")), { managerName: "Oscar" }));
+  });
+});
+
+describe("workspaces", () => {
+  it("anyone can create one they own", async () => {
+    await assertSucceeds(setDoc(doc(db("eve"), "workspaces/eves"), { name: "Eve's", ownerUid: "eve" }));
+    await assertFails(setDoc(doc(db("eve"), "workspaces/alices"), { name: "Alice's", ownerUid: "alice" }));
+  });
+
+  it("reserve the legacy migration target for legacy admins", async () => {
+    await assertFails(setDoc(doc(db("eve"), "workspaces/default"), { name: "Default Workspace", ownerUid: "eve" }));
+    await env.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), "users/alice"), { role: "admin" }));
+    await assertSucceeds(setDoc(doc(db("alice"), "workspaces/default"), { name: "Default Workspace", ownerUid: "alice" }));
+  });
+});
@@ -0,0 +1,109 @@
+import { AccountSort, SORTABLE_FIELDS, SortableField } from "./accountRepository";
+import { UserAccount } from "../types";
+
+// Every UserAccount field the account table can show as a column. The
+// avatar is part of the identity cell, history and AI audits have their own
+// panels, and credentials are never listed.
+export type AccountField = Exclude<keyof UserAccount, "id" | "avatar" | "password" | "twoFactorSecret" | "history" | "aiAudits">;
+
+export type ColumnType = "text" | "number" | "date" | "list" | "boolean";
+
+export interface AccountColumn {
+  field: AccountField;
+  label: string;
+  type: ColumnType;
+  // Initial width in pixels.
+  width: number;
+}
+
+export interface ColumnSort {
+  field: AccountField;
+  direction: "asc" | "desc";
+}
+
+// username is the pinned identity column; the rest can be shown, hidden and reordered.
+export const IDENTITY_FIELD: AccountField = "username";
+export const MIN_COLUMN_WIDTH = 80;
+
+export const ACCOUNT_COLUMNS: AccountColumn[] = [
+  { field: "username", label: "Identity", type: "text", width: 260 },
+  { field: "accountManager", label: "Custodian", type: "text", width: 170 },
+  { field: "platform", label: "Network", type: "text", width: 120 },
+  { field: "followers", label: "Reach", type: "number", width: 130 },
+  { field: "engagementRate", label: "Engagement", type: "number", width: 120 },
+  { field: "status", label: "Status", type: "text", width: 120 },
+  { field: "category", label: "Category", type: "text", width: 130 },
+  { field: "country", label: "Country", type: "text", width: 120 },
+  { field: "targetAudience", label: "Audience", type: "text", width: 140 },
+  { field: "tags", label: "Tags", type: "list", width: 180 },
+  { field: "lastActive", label: "Last active", type: "date", width: 130 },
+  { field: "lastPostedDate", label: "Last posted", type: "date", width: 130 },
+  { field: "creationDate", label: "Created", type: "date", width: 130 },
+  { field: "realName", label: "Real name", type: "text", width: 150 },
+  { field: "email", label: "Email", type: "text", width: 200 },
+  { field: "phone", label: "Phone", type: "text", width: 140 },
+  { field: "website", label: "Website", type: "text", width: 180 },
+  { field: "bio", label: "Bio", type: "text", width: 240 },
+  { field: "notes", label: "Notes", type: "text", width: 240 },
+  { field: "isFavorite", label: "Favorite", type: "boolean", width: 100 },
+  { field: "isArchived", label: "Archived", type: "boolean", width: 100 },
+  { field: "lastAuditedAt", label: "Last audited", type: "date", width: 130 },
+  { field: "lastAuditSentiment", label: "Sentiment", type: "text", width: 120 }
+];
+
+const COLUMNS_BY_FIELD = new Map(ACCOUNT_COLUMNS.map(c => [c.field, c]));
+
+export const columnFor = (field: AccountField): AccountColumn => COLUMNS_BY_FIELD.get(field)!;
+
+export const isAccountField = (value: unknown): value is AccountField =>
+  typeof value === "string" && COLUMNS_BY_FIELD.has(value as AccountField);
+
+// Reduces a value to something comparable for its column type; null means
+// missing, which sorts last in either direction.
+const sortValue = (account: UserAccount, column: AccountColumn): string | number | null => {
+  const value = account[column.field];
+  if (value === undefined || value === null || value === "") return null;
+  switch (column.type) {
+    case "number":
+      return typeof value === "number" && !isNaN(value) ? value : null;
+    case "date": {
+      const time = Date.parse(String(value));
+      return isNaN(time) ? null : time;
+    }
+    case "boolean":
+      return value ? 1 : 0;
+    case "list":
+      return Array.isArray(value) && value.length ? value.join(", ").toLowerCase() : null;
+    default:
+      return String(value);
+  }
+};
+
+const textCollator = new Intl.Collator(undefined, { sensitivity: "base", numeric: true });
+
+const compareValues = (a: string | number, b: string | number) =>
+  typeof a === "string" && typeof b === "string" ? textCollator.compare(a, b) : a < b ? -1 : a > b ? 1 : 0;
+
+// Sorts by each key in turn, then by id so that the order is stable.
+export const compareByColumns = (sorts: ColumnSort[]) => (a: UserAccount, b: UserAccount) => {
+  for (const sort of sorts) {
+    const column = columnFor(sort.field);
+    if (!column) continue;
+    const aVal = sortValue(a, column);
+    const bVal = sortValue(b, column);
+    if (aVal === null || bVal === null) {
+      if (aVal !== bVal) return aVal === null ? 1 : -1;
+      continue;
+    }
+    const order = compareValues(aVal, bVal);
+    if (order !== 0) return sort.direction === "asc" ? order : -order;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+// The backend can only page by a single indexed field; anything else is
+// sorted in the browser over the live data.
+export const toServerSort = (sorts: ColumnSort[]): AccountSort | null => {
+  if (sorts.length !== 1 || !SORTABLE_FIELDS.includes(sorts[0].field as SortableField)) return null;
+  return { field: sorts[0].field as SortableField, direction: sorts[0].direction };
+};
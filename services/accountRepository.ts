@@ -0,0 +1,201 @@
+import { DATA_BACKEND, DataBackend } from "./config";
+import { createFirestoreAccountRepository } from "./firestoreAccountRepository";
+import { createLocalAccountRepository } from "./localAccountRepository";
+import { getActiveWorkspaceId } from "./workspaces";
+import { hasPlaintextCredentials } from "./vault";
+import { UserAccount, UserProfile } from "../types";
+
+export type SyncStatus = "connected" | "syncing" | "offline" | "error";
+
+export interface BackendStatus {
+  // Local writes the backend has applied but not yet confirmed.
+  hasPendingWrites: boolean;
+  // True while reads may be stale: before the backend has answered, or
+  // after it has become unreachable.
+  fromCache: boolean;
+}
+
+// One write in a batch. Credentials in the payload may be plaintext or
+// ciphertext; plaintext is encrypted on the way out. Every write is checked
+// against the account schema (see accountSchema.ts) and recorded in the
+// audit log (see auditLog.ts), except maintenance updates marked `system`.
+// `current` gives the audit entry its "before" values, and fields an update
+// or set leaves as they were there are not validated again.
+export type AccountWrite =
+  | { type: "create"; id: string; data: Omit<UserAccount, "id"> }
+  | { type: "update"; id: string; updates: Partial<UserAccount>; current?: UserAccount; system?: boolean }
+  | { type: "set"; id: string; data: Omit<UserAccount, "id">; current?: UserAccount }
+  | { type: "delete"; id: string; current?: UserAccount };
+
+// Filters the backend applies to reads. Managers only ever see their own
+// accounts, whatever accountManager is set to here.
+export interface AccountFilters {
+  archived: boolean;
+  // The Trash view: deleted accounts, archived or not.
+  deleted?: boolean;
+  // With deleted: only accounts deleted before this ISO time.
+  deletedBefore?: string;
+  platform?: UserAccount["platform"];
+  status?: UserAccount["status"];
+  accountManager?: string;
+  favoritesOnly?: boolean;
+}
+
+export type SortableField = "username" | "accountManager" | "followers" | "engagementRate";
+
+export const SORTABLE_FIELDS: SortableField[] = ["username", "accountManager", "followers", "engagementRate"];
+
+export interface AccountSort {
+  field: SortableField;
+  direction: "asc" | "desc";
+}
+
+// Opaque position in a result set: page() returns one with each page, and
+// passing it back as `after` continues from there.
+export type PageCursor = unknown;
+
+export interface AccountPageRequest {
+  filters: AccountFilters;
+  sort: AccountSort;
+  pageSize: number;
+  after?: PageCursor;
+}
+
+export interface AccountPage {
+  accounts: UserAccount[];
+  // null on the last page.
+  next: PageCursor | null;
+}
+
+// Whether reads include credentials. They cost an extra read per account,
+// so only exports, backups and edits ask for them.
+export interface ReadOptions {
+  credentials?: boolean;
+}
+
+// Everything the UI needs to read and write accounts in the active
+// workspace. Implementations scope reads to what the given profile may see.
+// Nothing listens to the whole workspace: reads fetch the accounts at hand,
+// and listeners cover one page or one filtered view.
+export interface AccountRepository {
+  readonly backend: DataBackend;
+  // Allocates an id for create, so a new account can be shown before it is written.
+  newId(): string;
+  // Every account matching the filters, or every account without them.
+  list(filters?: AccountFilters, options?: ReadOptions): Promise<UserAccount[]>;
+  // fresh bypasses any local cache, e.g. to compare against the latest server
+  // state. Credentials are always included.
+  get(id: string, options?: { fresh?: boolean }): Promise<UserAccount | null>;
+  // The given accounts, leaving out ids that do not exist.
+  getMany(ids: string[], options?: ReadOptions): Promise<UserAccount[]>;
+  // Accounts sharing a handle, email or phone with any of the candidates
+  // (see duplicateKeys); findDuplicatesOf picks the matches from them.
+  findDuplicates(candidates: Partial<UserAccount>[]): Promise<UserAccount[]>;
+  // Custodian names to offer in filters and bulk edits.
+  listManagers(): Promise<string[]>;
+  create(account: Omit<UserAccount, "id">, id?: string): Promise<string>;
+  update(id: string, updates: Partial<UserAccount>, current?: UserAccount): Promise<void>;
+  delete(id: string): Promise<void>;
+  // One page of the filtered, sorted accounts, fetched from the backend.
+  // Pages leave out credentials; get() returns them for a single account.
+  page(request: AccountPageRequest): Promise<AccountPage>;
+  // Like page(), but onChange fires again whenever the page's contents change.
+  subscribePage(request: AccountPageRequest, onChange: (page: AccountPage) => void, onError: (error: Error) => void): () => void;
+  // Every account matching the filters, without credentials, kept up to
+  // date. For views the backend cannot page: search queries and multi-key sorts.
+  subscribeMatching(filters: AccountFilters, onChange: (accounts: UserAccount[]) => void, onError: (error: Error) => void): () => void;
+  // Number of accounts matching the filters, counted by the backend.
+  count(filters: AccountFilters): Promise<number>;
+  batch(writes: AccountWrite[], onProgress?: (committed: number, total: number) => void): Promise<void>;
+  // Whether the backend is reachable, starting with the current state.
+  subscribeStatus(onChange: (status: BackendStatus) => void, onError: (error: Error) => void): () => void;
+  // Writes the query fields onto accounts stored without them (see
+  // queryFieldBackfillWrites) and returns how many it fixed. Admin only.
+  backfillQueryFields(): Promise<number>;
+  // The writes that secure plaintext or inline credentials (see
+  // credentialMigrationWrites). Reads every account, so it runs on request.
+  findCredentialMigrations(): Promise<AccountWrite[]>;
+}
+
+export const createAccountRepository = (profile: UserProfile): AccountRepository =>
+  DATA_BACKEND === "firestore"
+    ? createFirestoreAccountRepository(profile)
+    : createLocalAccountRepository(profile, getActiveWorkspaceId(), DATA_BACKEND === "local");
+
+// In-memory equivalent of the backend filters, for local backends and for
+// keeping loaded accounts in step with local edits.
+export const matchesAccountFilters = (account: UserAccount, filters: AccountFilters) =>
+  !!account.isDeleted === !!filters.deleted
+  && (!!filters.deleted || !!account.isArchived === filters.archived)
+  && (!filters.deletedBefore || (!!account.deletedAt && account.deletedAt < filters.deletedBefore))
+  && (!filters.platform || account.platform === filters.platform)
+  && (!filters.status || account.status === filters.status)
+  && (filters.accountManager === undefined || (account.accountManager || "") === filters.accountManager)
+  && (!filters.favoritesOnly || !!account.isFavorite);
+
+// The backend only reports fromCache, which is also true while first
+// connecting; it means offline once the backend has been reached before.
+export const deriveSyncStatus = (state: {
+  hasError: boolean;
+  isOnline: boolean;
+  fromCache: boolean;
+  hasConnected: boolean;
+  pendingWrites: number;
+}): SyncStatus => {
+  if (state.hasError) return "error";
+  if (!state.isOnline || (state.fromCache && state.hasConnected)) return "offline";
+  if (state.fromCache || state.pendingWrites > 0) return "syncing";
+  return "connected";
+};
+
+// A local change shown before the backend confirms it. Changes must be
+// idempotent: loaded accounts may already reflect the write when they apply.
+export type PendingChange = (accounts: UserAccount[]) => UserAccount[];
+
+export const pendingCreate = (account: UserAccount): PendingChange => accounts =>
+  accounts.some(a => a.id === account.id) ? accounts : [...accounts, account];
+
+export const pendingUpdate = (ids: string[], updates: Partial<UserAccount>): PendingChange => accounts =>
+  accounts.map(a => ids.includes(a.id) ? { ...a, ...updates } : a);
+
+export const pendingDelete = (ids: string[]): PendingChange => accounts =>
+  accounts.filter(a => !ids.includes(a.id));
+
+export const needsCredentialMigration = (account: UserAccount, inlineIds: Set<string>) =>
+  inlineIds.has(account.id) || hasPlaintextCredentials(account);
+
+// Queries cannot match documents that lack a field, so every field the
+// table filters or sorts on is written explicitly.
+export const withQueryFieldDefaults = <T extends Partial<UserAccount>>(data: T): T => ({
+  ...data,
+  isArchived: data.isArchived ?? false,
+  isFavorite: data.isFavorite ?? false,
+  isDeleted: data.isDeleted ?? false,
+  accountManager: data.accountManager ?? ""
+});
+
+// Fills in those fields on accounts written before they were required. Any
+// update also rewrites the query keys (see accountWrites.ts), so accounts
+// whose keys are stale get one even if nothing else is missing.
+export const queryFieldBackfillWrites = (accounts: UserAccount[], staleKeyIds = new Set<string>()): AccountWrite[] =>
+  accounts.flatMap(account => {
+    const defaults = withQueryFieldDefaults({} as Partial<UserAccount>);
+    const updates = Object.fromEntries(
+      Object.entries(defaults).filter(([field]) => account[field as keyof UserAccount] === undefined)
+    ) as Partial<UserAccount>;
+    return Object.keys(updates).length || staleKeyIds.has(account.id)
+      ? [{ type: "update" as const, id: account.id, updates, current: account, system: true }]
+      : [];
+  });
+
+// Rewrites credentials that are plaintext or stored inline; the update path
+// encrypts them and moves them to wherever the backend keeps secrets.
+// Requires an unlocked vault.
+export const credentialMigrationWrites = (accounts: UserAccount[], inlineIds: Set<string>): AccountWrite[] =>
+  accounts.filter(a => needsCredentialMigration(a, inlineIds)).map(account => ({
+    type: "update",
+    id: account.id,
+    updates: { password: account.password || "", twoFactorSecret: account.twoFactorSecret || "" },
+    current: account,
+    system: true
+  }));
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  AccountValidationError, normalizeAccountInput, normalizeStoredAccount, validateAccount, validatedWrite
+} from "./accountSchema";
+import { UserAccount } from "../types";
+
+const valid: Omit<UserAccount, "id"> = {
+  username: "@brand", platform: "Instagram", followers: 1000, engagementRate: 2.5, status: "Active",
+  lastActive: "2024-01-31T10:00:00.000Z", bio: "", category: "", avatar: ""
+};
+
+describe("normalizeAccountInput", () => {
+  it("tidies handles, phones, URLs, dates and aliases", () => {
+    expect(normalizeAccountInput({
+      username: " @@brand ", platform: "ig" as UserAccount["platform"], status: "banned" as UserAccount["status"],
+      email: " Jane@Example.COM ", phone: "+1 (555) 010-2030", website: "example.com", creationDate: "2024/01/05", country: " US "
+    })).toEqual({
+      username: "@brand", platform: "Instagram", status: "Suspended",
+      email: "jane@example.com", phone: "+15550102030", website: "https://example.com",
+      creationDate: new Date(Date.parse("2024/01/05")).toISOString(), country: "US"
+    });
+  });
+
+  it("leaves credentials and free text alone", () => {
+    expect(normalizeAccountInput({ password: " secret ", bio: "  spaced  " })).toEqual({ password: " secret ", bio: "  spaced  " });
+  });
+});
+
+describe("validateAccount", () => {
+  it("accepts a complete account", () => {
+    expect(validateAccount(valid)).toEqual({});
+  });
+
+  it("requires the core fields unless partial", () => {
+    expect(validateAccount({ username: "@brand" })).toMatchObject({ platform: "is required", followers: "is required" });
+    expect(validateAccount({ username: "@brand" }, { partial: true })).toEqual({});
+  });
+
+  it("checks formats", () => {
+    const errors = validateAccount({ ...valid, phone: "555-0102", email: "nope", website: "ftp://x", followers: -1, engagementRate: 120, creationDate: "soon" });
+    expect(Object.keys(errors).sort()).toEqual(["creationDate", "email", "engagementRate", "followers", "phone", "website"]);
+  });
+
+  it("applies the platform's handle rules", () => {
+    expect(validateAccount({ ...valid, username: "@this.handle.is.much.too.long.for.instagram" }).username).toMatch(/not a valid Instagram handle/);
+    expect(validateAccount({ ...valid, platform: "LinkedIn", username: "@ab" }).username).toMatch(/LinkedIn/);
+  });
+
+  it("skips legacy values an update does not change", () => {
+    const previous = { ...valid, phone: "555-0102" };
+    expect(validateAccount({ phone: "555-0102", bio: "new" }, { partial: true, previous })).toEqual({});
+    expect(validateAccount({ phone: "555-0103" }, { partial: true, previous })).toHaveProperty("phone");
+  });
+});
+
+describe("validatedWrite", () => {
+  it("normalizes valid writes", () => {
+    const write = validatedWrite({ type: "create", id: "x", data: { ...valid, username: "brand", email: "A@B.CO" } });
+    expect(write).toMatchObject({ data: { username: "@brand", email: "a@b.co" } });
+  });
+
+  it("throws with every invalid field", () => {
+    expect(() => validatedWrite({ type: "create", id: "x", data: { ...valid, followers: 1.5 } })).toThrow(AccountValidationError);
+  });
+
+  it("does not re-check legacy values a set keeps from the record it replaces", () => {
+    const current = { ...valid, id: "x", phone: "555-0102" };
+    expect(() => validatedWrite({ type: "set", id: "x", data: { ...valid, phone: "555-0102", followers: 5 }, current })).not.toThrow();
+    expect(() => validatedWrite({ type: "set", id: "x", data: { ...valid, phone: "555-0102" } })).toThrow(AccountValidationError);
+  });
+
+  it("passes system updates and deletes through", () => {
+    const system = { type: "update" as const, id: "x", updates: { followers: -5 }, system: true };
+    expect(validatedWrite(system)).toBe(system);
+    expect(validatedWrite({ type: "delete", id: "x" })).toEqual({ type: "delete", id: "x" });
+  });
+});
+
+describe("normalizeStoredAccount", () => {
+  it("repairs types without rejecting anything", () => {
+    const account = normalizeStoredAccount("x", { username: "brand", platform: "Myspace", followers: "12.6", tags: "a, b", isFavorite: "yes", phone: 5550102 });
+    expect(account).toMatchObject({ id: "x", username: "@brand", platform: "Myspace", status: "Active", followers: 13, tags: ["a", "b"], isFavorite: false, phone: "5550102" });
+  });
+});
@@ -0,0 +1,250 @@
+import { ActivityLog, AIAuditRecord, UserAccount } from "../types";
+import { isEncrypted } from "./vault";
+import { validateTotpSecret } from "./totp";
+import { findPlatform, PLATFORMS, validateHandle } from "./platforms";
+import type { AccountWrite } from "./accountRepository";
+
+// The single definition of a valid account. The edit form shows its errors
+// inline, the importer rejects rows that fail it, and both repositories
+// normalize and check every write against it. Reads go through
+// normalizeStoredAccount instead, which repairs types without rejecting
+// anything, so old or hand-edited documents still load.
+export const STATUSES: UserAccount["status"][] = ["Active", "Shadowbanned", "Suspended", "Verified"];
+
+export const MAX_ENGAGEMENT_RATE = 100;
+
+const STATUS_ALIASES: Record<string, UserAccount["status"]> = {
+  active: "Active", live: "Active", ok: "Active",
+  shadowbanned: "Shadowbanned", shadowban: "Shadowbanned", "shadow banned": "Shadowbanned",
+  suspended: "Suspended", banned: "Suspended", locked: "Suspended",
+  verified: "Verified", "blue check": "Verified"
+};
+
+export type AccountErrors = Partial<Record<keyof UserAccount, string>>;
+
+export class AccountValidationError extends Error {
+  constructor(public readonly errors: AccountErrors, username?: string) {
+    super(`${username ? `${username}: ` : ""}${Object.entries(errors).map(([field, message]) => `${field} ${message}`).join("; ")}`);
+    this.name = "AccountValidationError";
+  }
+}
+
+export const normalizePlatform = (value: unknown): UserAccount["platform"] | null =>
+  typeof value === "string" ? findPlatform(value) : null;
+
+export const normalizeStatus = (value: unknown): UserAccount["status"] | null => {
+  if (typeof value !== "string") return null;
+  const key = value.trim().toLowerCase();
+  return STATUSES.find(s => s.toLowerCase() === key) ?? STATUS_ALIASES[key] ?? null;
+};
+
+export const splitTags = (value: unknown): string[] => {
+  const parts = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(/[,;|]/) : [];
+  return Array.from(new Set(parts.map(t => t.trim().replace(/^#/, "")).filter(Boolean)));
+};
+
+export const normalizeUsername = (value: string) => {
+  const trimmed = value.trim().replace(/^@+/, "");
+  return trimmed ? `@${trimmed}` : "";
+};
+
+// "+1 (555) 010-2030" and "001 555 010 2030" → "+15550102030". Numbers
+// without a country code are left alone, and fail validation.
+export const normalizePhone = (value: string) => {
+  const trimmed = value.trim();
+  const compact = trimmed.replace(/[\s().-]/g, "").replace(/^00/, "+");
+  return /^\+\d+$/.test(compact) ? compact : trimmed;
+};
+
+// "example.com" → "https://example.com"
+export const normalizeUrl = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed && !/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? `https://${trimmed}` : trimmed;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Other parseable dates ("Jan 5 2024", "2024/01/05") become ISO timestamps.
+export const normalizeDate = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed || ISO_DATE.test(trimmed)) return trimmed;
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? trimmed : new Date(parsed).toISOString();
+};
+
+type FieldRule = (value: any) => string | null;
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === "";
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isoDate: FieldRule = v => (typeof v === "string" && ISO_DATE.test(v) && !Number.isNaN(Date.parse(v)) ? null : "must be an ISO date, e.g. 2024-01-31");
+const text: FieldRule = v => (typeof v === "string" ? null : "must be text");
+const flag: FieldRule = v => (typeof v === "boolean" ? null : "must be true or false");
+const isAuditRecord = (v: any): v is AIAuditRecord =>
+  !!v && typeof v.date === "string" && typeof v.model === "string" && typeof v.sentiment === "string"
+  && Array.isArray(v.strengths) && Array.isArray(v.weaknesses) && typeof v.growthStrategy === "string";
+const url: FieldRule = v => (typeof v === "string" && isHttpUrl(v) ? null : "must be an http(s) URL");
+
+const RULES: Record<Exclude<keyof UserAccount, "id">, FieldRule> = {
+  username: v => (typeof v === "string" && /^@[^\s@]+$/.test(v) ? null : "must be a handle like @name"),
+  platform: v => (PLATFORMS.includes(v) ? null : `must be one of ${PLATFORMS.join(", ")}`),
+  status: v => (STATUSES.includes(v) ? null : `must be one of ${STATUSES.join(", ")}`),
+  followers: v => (Number.isInteger(v) && v >= 0 ? null : "must be a whole number of at least 0"),
+  engagementRate: v => (typeof v === "number" && v >= 0 && v <= MAX_ENGAGEMENT_RATE ? null : `must be between 0 and ${MAX_ENGAGEMENT_RATE}`),
+  email: v => (typeof v === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v) ? null : "must be an email address"),
+  phone: v => (typeof v === "string" && /^\+[1-9]\d{6,14}$/.test(v) ? null : "must be in international format, e.g. +15550102030"),
+  website: url,
+  avatar: url,
+  lastActive: isoDate,
+  lastPostedDate: isoDate,
+  creationDate: isoDate,
+  deletedAt: isoDate,
+  // Encrypted secrets cannot be checked; they were valid when they were stored.
+  twoFactorSecret: v => (typeof v !== "string" ? "must be text" : isEncrypted(v) ? null : validateTotpSecret(v) && "must be a Base32 secret or otpauth:// URI"),
+  password: text,
+  bio: text,
+  category: text,
+  realName: text,
+  country: text,
+  accountManager: text,
+  targetAudience: text,
+  notes: text,
+  deletedBy: text,
+  tags: v => (Array.isArray(v) && v.every(t => typeof t === "string") ? null : "must be a list of tags"),
+  isFavorite: flag,
+  isArchived: flag,
+  isDeleted: flag,
+  history: v => (Array.isArray(v) && v.every(e => e && typeof e.date === "string" && typeof e.action === "string") ? null : "must be a list of activity entries"),
+  aiAudits: v => (Array.isArray(v) && v.every(isAuditRecord) ? null : "must be a list of AI audits"),
+  lastAuditedAt: isoDate,
+  lastAuditSentiment: text
+};
+
+// Fields every stored account has. Others may be blank.
+const REQUIRED: (keyof UserAccount)[] = ["username", "platform", "status", "followers", "engagementRate"];
+
+// Tidies user or file input into its stored form without judging it.
+export const normalizeAccountInput = <T extends Partial<UserAccount>>(values: T): T => {
+  const next: Partial<UserAccount> = { ...values };
+  (Object.keys(next) as (keyof UserAccount)[]).forEach(field => {
+    const value = next[field];
+    if (typeof value !== "string" || field === "password" || field === "twoFactorSecret") return;
+    switch (field) {
+      case "username": next.username = normalizeUsername(value); break;
+      case "platform": next.platform = normalizePlatform(value) ?? value as UserAccount["platform"]; break;
+      case "status": next.status = normalizeStatus(value) ?? value as UserAccount["status"]; break;
+      case "email": next.email = value.trim().toLowerCase(); break;
+      case "phone": next.phone = normalizePhone(value); break;
+      case "website":
+      case "avatar": next[field] = normalizeUrl(value); break;
+      case "lastActive":
+      case "lastPostedDate":
+      case "creationDate":
+      case "deletedAt": next[field] = normalizeDate(value); break;
+      case "notes":
+      case "bio": break;
+      default: (next as Record<string, unknown>)[field] = value.trim();
+    }
+  });
+  return next as T;
+};
+
+// Checks the fields present in `values`; a complete account (partial: false)
+// must also have the required ones. Fields still equal to their value in
+// `previous` are skipped, so a record saved before these rules existed can
+// be edited without fixing fields the edit does not touch.
+export const validateAccount = (
+  values: Partial<UserAccount>,
+  options: { partial?: boolean; previous?: Partial<UserAccount> } = {}
+): AccountErrors => {
+  const errors: AccountErrors = {};
+  (Object.keys(values) as (keyof UserAccount)[]).forEach(field => {
+    if (field === "id" || !(field in RULES)) return;
+    const value = values[field];
+    if (isBlank(value)) return;
+    if (options.previous && JSON.stringify(options.previous[field]) === JSON.stringify(value)) return;
+    const message = RULES[field as Exclude<keyof UserAccount, "id">](value);
+    if (message) errors[field] = message;
+  });
+  // Handle rules depend on the platform, which an update may leave as it was.
+  const platform = values.platform ?? options.previous?.platform;
+  const handleChanged = values.username !== undefined && (values.username !== options.previous?.username || values.platform !== undefined);
+  if (!errors.username && !errors.platform && platform && values.username && handleChanged) {
+    const message = validateHandle(platform, values.username);
+    if (message) errors.username = message;
+  }
+  if (!options.partial) {
+    REQUIRED.forEach(field => {
+      if (isBlank(values[field]) && !errors[field]) errors[field] = "is required";
+    });
+  }
+  return errors;
+};
+
+// Normalizes a repository write and throws AccountValidationError if it is
+// invalid. Maintenance writes marked `system` pass through untouched.
+export const validatedWrite = (write: AccountWrite): AccountWrite => {
+  if (write.type === "delete" || (write.type === "update" && write.system)) return write;
+  if (write.type === "update") {
+    const updates = normalizeAccountInput(write.updates);
+    const errors = validateAccount(updates, { partial: true, previous: write.current });
+    if (Object.keys(errors).length) throw new AccountValidationError(errors, updates.username ?? write.current?.username);
+    return { ...write, updates };
+  }
+  // A restore passes the record it overwrites, so legacy values it keeps are not re-checked.
+  const data = normalizeAccountInput(write.data);
+  const errors = validateAccount(data, { previous: write.type === "set" ? write.current : undefined });
+  if (Object.keys(errors).length) throw new AccountValidationError(errors, data.username);
+  return { ...write, data };
+};
+
+const asText = (value: unknown) => (typeof value === "string" ? value : isBlank(value) ? undefined : String(value));
+const asNumber = (value: unknown) => {
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+const TEXT_FIELDS = [
+  "bio", "category", "avatar", "lastActive", "realName", "email", "password", "twoFactorSecret", "phone", "website", "country",
+  "accountManager", "targetAudience", "lastPostedDate", "creationDate", "notes", "deletedAt", "deletedBy",
+  "lastAuditedAt", "lastAuditSentiment"
+] as const;
+
+// Builds a well-typed account from whatever a document holds. Unknown
+// platforms and statuses are kept rather than lost; the next edit has to fix them.
+export const normalizeStoredAccount = (id: string, data: Record<string, unknown>): UserAccount => {
+  const account: UserAccount = {
+    id,
+    username: normalizeUsername(asText(data.username) ?? ""),
+    platform: normalizePlatform(data.platform) ?? (asText(data.platform) ?? "") as UserAccount["platform"],
+    status: normalizeStatus(data.status) ?? (asText(data.status) ?? "Active") as UserAccount["status"],
+    followers: Math.max(0, Math.round(asNumber(data.followers))),
+    engagementRate: asNumber(data.engagementRate),
+    bio: "",
+    category: "",
+    avatar: "",
+    lastActive: ""
+  };
+  TEXT_FIELDS.forEach(field => {
+    const value = asText(data[field]);
+    if (value !== undefined) account[field] = value;
+  });
+  if (data.tags !== undefined) account.tags = splitTags(data.tags);
+  (["isFavorite", "isArchived", "isDeleted"] as const).forEach(field => {
+    if (data[field] !== undefined) account[field] = data[field] === true;
+  });
+  if (Array.isArray(data.history)) {
+    account.history = data.history
+      .filter((e): e is ActivityLog => !!e && typeof e.date === "string" && typeof e.action === "string")
+      .map(e => (e.details === undefined ? { date: e.date, action: e.action } : { date: e.date, action: e.action, details: String(e.details) }));
+  }
+  if (Array.isArray(data.aiAudits)) account.aiAudits = data.aiAudits.filter(isAuditRecord);
+  return account;
+};
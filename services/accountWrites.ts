@@ -0,0 +1,137 @@
+import { deleteField, doc } from "firebase/firestore";
+import { BatchOperation } from "./batchWriter";
+import { CREDENTIAL_FIELDS, CredentialField, encryptCredentials } from "./vault";
+import { addSnapshotToBatch, hasMetricChange, snapshotOf } from "./snapshots";
+import { duplicateKeys } from "./duplicates";
+import { getActiveWorkspaceId, workspaceCollection, workspaceDoc } from "./workspaces";
+import { SortableField } from "./accountRepository";
+import { UserAccount } from "../types";
+
+// Security rules cannot hide individual fields, so credentials are kept out
+// of the account document in accounts/{id}/secrets/credentials. The secrets
+// doc carries copies of accountManager and workspaceId so rules and
+// collection-group queries can scope it without reading the parent.
+export const ACCOUNTS = "accounts";
+export const SECRETS = "secrets";
+export const CREDENTIALS_DOC = "credentials";
+
+type Credentials = Partial<Pick<UserAccount, CredentialField>>;
+
+export const accountsCollection = () => workspaceCollection(ACCOUNTS);
+export const accountRef = (id: string) => workspaceDoc(ACCOUNTS, id);
+export const credentialsRef = (accountId: string) => workspaceDoc(ACCOUNTS, accountId, SECRETS, CREDENTIALS_DOC);
+
+export const secretsData = (credentials: Credentials | null, accountManager = "") => ({
+  ...credentials,
+  accountManager,
+  workspaceId: getActiveWorkspaceId()
+});
+
+export const splitCredentials = <T extends Partial<UserAccount>>(payload: T): { fields: Omit<T, CredentialField>; credentials: Credentials | null } => {
+  const fields = { ...payload };
+  const credentials: Credentials = {};
+  CREDENTIAL_FIELDS.forEach(field => {
+    if (field in fields) {
+      credentials[field] = fields[field] as string;
+      delete fields[field];
+    }
+  });
+  return { fields, credentials: Object.keys(credentials).length ? credentials : null };
+};
+
+export const hasInlineCredentials = (raw: Record<string, unknown>) => CREDENTIAL_FIELDS.some(field => field in raw);
+
+// Firestore orders strings by code point, so the text fields the table pages
+// by are also stored lowercased, and queries sort on those copies instead.
+const LOWERCASE_SORT_FIELDS = ["username", "accountManager"] as const;
+
+export const sortFieldFor = (field: SortableField) =>
+  (LOWERCASE_SORT_FIELDS as readonly string[]).includes(field) ? `${field}Lower` : field;
+
+// Fields derived from others for queries to use: the lowercased sort keys,
+// and duplicateKeys, which the duplicate checks look accounts up by (see
+// duplicates.ts). `current` fills in the fields an update leaves alone;
+// duplicateKeys depend on several fields, so they are only written when it
+// is known.
+export const withQueryKeys = <T extends object>(fields: T, current?: Partial<UserAccount>): T => {
+  const merged = { ...current, ...fields } as Partial<UserAccount>;
+  const keys: Record<string, unknown> = {};
+  LOWERCASE_SORT_FIELDS.forEach(field => {
+    const value = merged[field];
+    if (typeof value === "string") keys[`${field}Lower`] = value.toLowerCase();
+  });
+  if (current) keys.duplicateKeys = duplicateKeys(merged);
+  return { ...fields, ...keys };
+};
+
+// Audited writes name their audit entry in lastWriteId; the security rules
+// only accept the write if that entry is created in the same batch.
+const storedFields = <T extends object>(fields: T, writeId?: string, current?: Partial<UserAccount>) =>
+  writeId ? { ...withQueryKeys(fields, current), lastWriteId: writeId } : withQueryKeys(fields, current);
+
+// Whether a stored document's query keys are missing or out of date, e.g.
+// because it predates them. Keys follow the normalized account, which is
+// what the next update writes them from.
+export const hasStaleQueryKeys = (raw: Record<string, unknown>, account: UserAccount) =>
+  LOWERCASE_SORT_FIELDS.some(field => raw[`${field}Lower`] !== (account[field] ?? "").toLowerCase())
+  || JSON.stringify(raw.duplicateKeys ?? null) !== JSON.stringify(duplicateKeys(account));
+
+// Ids are allocated client-side so a new account can be shown before it is written.
+export const newAccountId = () => doc(accountsCollection()).id;
+
+export const createAccountOperations = async (
+  account: Omit<UserAccount, "id">,
+  id = newAccountId(),
+  writeId?: string
+): Promise<BatchOperation[]> => {
+  const ref = accountRef(id);
+  const { fields, credentials } = splitCredentials(await encryptCredentials(account));
+  const operations: BatchOperation[] = [
+    batch => batch.set(ref, storedFields(fields, writeId, account)),
+    batch => addSnapshotToBatch(batch, snapshotOf(ref.id, account))
+  ];
+  if (credentials) {
+    operations.push(batch => batch.set(credentialsRef(ref.id), secretsData(credentials, account.accountManager)));
+  }
+  return operations;
+};
+
+export const updateAccountOperations = async (
+  id: string,
+  updates: Partial<UserAccount>,
+  current?: UserAccount,
+  writeId?: string
+): Promise<BatchOperation[]> => {
+  const { fields, credentials } = splitCredentials(await encryptCredentials(updates));
+  const operations: BatchOperation[] = [];
+  // Writing credentials also clears any legacy copies left on the account doc.
+  const accountUpdates = storedFields(credentials ? { ...fields, password: deleteField(), twoFactorSecret: deleteField() } : fields, writeId, current);
+  if (Object.keys(accountUpdates).length) operations.push(batch => batch.update(accountRef(id), accountUpdates));
+
+  const managerChanged = "accountManager" in updates && updates.accountManager !== current?.accountManager;
+  if (credentials || managerChanged) {
+    const accountManager = updates.accountManager ?? current?.accountManager ?? "";
+    operations.push(batch => batch.set(credentialsRef(id), secretsData(credentials, accountManager), { merge: true }));
+  }
+  if (hasMetricChange(current, updates)) {
+    operations.push(batch => addSnapshotToBatch(batch, snapshotOf(id, { ...current!, ...updates })));
+  }
+  return operations;
+};
+
+// Writes a complete account under a known id, as a restore does.
+export const setAccountOperations = (id: string, data: Omit<UserAccount, "id">, writeId?: string): BatchOperation[] => {
+  const { fields, credentials } = splitCredentials(data);
+  return [
+    batch => batch.set(accountRef(id), storedFields(fields, writeId, data)),
+    batch => batch.set(credentialsRef(id), secretsData(credentials, data.accountManager))
+  ];
+};
+
+// Subcollections are not removed with their parent, so the secrets doc is
+// deleted explicitly; the repository adds the account's drafts (see
+// contentDrafts.ts). Metric snapshots and the audit log are kept.
+export const deleteAccountOperations = (id: string): BatchOperation[] => [
+  batch => batch.delete(credentialsRef(id)),
+  batch => batch.delete(accountRef(id))
+];
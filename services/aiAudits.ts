@@ -0,0 +1,153 @@
+import { AIAnalysisResult, AIAuditRecord, UserAccount, UserProfile } from "../types";
+
+// AI audits are stored on the account itself, in aiAudits, and written
+// through the normal update path like any other edit. Only the most recent
+// ones are kept so documents stay small.
+export const AI_AUDIT_HISTORY_LIMIT = 10;
+
+export const SENTIMENTS = ["Positive", "Neutral", "Negative"] as const;
+
+export const DEFAULT_AUDIT_CONCURRENCY = 3;
+export const DEFAULT_AUDIT_ATTEMPTS = 3;
+// The first retry waits about this long; each further one doubles it.
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+export const auditRecordFor = (result: AIAnalysisResult, model: string, profile: UserProfile | null): AIAuditRecord => ({
+  sentiment: result.sentiment,
+  strengths: result.strengths,
+  weaknesses: result.weaknesses,
+  growthStrategy: result.growthStrategy,
+  date: new Date().toISOString(),
+  model,
+  auditedBy: profile?.displayName || profile?.email || ""
+});
+
+// The fields an update must write to add an audit to the account.
+export const auditUpdates = (account: UserAccount, record: AIAuditRecord): Partial<UserAccount> => ({
+  aiAudits: [...(account.aiAudits ?? []), record].slice(-AI_AUDIT_HISTORY_LIMIT),
+  lastAuditedAt: record.date,
+  lastAuditSentiment: record.sentiment
+});
+
+export const latestAudit = (account: UserAccount): AIAuditRecord | null =>
+  account.aiAudits?.length ? account.aiAudits[account.aiAudits.length - 1] : null;
+
+export interface AuditComparison {
+  sentimentChanged: boolean;
+  newStrengths: string[];
+  lostStrengths: string[];
+  newWeaknesses: string[];
+  resolvedWeaknesses: string[];
+  strategyChanged: boolean;
+}
+
+// Points are compared case- and whitespace-insensitively; the model rarely
+// repeats itself word for word, so most reruns show some churn.
+const normalizePoint = (point: string) => point.trim().toLowerCase().replace(/\s+/g, " ");
+
+const missingFrom = (points: string[], others: string[]) => {
+  const keys = new Set(others.map(normalizePoint));
+  return points.filter(p => !keys.has(normalizePoint(p)));
+};
+
+export const compareAudits = (current: AIAuditRecord, previous: AIAuditRecord): AuditComparison => ({
+  sentimentChanged: current.sentiment !== previous.sentiment,
+  newStrengths: missingFrom(current.strengths, previous.strengths),
+  lostStrengths: missingFrom(previous.strengths, current.strengths),
+  newWeaknesses: missingFrom(current.weaknesses, previous.weaknesses),
+  resolvedWeaknesses: missingFrom(previous.weaknesses, current.weaknesses),
+  strategyChanged: normalizePoint(current.growthStrategy) !== normalizePoint(previous.growthStrategy)
+});
+
+export type AuditItemStatus = "queued" | "running" | "retrying" | "done" | "failed" | "cancelled";
+
+export interface AuditItemState {
+  status: AuditItemStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface AuditBatchOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  // Saves a result. Not retried, and not called once the batch is cancelled.
+  onResult: (account: UserAccount, record: AIAuditRecord) => Promise<void>;
+  // Called whenever an account's state changes.
+  onItem: (accountId: string, state: AuditItemState) => void;
+}
+
+// Full jitter keeps parallel workers from retrying in lockstep.
+export const retryDelay = (attempt: number) =>
+  Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+
+// Resolves early, without throwing, when the signal aborts.
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve();
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener("abort", done, { once: true });
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", done);
+    resolve();
+  }
+});
+
+// Audits each account with at most `concurrency` requests in flight,
+// retrying failed requests with exponential backoff unless the error says
+// it is not retryable. Aborting stops new work
+// and retries; requests already sent finish, but their results are dropped.
+// Never rejects: failures are reported through onItem.
+export const runAuditBatch = async (
+  accounts: UserAccount[],
+  audit: (account: UserAccount) => Promise<AIAuditRecord>,
+  { concurrency = DEFAULT_AUDIT_CONCURRENCY, maxAttempts = DEFAULT_AUDIT_ATTEMPTS, signal, onResult, onItem }: AuditBatchOptions
+): Promise<void> => {
+  accounts.forEach(a => onItem(a.id, { status: "queued", attempts: 0 }));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < accounts.length) {
+      const account = accounts[next++];
+      let attempts = 0;
+      while (true) {
+        if (signal?.aborted) {
+          onItem(account.id, { status: "cancelled", attempts });
+          break;
+        }
+        attempts++;
+        onItem(account.id, { status: "running", attempts });
+        let record: AIAuditRecord;
+        try {
+          record = await audit(account);
+        } catch (err: any) {
+          const error = err?.message || String(err);
+          // LLMAuthError and the like will fail the same way again.
+          if (attempts >= maxAttempts || err?.retryable === false) {
+            console.error(`AI audit of ${account.username} failed:`, err);
+            onItem(account.id, { status: "failed", attempts, error });
+            break;
+          }
+          onItem(account.id, { status: "retrying", attempts, error });
+          await wait(retryDelay(attempts), signal);
+          continue;
+        }
+        if (signal?.aborted) {
+          onItem(account.id, { status: "cancelled", attempts });
+        } else {
+          try {
+            await onResult(account, record);
+            onItem(account.id, { status: "done", attempts });
+          } catch (err: any) {
+            console.error(`Saving the AI audit of ${account.username} failed:`, err);
+            onItem(account.id, { status: "failed", attempts, error: err?.message || String(err) });
+          }
+        }
+        break;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, accounts.length)) }, worker));
+};
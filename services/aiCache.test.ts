@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cacheKey, cachedEntryCount, clearAiCache, readCache, writeCache } from "./aiCache";
+import { setActiveWorkspace } from "./workspaces";
+
+const HOUR = 60 * 60 * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  setActiveWorkspace({ id: "cache", name: "Cache", role: "admin" });
+  clearAiCache();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("cacheKey", () => {
+  it("is a stable SHA-256 of the parts", async () => {
+    expect(await cacheKey("gemini", "model", "prompt")).toBe(await cacheKey("gemini", "model", "prompt"));
+    expect(await cacheKey("gemini", "model", "prompt")).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("does not confuse how the parts are split", async () => {
+    expect(await cacheKey("ab", "c")).not.toBe(await cacheKey("a", "bc"));
+  });
+});
+
+describe("readCache", () => {
+  it("returns entries younger than the TTL", () => {
+    writeCache("k", { answer: 42 });
+    vi.advanceTimersByTime(HOUR - 1);
+    expect(readCache("k", HOUR)).toEqual({ answer: 42 });
+    vi.advanceTimersByTime(1);
+    expect(readCache("k", HOUR)).toBeUndefined();
+  });
+
+  it("keeps each workspace's entries apart", () => {
+    writeCache("k", "one");
+    setActiveWorkspace({ id: "other", name: "Other", role: "admin" });
+    expect(readCache("k", HOUR)).toBeUndefined();
+  });
+});
+
+describe("writeCache", () => {
+  it("drops the oldest entries beyond 200", () => {
+    for (let i = 0; i < 201; i++) {
+      writeCache(`k${i}`, i);
+      vi.advanceTimersByTime(1);
+    }
+    expect(cachedEntryCount()).toBe(200);
+    expect(readCache("k0", HOUR)).toBeUndefined();
+    expect(readCache("k200", HOUR)).toBe(200);
+  });
+});
@@ -0,0 +1,62 @@
+import { DATA_BACKEND } from "./config";
+import { getActiveWorkspaceId } from "./workspaces";
+
+// AI replies kept in this browser so that reopening an account does not
+// pay for the same audit or trend search twice. Entries are keyed by a
+// hash of the model and the full prompt, so any change to the account's
+// data or to the prompt misses the cache.
+const LOCAL_CACHE_KEY = "socialbase.aiCache";
+const MAX_ENTRIES = 200;
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+const memoryCache = new Map<string, Record<string, CacheEntry>>();
+
+const localKey = () => `${LOCAL_CACHE_KEY}:${getActiveWorkspaceId()}`;
+
+const loadEntries = (): Record<string, CacheEntry> => {
+  if (DATA_BACKEND === "memory") return memoryCache.get(localKey()) ?? {};
+  try {
+    return JSON.parse(localStorage.getItem(localKey()) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveEntries = (entries: Record<string, CacheEntry>) => {
+  if (DATA_BACKEND === "memory") {
+    memoryCache.set(localKey(), entries);
+    return;
+  }
+  try {
+    localStorage.setItem(localKey(), JSON.stringify(entries));
+  } catch (err) {
+    // A full localStorage only costs cache hits.
+    console.error("Saving AI cache failed:", err);
+  }
+};
+
+export const cacheKey = async (...parts: string[]): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(parts.join("\u0000")));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Returns undefined when there is no entry younger than ttlMs.
+export const readCache = <T>(key: string, ttlMs: number): T | undefined => {
+  const entry = loadEntries()[key];
+  return entry && Date.now() - entry.storedAt < ttlMs ? entry.value as T : undefined;
+};
+
+// The oldest entries are dropped beyond MAX_ENTRIES.
+export const writeCache = (key: string, value: unknown) => {
+  const entries = { ...loadEntries(), [key]: { value, storedAt: Date.now() } };
+  const kept = Object.entries(entries).sort(([, a], [, b]) => b.storedAt - a.storedAt).slice(0, MAX_ENTRIES);
+  saveEntries(Object.fromEntries(kept));
+};
+
+export const cachedEntryCount = () => Object.keys(loadEntries()).length;
+
+export const clearAiCache = () => saveEntries({});
@@ -0,0 +1,56 @@
+import { LLMCallOptions, LLMProvider, LLMUsage } from "./llm";
+import { cacheKey, readCache, writeCache } from "./aiCache";
+import { ensureWithinBudget, recordUsage } from "./aiUsage";
+import { createRateLimiter } from "./rateLimiter";
+
+export interface GatewayPolicy {
+  // How long replies are reused; 0 turns the cache off for that kind.
+  responseTtlMinutes: number;
+  trendsTtlMinutes: number;
+  requestsPerMinute: number;
+}
+
+// Wraps a provider with what every app request goes through: a cached reply
+// is returned if there is one; otherwise the workspace budget is checked,
+// the rate limiter waits for a free slot, and the call is recorded in the
+// usage ledger once the provider reports its tokens.
+export const withGateway = (provider: LLMProvider, policy: GatewayPolicy): LLMProvider => {
+  const limiter = createRateLimiter(policy.requestsPerMinute);
+
+  const send = async <T,>(
+    parts: string[],
+    ttlMinutes: number,
+    options: LLMCallOptions | undefined,
+    call: (options: LLMCallOptions) => Promise<T>
+  ): Promise<T> => {
+    const key = await cacheKey(provider.id, provider.model, ...parts);
+    if (ttlMinutes > 0 && !options?.fresh) {
+      const cached = readCache<T>(key, ttlMinutes * 60 * 1000);
+      if (cached !== undefined) return cached;
+    }
+    await ensureWithinBudget();
+    await limiter.take();
+
+    let usage: LLMUsage | null = null;
+    try {
+      const result = await call({ ...options, onUsage: reported => { usage = reported; options?.onUsage?.(reported); } });
+      if (ttlMinutes > 0) writeCache(key, result);
+      return result;
+    } finally {
+      // A reply that fails validation has still been paid for.
+      if (usage) {
+        recordUsage({ ...(usage as LLMUsage), accountId: options?.accountId ?? null, feature: options?.feature ?? "other", provider: provider.id, model: provider.model })
+          .catch(err => console.error("Recording AI usage failed:", err));
+      }
+    }
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    generateJson: (prompt, schema, options) =>
+      send(["json", JSON.stringify(schema), prompt], policy.responseTtlMinutes, options, o => provider.generateJson(prompt, schema, o)),
+    searchGrounded: (prompt, options) =>
+      send(["grounded", prompt], policy.trendsTtlMinutes, options, o => provider.searchGrounded(prompt, o))
+  };
+};
@@ -0,0 +1,206 @@
+import { addDoc, getAggregateFromServer, getDoc, onSnapshot, orderBy, query, setDoc, sum, Unsubscribe, where } from "firebase/firestore";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { getActiveWorkspaceId, workspaceCollection, workspaceDoc } from "./workspaces";
+import { LLMBudgetError, LLMProviderId, LLMUsage } from "./llm";
+import { UserProfile } from "../types";
+
+// Every AI request that reaches a provider is recorded in
+// workspaces/{id}/aiUsage with its token counts and estimated cost. The
+// workspace's monthly budget, kept on the workspace doc, is checked against
+// the ledger before each request.
+const USAGE = "aiUsage";
+const LOCAL_USAGE_KEY = "socialbase.aiUsage";
+const LOCAL_BUDGET_KEY = "socialbase.aiBudget";
+// The local ledger only needs to cover the periods Settings shows.
+const LOCAL_USAGE_LIMIT = 5000;
+// Budget checks reuse the last reading for this long.
+const BUDGET_CHECK_MS = 60 * 1000;
+
+export interface AIUsageEntry {
+  id: string;
+  date: string;
+  uid: string;
+  userName: string;
+  accountId: string | null;
+  feature: string;
+  provider: LLMProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Estimated from MODEL_PRICES, in US dollars.
+  cost: number;
+}
+
+// List prices in US dollars per million tokens, matched by model name
+// prefix. Unknown models, such as local Ollama ones, are counted as free.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-3-pro": { input: 2, output: 12 },
+  "gemini-3-flash": { input: 0.5, output: 3 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 }
+};
+
+export const estimateCost = (model: string, usage: LLMUsage): number => {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(p => model.toLowerCase().startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return 0;
+  const price = MODEL_PRICES[prefix];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+export const startOfMonth = (now = new Date()) => new Date(now.getFullYear(), now.getMonth(), 1);
+
+// Who the ledger attributes requests to; set by the app when the member
+// profile for the active workspace loads.
+let actor: UserProfile | null = null;
+
+export const setUsageActor = (profile: UserProfile | null) => {
+  actor = profile;
+};
+
+// The local backends keep the ledger in the tab ("memory") or in
+// localStorage ("local"), and notify subscribers in the same tab directly.
+const memoryUsage = new Map<string, AIUsageEntry[]>();
+const memoryBudget = new Map<string, number>();
+const localListeners = new Set<() => void>();
+
+const localKey = (base: string) => `${base}:${getActiveWorkspaceId()}`;
+
+const loadLocalUsage = (): AIUsageEntry[] => {
+  if (DATA_BACKEND === "memory") return memoryUsage.get(localKey(LOCAL_USAGE_KEY)) ?? [];
+  try {
+    return JSON.parse(localStorage.getItem(localKey(LOCAL_USAGE_KEY)) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const saveLocalUsage = (entries: AIUsageEntry[]) => {
+  const kept = entries.slice(-LOCAL_USAGE_LIMIT);
+  if (DATA_BACKEND === "memory") memoryUsage.set(localKey(LOCAL_USAGE_KEY), kept);
+  else localStorage.setItem(localKey(LOCAL_USAGE_KEY), JSON.stringify(kept));
+  localListeners.forEach(listener => listener());
+};
+
+// The latest budget check, per workspace and month. Costs recorded since are
+// added to it so a burst of requests cannot overshoot the budget by much.
+let budgetCheck: { key: string; budget: number; spent: number; at: number } | null = null;
+
+const budgetCheckKey = () => `${getActiveWorkspaceId()}:${startOfMonth().toISOString()}`;
+
+export const recordUsage = async (
+  call: Pick<AIUsageEntry, "accountId" | "feature" | "provider" | "model"> & LLMUsage
+): Promise<void> => {
+  const data: Omit<AIUsageEntry, "id"> = {
+    ...call,
+    date: new Date().toISOString(),
+    uid: actor?.uid ?? "",
+    userName: actor?.displayName || actor?.email || "",
+    cost: estimateCost(call.model, call)
+  };
+  if (budgetCheck?.key === budgetCheckKey()) budgetCheck.spent += data.cost;
+  if (!isFirestoreBackend()) {
+    saveLocalUsage([...loadLocalUsage(), { id: crypto.randomUUID(), ...data }]);
+    return;
+  }
+  await addDoc(workspaceCollection(USAGE), data);
+};
+
+// Calls onChange with the workspace's entries since the given date, oldest first.
+export const subscribeToUsage = (
+  since: Date,
+  onChange: (entries: AIUsageEntry[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const from = since.toISOString();
+  if (!isFirestoreBackend()) {
+    const emit = () => onChange(loadLocalUsage().filter(e => e.date >= from));
+    localListeners.add(emit);
+    emit();
+    return () => { localListeners.delete(emit); };
+  }
+  return onSnapshot(query(workspaceCollection(USAGE), where("date", ">=", from), orderBy("date")), snapshot => {
+    onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as AIUsageEntry)));
+  }, onError);
+};
+
+export const fetchSpendSince = async (since: Date): Promise<number> => {
+  const from = since.toISOString();
+  if (!isFirestoreBackend()) {
+    return loadLocalUsage().filter(e => e.date >= from).reduce((total, e) => total + e.cost, 0);
+  }
+  const snapshot = await getAggregateFromServer(query(workspaceCollection(USAGE), where("date", ">=", from)), { cost: sum("cost") });
+  return snapshot.data().cost ?? 0;
+};
+
+// In US dollars per calendar month; 0 means no cap.
+export const loadAiBudget = async (): Promise<number> => {
+  if (!isFirestoreBackend()) {
+    const key = localKey(LOCAL_BUDGET_KEY);
+    const stored = DATA_BACKEND === "memory" ? memoryBudget.get(key) : localStorage.getItem(key);
+    return Number(stored) || 0;
+  }
+  const snapshot = await getDoc(workspaceDoc());
+  return snapshot.data()?.aiMonthlyBudget ?? 0;
+};
+
+export const saveAiBudget = async (budget: number): Promise<void> => {
+  budgetCheck = null;
+  if (!isFirestoreBackend()) {
+    const key = localKey(LOCAL_BUDGET_KEY);
+    if (DATA_BACKEND === "memory") memoryBudget.set(key, budget);
+    else localStorage.setItem(key, String(budget));
+    return;
+  }
+  await setDoc(workspaceDoc(), { aiMonthlyBudget: budget }, { merge: true });
+};
+
+// Throws LLMBudgetError once this month's spend has reached the budget. If
+// the budget or spend cannot be read, the request is let through rather
+// than blocking every AI feature on a database error.
+export const ensureWithinBudget = async (): Promise<void> => {
+  const key = budgetCheckKey();
+  let check = budgetCheck;
+  if (check?.key !== key || Date.now() - check.at > BUDGET_CHECK_MS) {
+    try {
+      const [budget, spent] = await Promise.all([loadAiBudget(), fetchSpendSince(startOfMonth())]);
+      check = budgetCheck = { key, budget, spent, at: Date.now() };
+    } catch (err) {
+      console.error("AI budget check failed:", err);
+      return;
+    }
+  }
+  const { budget, spent } = check;
+  if (budget > 0 && spent >= budget) {
+    throw new LLMBudgetError(`This month's AI budget of $${budget.toFixed(2)} has been used ($${spent.toFixed(2)} spent). An admin can raise it in Settings.`);
+  }
+};
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+// Totals per group, in the order groups first appear.
+export const summarizeUsage = (entries: AIUsageEntry[], groupBy: (entry: AIUsageEntry) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  entries.forEach(entry => {
+    const key = groupBy(entry);
+    const group = groups.get(key) ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    group.calls += 1;
+    group.inputTokens += entry.inputTokens;
+    group.outputTokens += entry.outputTokens;
+    group.cost += entry.cost;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
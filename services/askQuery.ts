@@ -0,0 +1,66 @@
+import { UserAccount } from "../types";
+import { knownValues, quoteIfNeeded, SEARCH_FIELDS } from "./searchQuery";
+
+// A question asked in plain language, turned by the model into conditions
+// on search fields. The conditions are written out in the search box's
+// query language so the user can read and edit them, and they run through
+// the same local matcher as a typed query.
+export type AskOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export interface AskCondition {
+  field: string;
+  op: AskOperator;
+  value: string;
+}
+
+export interface AskFilter {
+  match: "all" | "any";
+  conditions: AskCondition[];
+  // The model's one-line reading of the question.
+  explanation: string;
+}
+
+export const ASK_OPERATORS: AskOperator[] = ["=", "!=", ">", ">=", "<", "<="];
+
+// Known values of these fields go along with the question so that "Priya"
+// can become the stored manager name. Nothing else about the accounts is
+// sent: no records, contact details or credentials.
+const VOCABULARY_FIELDS = ["platform", "status", "manager", "country", "category", "tag", "sentiment", "is"];
+const MAX_VOCABULARY_VALUES = 50;
+
+export interface AskFieldInfo {
+  name: string;
+  kind: string;
+  description: string;
+  values?: string[];
+}
+
+export interface AskContext {
+  // Relative dates such as "two weeks ago" are resolved against this.
+  today: string;
+  fields: AskFieldInfo[];
+}
+
+export const askContext = (accounts: UserAccount[]): AskContext => ({
+  today: new Date().toISOString().slice(0, 10),
+  fields: SEARCH_FIELDS.map(field => ({
+    name: field.name,
+    kind: field.kind,
+    description: field.description,
+    ...(VOCABULARY_FIELDS.includes(field.name) ? { values: knownValues(field, accounts).slice(0, MAX_VOCABULARY_VALUES) } : {})
+  }))
+});
+
+const conditionToTerm = ({ field, op, value }: AskCondition) => {
+  const operand = quoteIfNeeded(String(value).trim());
+  if (op === "=") return `${field}:${operand}`;
+  if (op === "!=") return `-${field}:${operand}`;
+  return `${field}:${op}${operand}`;
+};
+
+// Conditions with an empty value are dropped. Unknown fields are kept, so
+// the search box can point them out instead of silently widening the query.
+export const toSearchQuery = (filter: AskFilter): string => {
+  const terms = filter.conditions.filter(c => c.field && String(c.value ?? "").trim()).map(conditionToTerm);
+  return terms.join(filter.match === "any" ? " OR " : " ");
+};
@@ -0,0 +1,242 @@
+import {
+  collectionGroup, doc, getDocs, limit, orderBy, query, QueryConstraint, serverTimestamp, Timestamp, where, WriteBatch
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { CREDENTIAL_FIELDS, decryptSecret, isEncrypted, isVaultUnlocked } from "./vault";
+import { getActiveWorkspaceId, workspaceCollection } from "./workspaces";
+import { UserAccount, UserProfile } from "../types";
+import type { AccountWrite } from "./accountRepository";
+import { ACCOUNT_COLUMNS, columnFor, isAccountField } from "./accountColumns";
+
+// An append-only record of every account write, one document per write in
+// accounts/{id}/audit. Entries are added in the same batch as the write they
+// describe and can never be changed or removed (see firestore.rules). They
+// outlive a purged account, so the global view still shows its deletion.
+// The entry's id is the write's: the account document records it as
+// lastWriteId, which is how the rules tie the two together.
+const AUDIT = "audit";
+const LOCAL_AUDIT_KEY = "socialbase.audit";
+// The local backends keep only the most recent entries.
+const LOCAL_AUDIT_LIMIT = 2000;
+export const AUDIT_PAGE_SIZE = 200;
+
+export const MASKED_VALUE = "••••••";
+
+export type AuditAction = "create" | "update" | "replace" | "trash" | "untrash" | "purge";
+
+export interface AuditChange {
+  field: string;
+  // null stands for a missing value. Credentials are stored as MASKED_VALUE.
+  before: unknown;
+  after: unknown;
+  masked?: boolean;
+}
+
+export interface AuditEntry {
+  id: string;
+  accountId: string;
+  username: string;
+  // Denormalized so security rules and collection-group queries can filter on them.
+  workspaceId: string;
+  accountManager: string;
+  actorUid: string;
+  actorName: string;
+  // ISO time. Firestore stores the server's timestamp instead, which the
+  // rules check, and it is converted back when read.
+  at: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  // The changed field names, for array-contains queries.
+  fields: string[];
+}
+
+export interface AuditQuery {
+  actorUid?: string;
+  field?: string;
+  // Inclusive ISO bounds.
+  from?: string;
+  to?: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  replace: "Replaced from backup",
+  trash: "Moved to trash",
+  untrash: "Restored from trash",
+  purge: "Purged"
+};
+
+// Fields the log can be filtered by, in table order, then the ones the table never shows.
+export const AUDITED_FIELDS: string[] = [...ACCOUNT_COLUMNS.map(c => c.field), "password", "twoFactorSecret", "avatar", "isDeleted"];
+
+const FIELD_LABELS: Record<string, string> = {
+  username: "Username",
+  password: "Password",
+  twoFactorSecret: "2FA secret",
+  avatar: "Avatar",
+  isDeleted: "In trash",
+  deletedAt: "Deleted at",
+  deletedBy: "Deleted by"
+};
+
+export const auditFieldLabel = (field: string) =>
+  FIELD_LABELS[field] ?? (isAccountField(field) ? columnFor(field).label : field);
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "∅";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "∅";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// The history array is the legacy activity log and is not audited itself.
+// AI audits record their own date and author; the log keeps only the
+// last-audited date and sentiment they update.
+const IGNORED_FIELDS = new Set(["id", "history", "aiAudits"]);
+
+const isCredential = (field: string) => (CREDENTIAL_FIELDS as readonly string[]).includes(field);
+
+const normalize = (value: unknown) => (value === undefined || value === "" ? null : value);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Ciphertexts differ on every encryption, so an edit that re-saves the same
+// password must be compared in plaintext where the vault allows it.
+const credentialChanged = async (before: unknown, after: unknown): Promise<boolean> => {
+  if (sameValue(before, after)) return false;
+  if (!before || !after) return true;
+  try {
+    const plain = async (value: unknown) =>
+      isEncrypted(String(value)) ? (isVaultUnlocked() ? await decryptSecret(String(value)) : null) : String(value);
+    const [a, b] = await Promise.all([plain(before), plain(after)]);
+    return a === null || b === null || a !== b;
+  } catch {
+    return true;
+  }
+};
+
+const diff = async (before: Partial<UserAccount> | undefined, after: Partial<UserAccount>): Promise<AuditChange[]> => {
+  const changes: AuditChange[] = [];
+  for (const field of Object.keys(after)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = before?.[field as keyof UserAccount];
+    const to = after[field as keyof UserAccount];
+    if (isCredential(field)) {
+      if (await credentialChanged(from, to)) {
+        changes.push({ field, before: from ? MASKED_VALUE : null, after: to ? MASKED_VALUE : null, masked: true });
+      }
+    } else if (!sameValue(from, to)) {
+      changes.push({ field, before: normalize(from) ?? null, after: normalize(to) ?? null });
+    }
+  }
+  return changes;
+};
+
+const actionFor = (write: AccountWrite, changes: AuditChange[]): AuditAction => {
+  if (write.type === "create") return "create";
+  if (write.type === "set") return "replace";
+  if (write.type === "delete") return "purge";
+  const trashChange = changes.find(c => c.field === "isDeleted");
+  if (trashChange) return trashChange.after ? "trash" : "untrash";
+  return "update";
+};
+
+// Describes a write, or returns null if it changes nothing worth recording.
+export const auditEntryFor = async (write: AccountWrite, profile: UserProfile): Promise<AuditEntry | null> => {
+  if (write.type === "update" && write.system) return null;
+  const current = write.type === "create" ? undefined : write.current;
+  const changes = write.type === "delete" ? [] : await diff(current, write.type === "update" ? write.updates : write.data);
+  if (write.type === "update" && changes.length === 0) return null;
+
+  const after = write.type === "update" ? { ...current, ...write.updates } : write.type === "delete" ? current : write.data;
+  return {
+    id: crypto.randomUUID(),
+    accountId: write.id,
+    username: after?.username ?? "",
+    workspaceId: getActiveWorkspaceId(),
+    accountManager: after?.accountManager ?? "",
+    actorUid: profile.uid,
+    actorName: profile.displayName || profile.email || profile.uid,
+    at: new Date().toISOString(),
+    action: actionFor(write, changes),
+    changes,
+    fields: changes.map(c => c.field)
+  };
+};
+
+export const addAuditEntryToBatch = (batch: WriteBatch, entry: AuditEntry) => {
+  const { id, ...data } = entry;
+  batch.set(doc(workspaceCollection("accounts", entry.accountId, AUDIT), id), { ...data, at: serverTimestamp() });
+};
+
+// The local backends keep the log in the tab ("memory") or in localStorage ("local").
+const memoryAudit = new Map<string, AuditEntry[]>();
+const localKey = () => `${LOCAL_AUDIT_KEY}:${getActiveWorkspaceId()}`;
+
+const loadLocalAudit = (): AuditEntry[] => {
+  if (DATA_BACKEND === "memory") return memoryAudit.get(localKey()) ?? [];
+  try {
+    return JSON.parse(localStorage.getItem(localKey()) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const appendLocalAuditEntries = (entries: AuditEntry[]) => {
+  if (!entries.length) return;
+  const next = [...loadLocalAudit(), ...entries].slice(-LOCAL_AUDIT_LIMIT);
+  if (DATA_BACKEND === "memory") memoryAudit.set(localKey(), next);
+  else localStorage.setItem(localKey(), JSON.stringify(next));
+};
+
+const newestFirst = (a: AuditEntry, b: AuditEntry) => b.at.localeCompare(a.at);
+
+const toEntries = (docs: { id: string; data: () => any }[]) => docs.map(d => {
+  const data = d.data();
+  return { id: d.id, ...data, at: data.at instanceof Timestamp ? data.at.toDate().toISOString() : data.at } as AuditEntry;
+});
+
+export const fetchAccountAudit = async (accountId: string): Promise<AuditEntry[]> => {
+  if (!isFirestoreBackend()) return loadLocalAudit().filter(e => e.accountId === accountId).sort(newestFirst);
+  const snapshot = await getDocs(query(workspaceCollection("accounts", accountId, AUDIT), orderBy("at", "desc")));
+  return toEntries(snapshot.docs);
+};
+
+// Workspace-wide reads use a collection-group query; see firestore.indexes.json.
+export const fetchAuditLog = async (filters: AuditQuery): Promise<AuditEntry[]> => {
+  const matchesDates = (e: AuditEntry) => (!filters.from || e.at >= filters.from) && (!filters.to || e.at <= filters.to);
+  if (!isFirestoreBackend()) {
+    return loadLocalAudit()
+      .filter(e => (!filters.actorUid || e.actorUid === filters.actorUid) && (!filters.field || e.fields.includes(filters.field)) && matchesDates(e))
+      .sort(newestFirst)
+      .slice(0, AUDIT_PAGE_SIZE);
+  }
+  const constraints: QueryConstraint[] = [where("workspaceId", "==", getActiveWorkspaceId())];
+  if (filters.actorUid) constraints.push(where("actorUid", "==", filters.actorUid));
+  if (filters.field) constraints.push(where("fields", "array-contains", filters.field));
+  if (filters.from) constraints.push(where("at", ">=", Timestamp.fromDate(new Date(filters.from))));
+  if (filters.to) constraints.push(where("at", "<=", Timestamp.fromDate(new Date(filters.to))));
+  const snapshot = await getDocs(query(collectionGroup(db, AUDIT), ...constraints, orderBy("at", "desc"), limit(AUDIT_PAGE_SIZE)));
+  return toEntries(snapshot.docs);
+};
+
+// The account's fields as they were right after `entry`: every later change
+// is undone, oldest last. Credentials are masked in the log and cannot be
+// restored, so they are left out. `entries` must be newest first.
+export const versionUpdates = (account: UserAccount, entries: AuditEntry[], entry: AuditEntry): Partial<UserAccount> => {
+  const target: Record<string, unknown> = {};
+  for (const later of entries.slice(0, entries.indexOf(entry))) {
+    later.changes.forEach(c => { if (!c.masked) target[c.field] = c.before; });
+  }
+  // Trash state is managed from the trash, not by reverting.
+  delete target.isDeleted;
+  delete target.deletedAt;
+  delete target.deletedBy;
+  return Object.fromEntries(
+    Object.entries(target)
+      .filter(([field, value]) => !sameValue(account[field as keyof UserAccount], value))
+      .map(([field, value]) => [field, value ?? (typeof account[field as keyof UserAccount] === "boolean" ? false : "")])
+  ) as Partial<UserAccount>;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createBackup, planRestore, resolveRestore } from "./backup";
+import { UserAccount } from "../types";
+
+const account = (overrides: Partial<UserAccount>): UserAccount => ({
+  id: "a", username: "@brand", platform: "Instagram", followers: 1000, engagementRate: 2, status: "Active",
+  lastActive: "", bio: "", category: "", avatar: "", ...overrides
+});
+
+// Saved before phones had to be in international format.
+const legacy = account({ id: "legacy", username: "@legacy", phone: "555-0102" });
+
+describe("planRestore", () => {
+  it("accepts legacy values the live record already holds", () => {
+    const plan = planRestore(createBackup([{ ...legacy, followers: 2000 }], null), [legacy]);
+    expect(plan.rows[0]).toMatchObject({ status: "conflict", differingFields: ["followers"] });
+  });
+
+  it("reports records that fail validation and skips them", () => {
+    const backup = createBackup([legacy, account({ id: "fine", username: "@fine" })], null);
+    const plan = planRestore(backup, []);
+    expect(plan.rows.map(r => r.status)).toEqual(["invalid", "create"]);
+    expect(Object.keys(plan.rows[0].errors!)).toEqual(["phone"]);
+    expect(resolveRestore(plan, "replace", {}).writes.map(w => w.id)).toEqual(["fine"]);
+  });
+
+  it("keeps a live account whose backup copy is invalid, even when replacing", () => {
+    const live = account({ id: "legacy", username: "@legacy", phone: "+15550102030" });
+    const plan = planRestore(createBackup([legacy], null), [live]);
+    expect(plan.rows[0].status).toBe("invalid");
+    expect(resolveRestore(plan, "replace", {})).toEqual({ writes: [], deletes: [] });
+  });
+
+  it("passes the overwritten record along with each write", () => {
+    const live = account({ id: "x", followers: 1 });
+    const plan = planRestore(createBackup([account({ id: "x", followers: 2 })], null), [live]);
+    expect(resolveRestore(plan, "merge", { x: "backup" }).writes).toEqual([
+      { id: "x", data: expect.objectContaining({ followers: 2 }), current: live }
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { UserAccount } from "../types";
+import { toCsv } from "./csv";
+import { IMPORTABLE_FIELDS, accountKey } from "./importer";
+import { AccountErrors, normalizeAccountInput, validateAccount } from "./accountSchema";
+
+// Bump when the shape of UserAccount changes in a way old backups cannot
+// be restored as-is, and teach parseBackup how to upgrade the old format.
+export const BACKUP_SCHEMA_VERSION = 1;
+const BACKUP_FORMAT = "socialbase-backup";
+
+export interface AccountBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  exportedBy: string | null;
+  accountCount: number;
+  // Credentials are exported exactly as stored, i.e. still vault-encrypted.
+  accounts: UserAccount[];
+}
+
+export type ExportField = keyof UserAccount;
+
+export const EXPORT_FIELDS: { key: ExportField; label: string }[] = [
+  { key: "id", label: "ID" },
+  ...IMPORTABLE_FIELDS.map(({ key, label }) => ({ key, label })),
+  { key: "history", label: "History" }
+];
+
+export const DEFAULT_CSV_FIELDS: ExportField[] = [
+  "id", "username", "platform", "followers", "engagementRate", "status", "accountManager", "email", "country", "tags"
+];
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFileName = (prefix: string, extension: string) =>
+  `socialbase_${prefix}_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+export const createBackup = (accounts: UserAccount[], exportedBy: string | null): AccountBackup => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  exportedBy,
+  accountCount: accounts.length,
+  accounts
+});
+
+const formatCsvValue = (field: ExportField, value: unknown) => {
+  if (value === undefined || value === null) return "";
+  if (field === "tags" && Array.isArray(value)) return value.join("; ");
+  if (field === "history") return JSON.stringify(value);
+  return value;
+};
+
+// Headers are the UserAccount keys so the file round-trips through the import wizard.
+export const accountsToCsv = (accounts: UserAccount[], fields: ExportField[]): string =>
+  toCsv([fields, ...accounts.map(account => fields.map(field => formatCsvValue(field, account[field])))]);
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+export const parseBackup = (text: string): AccountBackup => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("The file is not valid JSON.");
+  }
+  if (parsed?.format !== BACKUP_FORMAT || typeof parsed.schemaVersion !== "number") {
+    throw new BackupFormatError("This is not a SocialBase backup file.");
+  }
+  if (parsed.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupFormatError(`Backup schema v${parsed.schemaVersion} is newer than this app supports (v${BACKUP_SCHEMA_VERSION}).`);
+  }
+  if (!Array.isArray(parsed.accounts)) throw new BackupFormatError("Backup does not contain an accounts array.");
+
+  const invalid = parsed.accounts.findIndex((a: any) => !a || typeof a.id !== "string" || !a.username || !a.platform);
+  if (invalid !== -1) throw new BackupFormatError(`Account #${invalid + 1} is missing id, username or platform.`);
+  return parsed as AccountBackup;
+};
+
+export type RestoreMode = "merge" | "replace";
+export type RestoreRowStatus = "create" | "unchanged" | "conflict" | "invalid";
+
+export interface RestoreRow {
+  record: UserAccount;
+  status: RestoreRowStatus;
+  // Set when the record collides with a live document, either by id or by
+  // platform + username under a different id.
+  existing?: UserAccount;
+  differingFields: ExportField[];
+  // Why an invalid record cannot be restored; it is skipped and any live
+  // account it matches is left alone.
+  errors?: AccountErrors;
+}
+
+export interface RestorePlan {
+  rows: RestoreRow[];
+  // Live accounts absent from the backup; deleted in replace mode.
+  orphans: UserAccount[];
+}
+
+const differingFields = (a: UserAccount, b: UserAccount): ExportField[] =>
+  EXPORT_FIELDS.map(f => f.key).filter(key => key !== "id" && JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null));
+
+export const planRestore = (backup: AccountBackup, existing: UserAccount[]): RestorePlan => {
+  const byId = new Map(existing.map(a => [a.id, a]));
+  const byKey = new Map(existing.map(a => [accountKey(a), a]));
+  const matched = new Set<string>();
+
+  const rows = backup.accounts.map((record): RestoreRow => {
+    const live = byId.get(record.id) ?? byKey.get(accountKey(record));
+    if (live) matched.add(live.id);
+    const fields = live ? differingFields(record, live) : [];
+    if (live && live.id === record.id && fields.length === 0) return { record, status: "unchanged", existing: live, differingFields: [] };
+    // Checked as the restore will write it: values the live record already
+    // holds are not re-checked, so older backups still restore.
+    const { id, ...data } = record;
+    const errors = validateAccount(normalizeAccountInput(data), { previous: live });
+    if (Object.keys(errors).length) return { record, status: "invalid", existing: live, differingFields: fields, errors };
+    if (!live) return { record, status: "create", differingFields: [] };
+    return { record, status: "conflict", existing: live, differingFields: fields };
+  });
+
+  return { rows, orphans: existing.filter(a => !matched.has(a.id)) };
+};
+
+export type ConflictResolution = "keep" | "backup";
+
+export interface RestoreWrites {
+  // `current` is the live record a write overwrites.
+  writes: { id: string; data: Omit<UserAccount, "id">; current?: UserAccount }[];
+  deletes: string[];
+}
+
+// Merge keeps every live account and only writes the conflicts the user
+// resolved in favour of the backup. Replace makes the collection an exact
+// copy of the backup.
+export const resolveRestore = (
+  plan: RestorePlan,
+  mode: RestoreMode,
+  resolutions: Record<string, ConflictResolution>
+): RestoreWrites => {
+  const writes: RestoreWrites["writes"] = [];
+  const deletes: string[] = [];
+
+  plan.rows.forEach(row => {
+    const { id, ...data } = row.record;
+    if (row.status === "create") {
+      writes.push({ id, data });
+    } else if (row.status === "conflict") {
+      const useBackup = mode === "replace" || resolutions[id] === "backup";
+      if (!useBackup) return;
+      writes.push({ id: row.existing!.id, data, current: row.existing });
+    }
+  });
+
+  if (mode === "replace") deletes.push(...plan.orphans.map(a => a.id));
+  return { writes, deletes };
+};
@@ -0,0 +1,37 @@
+import { writeBatch, WriteBatch } from "firebase/firestore";
+import { db } from "./firebase";
+
+// Firestore rejects batches with more than 500 operations.
+export const FIRESTORE_BATCH_LIMIT = 500;
+
+// Each operation must add exactly one write to the batch.
+export type BatchOperation = (batch: WriteBatch) => void;
+
+// Commits the operations in sequential batches that each stay under the
+// Firestore limit. Operations grouped in an array always land in the same
+// batch, for writes the security rules check together (e.g. an account and
+// its audit entry). Reports the number of committed operations after each batch.
+export const commitInChunks = async (
+  operations: (BatchOperation | BatchOperation[])[],
+  onProgress?: (committed: number, total: number) => void
+): Promise<void> => {
+  const groups = operations.map(op => Array.isArray(op) ? op : [op]);
+  const total = groups.reduce((sum, group) => sum + group.length, 0);
+  let committed = 0;
+  let chunk: BatchOperation[] = [];
+
+  const commit = async () => {
+    const batch = writeBatch(db);
+    chunk.forEach(op => op(batch));
+    await batch.commit();
+    committed += chunk.length;
+    chunk = [];
+    onProgress?.(committed, total);
+  };
+
+  for (const group of groups) {
+    if (chunk.length && chunk.length + group.length > FIRESTORE_BATCH_LIMIT) await commit();
+    chunk.push(...group);
+  }
+  if (chunk.length) await commit();
+};
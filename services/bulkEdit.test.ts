@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { bulkEditUpdates, previewBulkEdit, validateBulkEdit } from "./bulkEdit";
+import { UserAccount } from "../types";
+
+const account = (id: string, overrides: Partial<UserAccount> = {}): UserAccount => ({
+  id, username: `@${id}`, platform: "Instagram", followers: 0, engagementRate: 0, status: "Active",
+  lastActive: "", bio: "", category: "", avatar: "", ...overrides
+});
+
+describe("validateBulkEdit", () => {
+  it("asks for a value unless the operation clears", () => {
+    expect(validateBulkEdit([
+      { field: "category", mode: "set", value: " " },
+      { field: "tags", mode: "append", value: ", #" },
+      { field: "country", mode: "clear" },
+      { field: "isFavorite", mode: "set", value: false }
+    ])).toEqual(['Category: enter a value or choose "clear".', 'Tags: enter a value or choose "clear".']);
+  });
+});
+
+describe("previewBulkEdit", () => {
+  const accounts = [account("a", { tags: ["x"], accountManager: "Alex" }), account("b", { tags: ["y"] })];
+
+  it("appends only missing tags and leaves unchanged accounts out", () => {
+    const preview = previewBulkEdit(accounts, [{ field: "tags", mode: "append", value: "#x, z" }]);
+    expect(preview.map(p => [p.account.id, p.changes[0].after])).toEqual([["a", ["x", "z"]], ["b", ["y", "x", "z"]]]);
+    expect(previewBulkEdit(accounts, [{ field: "tags", mode: "append", value: "x" }]).map(p => p.account.id)).toEqual(["b"]);
+  });
+
+  it("clears text fields to an empty string", () => {
+    const preview = previewBulkEdit(accounts, [{ field: "accountManager", mode: "clear" }]);
+    expect(preview).toEqual([{ account: accounts[0], changes: [{ field: "accountManager", before: "Alex", after: "" }] }]);
+  });
+});
+
+describe("bulkEditUpdates", () => {
+  it("writes the changed fields and a history entry", () => {
+    const [preview] = previewBulkEdit([account("a", { status: "Active" })], [{ field: "status", mode: "set", value: "Verified" }, { field: "country", mode: "set", value: "US" }]);
+    const updates = bulkEditUpdates(preview);
+    expect(updates).toMatchObject({ status: "Verified", country: "US" });
+    expect(updates.history).toEqual([expect.objectContaining({ action: "Bulk Edit", details: "status: Active → Verified; country: none → US" })]);
+  });
+});
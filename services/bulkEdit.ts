@@ -0,0 +1,89 @@
+import { ActivityLog, UserAccount } from "../types";
+
+// Field edits applied to a whole selection at once. Each account gets its
+// own update (appending tags depends on what it already has) and a history
+// entry listing what changed.
+export type BulkEditField = "status" | "accountManager" | "category" | "country" | "targetAudience" | "tags" | "isFavorite";
+export type BulkEditMode = "set" | "clear" | "append";
+
+export interface BulkEditOperation {
+  field: BulkEditField;
+  mode: BulkEditMode;
+  // set: the new value. append: tags to add.
+  value?: string | string[] | boolean;
+}
+
+export const BULK_EDIT_FIELDS: { field: BulkEditField; label: string; modes: BulkEditMode[] }[] = [
+  { field: "status", label: "Status", modes: ["set"] },
+  { field: "accountManager", label: "Custodian", modes: ["set", "clear"] },
+  { field: "category", label: "Category", modes: ["set", "clear"] },
+  { field: "country", label: "Country", modes: ["set", "clear"] },
+  { field: "targetAudience", label: "Audience", modes: ["set", "clear"] },
+  { field: "tags", label: "Tags", modes: ["set", "append", "clear"] },
+  { field: "isFavorite", label: "Favorite", modes: ["set"] }
+];
+
+export interface BulkEditChange {
+  field: BulkEditField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface BulkEditPreview {
+  account: UserAccount;
+  changes: BulkEditChange[];
+}
+
+const parseTags = (value: BulkEditOperation["value"]): string[] =>
+  (Array.isArray(value) ? value : String(value ?? "").split(","))
+    .map(t => t.trim().replace(/^#/, ""))
+    .filter(Boolean);
+
+// Cleared text fields are written as "" rather than removed, so that
+// accountManager stays queryable.
+const nextValue = (account: UserAccount, op: BulkEditOperation): unknown => {
+  if (op.field === "tags") {
+    if (op.mode === "clear") return [];
+    const tags = parseTags(op.value);
+    return op.mode === "append" ? [...(account.tags ?? []), ...tags.filter(t => !account.tags?.includes(t))] : tags;
+  }
+  if (op.field === "isFavorite") return op.mode === "clear" ? false : !!op.value;
+  return op.mode === "clear" ? "" : String(op.value ?? "").trim();
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? "") === JSON.stringify(b ?? "");
+
+// Lists operations that are missing a value; the edit cannot be previewed until it is empty.
+export const validateBulkEdit = (operations: BulkEditOperation[]): string[] =>
+  operations.flatMap(op => {
+    if (op.mode === "clear" || op.field === "isFavorite") return [];
+    if (op.field === "tags" ? parseTags(op.value).length === 0 : !String(op.value ?? "").trim()) {
+      const label = BULK_EDIT_FIELDS.find(f => f.field === op.field)!.label;
+      return [`${label}: enter a value or choose "clear".`];
+    }
+    return [];
+  });
+
+// Accounts the operations would leave as they are are left out.
+export const previewBulkEdit = (accounts: UserAccount[], operations: BulkEditOperation[]): BulkEditPreview[] =>
+  accounts.flatMap(account => {
+    const changes = operations
+      .map(op => ({ field: op.field, before: account[op.field], after: nextValue(account, op) }))
+      .filter(c => !sameValue(c.before, c.after));
+    return changes.length ? [{ account, changes }] : [];
+  });
+
+const formatValue = (value: unknown) =>
+  Array.isArray(value) ? value.join(", ") || "none" : value === "" || value === undefined ? "none" : String(value);
+
+export const bulkEditUpdates = (preview: BulkEditPreview): Partial<UserAccount> => {
+  const entry: ActivityLog = {
+    date: new Date().toISOString(),
+    action: "Bulk Edit",
+    details: preview.changes.map(c => `${c.field}: ${formatValue(c.before)} → ${formatValue(c.after)}`).join("; ")
+  };
+  return {
+    ...Object.fromEntries(preview.changes.map(c => [c.field, c.after])),
+    history: [...(preview.account.history || []), entry]
+  };
+};
@@ -0,0 +1,14 @@
+// Build-time configuration, injected by vite.config.ts from .env.local.
+
+export type DataBackend = "firestore" | "memory" | "local";
+
+const BACKENDS: DataBackend[] = ["firestore", "memory", "local"];
+
+// "memory" keeps accounts in the tab only; "local" also persists them to
+// localStorage. Both start from the seeded demo dataset and need no Firebase
+// project or sign-in.
+export const DATA_BACKEND: DataBackend = BACKENDS.includes(process.env.DATA_BACKEND as DataBackend)
+  ? process.env.DATA_BACKEND as DataBackend
+  : "firestore";
+
+export const isFirestoreBackend = () => DATA_BACKEND === "firestore";
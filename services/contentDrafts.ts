@@ -0,0 +1,150 @@
+import { deleteDoc, doc, getDocs, onSnapshot, setDoc, Unsubscribe, updateDoc } from "firebase/firestore";
+import { BatchOperation } from "./batchWriter";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { getActiveWorkspaceId, workspaceCollection } from "./workspaces";
+import { ContentDraft, ContentDraftKind, ContentDraftVersion, UserProfile } from "../types";
+
+// Bios and post ideas from the content studio, kept per account in
+// accounts/{id}/drafts. Every save adds a version rather than overwriting.
+const DRAFTS = "drafts";
+const LOCAL_DRAFTS_KEY = "socialbase.drafts";
+
+export const DRAFT_VERSION_LIMIT = 20;
+
+export interface TonePreset {
+  id: string;
+  label: string;
+  // Sent to the model as the style to write in.
+  description: string;
+}
+
+export const TONE_PRESETS: TonePreset[] = [
+  { id: "professional", label: "Professional", description: "polished, credible and concise; no slang" },
+  { id: "friendly", label: "Friendly", description: "warm, conversational and approachable" },
+  { id: "playful", label: "Playful", description: "witty and light-hearted, with tasteful emoji" },
+  { id: "bold", label: "Bold", description: "confident, punchy and provocative" },
+  { id: "inspiring", label: "Inspiring", description: "uplifting and motivational" },
+  { id: "educational", label: "Educational", description: "clear and informative, leading with useful facts" }
+];
+
+export const toneFor = (id: string): TonePreset => TONE_PRESETS.find(t => t.id === id) ?? TONE_PRESETS[0];
+
+export const currentText = (draft: ContentDraft) => draft.versions[draft.versions.length - 1]?.text ?? "";
+
+const versionFor = (text: string, profile: UserProfile | null, model?: string): ContentDraftVersion => ({
+  text,
+  date: new Date().toISOString(),
+  author: profile?.displayName || profile?.email || "",
+  // Firestore rejects undefined fields.
+  ...(model ? { model } : {})
+});
+
+const byNewest = (a: ContentDraft, b: ContentDraft) => b.createdAt.localeCompare(a.createdAt);
+
+// The local backends keep drafts in the tab ("memory") or in localStorage
+// ("local"), and notify subscribers in the same tab directly.
+const memoryDrafts = new Map<string, ContentDraft[]>();
+const localListeners = new Set<() => void>();
+
+const localKey = () => `${LOCAL_DRAFTS_KEY}:${getActiveWorkspaceId()}`;
+
+const loadLocalDrafts = (): ContentDraft[] => {
+  if (DATA_BACKEND === "memory") return memoryDrafts.get(localKey()) ?? [];
+  try {
+    return JSON.parse(localStorage.getItem(localKey()) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const saveLocalDrafts = (drafts: ContentDraft[]) => {
+  if (DATA_BACKEND === "memory") memoryDrafts.set(localKey(), drafts);
+  else localStorage.setItem(localKey(), JSON.stringify(drafts));
+  localListeners.forEach(listener => listener());
+};
+
+const draftRef = (accountId: string, id: string) => doc(workspaceCollection("accounts", accountId, DRAFTS), id);
+
+const updateDraft = async (draft: ContentDraft, changes: Partial<ContentDraft>): Promise<void> => {
+  if (!isFirestoreBackend()) {
+    saveLocalDrafts(loadLocalDrafts().map(d => d.id === draft.id ? { ...d, ...changes } : d));
+    return;
+  }
+  await updateDoc(draftRef(draft.accountId, draft.id), changes);
+};
+
+// Calls onChange with the account's drafts, newest first.
+export const subscribeToDrafts = (
+  accountId: string,
+  onChange: (drafts: ContentDraft[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  if (!isFirestoreBackend()) {
+    const emit = () => onChange(loadLocalDrafts().filter(d => d.accountId === accountId).sort(byNewest));
+    localListeners.add(emit);
+    emit();
+    return () => { localListeners.delete(emit); };
+  }
+  return onSnapshot(workspaceCollection("accounts", accountId, DRAFTS), snapshot => {
+    onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ContentDraft)).sort(byNewest));
+  }, onError);
+};
+
+export const createDraft = async (
+  profile: UserProfile | null,
+  draft: { accountId: string; kind: ContentDraftKind; tone: string; title?: string },
+  text: string,
+  model?: string
+): Promise<ContentDraft> => {
+  const now = new Date().toISOString();
+  const data: Omit<ContentDraft, "id"> = {
+    accountId: draft.accountId,
+    kind: draft.kind,
+    tone: draft.tone,
+    ...(draft.title ? { title: draft.title } : {}),
+    versions: [versionFor(text, profile, model)],
+    createdAt: now,
+    updatedAt: now
+  };
+  if (!isFirestoreBackend()) {
+    const created = { id: crypto.randomUUID(), ...data };
+    saveLocalDrafts([...loadLocalDrafts(), created]);
+    return created;
+  }
+  const ref = doc(workspaceCollection("accounts", draft.accountId, DRAFTS));
+  await setDoc(ref, data);
+  return { id: ref.id, ...data };
+};
+
+// Saves edited text as a new version; the oldest versions beyond the limit are dropped.
+export const reviseDraft = (draft: ContentDraft, text: string, profile: UserProfile | null): Promise<void> => {
+  if (text === currentText(draft)) return Promise.resolve();
+  const versions = [...draft.versions, versionFor(text, profile)].slice(-DRAFT_VERSION_LIMIT);
+  return updateDraft(draft, { versions, updatedAt: new Date().toISOString() });
+};
+
+export const markDraftAccepted = (draft: ContentDraft): Promise<void> => {
+  const now = new Date().toISOString();
+  return updateDraft(draft, { acceptedAt: now, updatedAt: now });
+};
+
+export const deleteDraft = async (draft: ContentDraft): Promise<void> => {
+  if (!isFirestoreBackend()) {
+    saveLocalDrafts(loadLocalDrafts().filter(d => d.id !== draft.id));
+    return;
+  }
+  await deleteDoc(draftRef(draft.accountId, draft.id));
+};
+
+// Purging an account takes its drafts with it. The Firestore repository adds
+// these deletes to the purge's batch; the local ones call deleteLocalDrafts.
+export const draftDeleteOperations = async (accountId: string): Promise<BatchOperation[]> => {
+  const snapshot = await getDocs(workspaceCollection("accounts", accountId, DRAFTS));
+  return snapshot.docs.map(d => batch => batch.delete(d.ref));
+};
+
+export const deleteLocalDrafts = (accountIds: string[]) => {
+  const drafts = loadLocalDrafts();
+  const kept = drafts.filter(d => !accountIds.includes(d.accountId));
+  if (kept.length < drafts.length) saveLocalDrafts(kept);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvField, parseCsv, parseCsvRecords, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes and embedded newlines", () => {
+    expect(parseCsv('a,"b, c","say ""hi""","line\nbreak"\n')).toEqual([["a", "b, c", 'say "hi"', "line\nbreak"]]);
+  });
+
+  it("accepts CRLF, a byte order mark and a missing final newline", () => {
+    expect(parseCsv("﻿a,b\r\n1,2")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("keeps empty fields and drops blank lines", () => {
+    expect(parseCsv("a,,c\n\n , \n")).toEqual([["a", "", "c"]]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  it("keys rows by trimmed header and fills missing cells", () => {
+    expect(parseCsvRecords(" name ,followers\n@a,10\n@b\n")).toEqual({
+      columns: ["name", "followers"],
+      records: [{ name: "@a", followers: "10" }, { name: "@b", followers: "" }]
+    });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only what needs quoting", () => {
+    expect(escapeCsvField("plain")).toBe("plain");
+    expect(escapeCsvField('a "b", c')).toBe('"a ""b"", c"');
+    expect(escapeCsvField(null)).toBe("");
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [["handle", "bio"], ["@a", 'multi\nline, "quoted"']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
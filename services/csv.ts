@@ -0,0 +1,69 @@
+// Minimal RFC 4180 CSV reader: quoted fields, escaped quotes ("") and
+// embedded newlines are supported. Comma is the only delimiter.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+};
+
+// Parses a CSV with a header row into objects keyed by header name.
+export const parseCsvRecords = (text: string): { columns: string[]; records: Record<string, string>[] } => {
+  const [header = [], ...body] = parseCsv(text);
+  const columns = header.map(h => h.trim());
+  const records = body.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => { record[column] = cells[i] ?? ""; });
+    return record;
+  });
+  return { columns, records };
+};
+
+// Quotes a field when it contains a delimiter, quote or line break, per RFC 4180.
+export const escapeCsvField = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { defaultMergeChoices, findDuplicateGroups, findDuplicatesOf, mergeUpdates, normalizeName, normalizePhone } from "./duplicates";
+import { UserAccount } from "../types";
+
+const account = (id: string, overrides: Partial<UserAccount> = {}): UserAccount => ({
+  id, username: `@${id}`, platform: "Instagram", followers: 0, engagementRate: 0, status: "Active",
+  lastActive: "", bio: "", category: "", avatar: "", ...overrides
+});
+
+describe("normalizers", () => {
+  it("compare phones on their last ten digits", () => {
+    expect(normalizePhone("+1 (555) 010-2030")).toBe(normalizePhone("555 010 2030"));
+    expect(normalizePhone("12-34")).toBe("");
+  });
+
+  it("compare names regardless of order, case and accents", () => {
+    expect(normalizeName("Smith, Jösé")).toBe(normalizeName("jose smith"));
+  });
+});
+
+describe("findDuplicatesOf", () => {
+  const accounts = [
+    account("a", { username: "@Brand", email: "team@brand.co" }),
+    account("b", { phone: "+44 20 7946 0000", realName: "Jane Smith" }),
+    account("gone", { username: "@brand", isDeleted: true })
+  ];
+
+  it("matches handle, email and phone but ignores deleted accounts and itself", () => {
+    const matches = findDuplicatesOf({ id: "new", username: "@brand", platform: "Instagram", email: "TEAM@brand.co" }, accounts);
+    expect(matches).toEqual([{ account: accounts[0], reasons: ["handle", "email"] }]);
+    expect(findDuplicatesOf(accounts[0], accounts)).toEqual([]);
+  });
+
+  it("does not warn on a similar name alone", () => {
+    expect(findDuplicatesOf({ realName: "Jane Smyth" }, accounts)).toEqual([]);
+    expect(findDuplicatesOf({ realName: "Jane Smyth", phone: "020 7946 0000" }, accounts)[0].reasons).toEqual(["phone", "realName"]);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("links accounts transitively and skips archived ones", () => {
+    const groups = findDuplicateGroups([
+      account("a", { email: "x@y.co" }),
+      account("b", { email: "X@y.co", phone: "5550102030" }),
+      account("c", { phone: "+1 555 010 2030" }),
+      account("d", { realName: "Jane Smith" }),
+      account("e", { realName: "Smith Jane" }),
+      account("f", { email: "x@y.co", isArchived: true }),
+      account("g")
+    ]);
+    expect(groups.map(g => g.accounts.map(a => a.id))).toEqual([["a", "b", "c"], ["d", "e"]]);
+    expect(groups[0].reasons.sort()).toEqual(["email", "phone"]);
+    expect(groups[1].reasons).toEqual(["realName"]);
+  });
+});
+
+describe("mergeUpdates", () => {
+  it("fills blanks from the others, combines tags and notes, and archives the rest", () => {
+    const keep = account("keep", { tags: ["a"], notes: "Main", history: [{ date: "2024-02-01", action: "Created" }] });
+    const other = account("other", { email: "o@x.co", tags: ["a", "b"], notes: "Old", history: [{ date: "2024-01-01", action: "Created" }] });
+    const updates = mergeUpdates(keep, [other], defaultMergeChoices(keep, [other]));
+
+    expect(updates.keep).toMatchObject({ email: "o@x.co", tags: ["a", "b"], notes: "Main\n\nFrom @other (Instagram):\nOld" });
+    expect(updates.keep.history!.map(h => h.date)).toEqual(["2024-01-01", "2024-02-01", expect.any(String)]);
+    expect(updates.other).toMatchObject({ isArchived: true });
+    expect(updates.other.history!.at(-1)!.details).toBe("Merged into @keep and archived");
+  });
+});
@@ -0,0 +1,218 @@
+import { accountKey } from "./importer";
+import { ActivityLog, UserAccount } from "../types";
+
+// Likely duplicates are accounts that share a handle on the same platform,
+// an email or a phone number once normalized, or whose real names are
+// nearly identical. Deleted accounts are never considered.
+export type DuplicateReason = "handle" | "email" | "phone" | "realName";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  handle: "Same handle",
+  email: "Same email",
+  phone: "Same phone",
+  realName: "Similar name"
+};
+
+export interface DuplicateMatch {
+  account: UserAccount;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateGroup {
+  accounts: UserAccount[];
+  reasons: DuplicateReason[];
+}
+
+// Names at least this similar (1 = identical) count as the same person.
+const NAME_SIMILARITY = 0.85;
+// Shorter phone numbers are too likely to collide.
+const MIN_PHONE_DIGITS = 7;
+
+export const normalizeEmail = (value?: string) => (value ?? "").trim().toLowerCase();
+
+// Compares the last ten digits, so "+1 (555) 010-2030" matches "555 010 2030".
+export const normalizePhone = (value?: string) => {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-10) : "";
+};
+
+// Lowercase, without accents or punctuation, with the words sorted so
+// "Smith, Jane" and "jane smith" compare equal.
+export const normalizeName = (value?: string) =>
+  (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+
+// The exact keys an account can share with another: its handle on its
+// platform, email and phone, each prefixed with its reason. Accounts store
+// them as duplicateKeys so the backend can look up likely duplicates.
+export const duplicateKeys = (account: Partial<UserAccount>): string[] => {
+  const keys: [DuplicateReason, string][] = [
+    ["handle", account.username && account.platform ? accountKey(account as UserAccount) : ""],
+    ["email", normalizeEmail(account.email)],
+    ["phone", normalizePhone(account.phone)]
+  ];
+  return keys.filter(([, key]) => key).map(([reason, key]) => `${reason}:${key}`);
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarNames = (a: string, b: string) =>
+  !!a && !!b && (a === b || 1 - editDistance(a, b) / Math.max(a.length, b.length) >= NAME_SIMILARITY);
+
+const reasonsBetween = (a: Partial<UserAccount>, b: UserAccount): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+  if (a.username && a.platform && accountKey(a as UserAccount) === accountKey(b)) reasons.push("handle");
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) reasons.push("email");
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) reasons.push("phone");
+  if (similarNames(normalizeName(a.realName), normalizeName(b.realName))) reasons.push("realName");
+  return reasons;
+};
+
+// Existing accounts that look like the one being added or edited. A similar
+// name alone is too weak to warn about.
+export const findDuplicatesOf = (candidate: Partial<UserAccount>, accounts: UserAccount[]): DuplicateMatch[] =>
+  accounts.flatMap(account => {
+    if (account.id === candidate.id || account.isDeleted) return [];
+    const reasons = reasonsBetween(candidate, account);
+    return reasons.some(r => r !== "realName") ? [{ account, reasons }] : [];
+  });
+
+// Groups the live, unarchived accounts that are linked by any reason,
+// directly or through another account in the group. Exact keys are bucketed;
+// names are only compared within buckets sharing their first two letters.
+export const findDuplicateGroups = (accounts: UserAccount[]): DuplicateGroup[] => {
+  const live = accounts.filter(a => !a.isDeleted && !a.isArchived);
+  const parent = live.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  const link = (i: number, j: number, reason: DuplicateReason) => {
+    const [a, b] = [root(i), root(j)];
+    const merged = new Set([...(reasons.get(a) ?? []), ...(reasons.get(b) ?? []), reason]);
+    parent[b] = a;
+    reasons.set(a, merged);
+  };
+
+  const buckets = new Map<string, number[]>();
+  live.forEach((account, i) => {
+    duplicateKeys(account).forEach(key => buckets.set(key, [...(buckets.get(key) ?? []), i]));
+  });
+  buckets.forEach((members, key) => {
+    const reason = key.slice(0, key.indexOf(":")) as DuplicateReason;
+    members.slice(1).forEach(i => link(members[0], i, reason));
+  });
+
+  const names = live.map(a => normalizeName(a.realName));
+  const nameBuckets = new Map<string, number[]>();
+  names.forEach((name, i) => {
+    if (name) nameBuckets.set(name.slice(0, 2), [...(nameBuckets.get(name.slice(0, 2)) ?? []), i]);
+  });
+  nameBuckets.forEach(members => {
+    members.forEach((i, n) => members.slice(n + 1).forEach(j => {
+      if (root(i) !== root(j) && similarNames(names[i], names[j])) link(i, j, "realName");
+    }));
+  });
+
+  const groups = new Map<number, UserAccount[]>();
+  live.forEach((account, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), account]));
+  return Array.from(groups, ([r, members]) => ({ accounts: members, reasons: Array.from(reasons.get(r) ?? []) }))
+    .filter(g => g.accounts.length > 1)
+    .sort((a, b) => b.accounts.length - a.accounts.length);
+};
+
+// Fields whose value is picked from one of the records. Tags, notes and
+// history are combined from all of them instead.
+export type MergeField = Exclude<keyof UserAccount, "id" | "tags" | "notes" | "history" | "isArchived" | "isDeleted" | "deletedAt" | "deletedBy">;
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: "username", label: "Handle" },
+  { field: "platform", label: "Network" },
+  { field: "realName", label: "Real name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "website", label: "Website" },
+  { field: "accountManager", label: "Custodian" },
+  { field: "status", label: "Status" },
+  { field: "followers", label: "Reach" },
+  { field: "engagementRate", label: "Engagement" },
+  { field: "category", label: "Category" },
+  { field: "country", label: "Country" },
+  { field: "targetAudience", label: "Audience" },
+  { field: "bio", label: "Bio" },
+  { field: "avatar", label: "Avatar" },
+  { field: "creationDate", label: "Created" },
+  { field: "lastActive", label: "Last active" },
+  { field: "lastPostedDate", label: "Last posted" },
+  { field: "isFavorite", label: "Favorite" },
+  { field: "password", label: "Password" },
+  { field: "twoFactorSecret", label: "2FA secret" }
+];
+
+// Which record each field is taken from, by account id.
+export type MergeChoices = Record<MergeField, string>;
+
+// Starts from the kept record, filling its blanks from the others in order.
+export const defaultMergeChoices = (keep: UserAccount, others: UserAccount[]): MergeChoices =>
+  Object.fromEntries(MERGE_FIELDS.map(({ field }) => {
+    const isBlank = (a: UserAccount) => a[field] === undefined || a[field] === null || a[field] === "";
+    const source = isBlank(keep) ? others.find(a => !isBlank(a)) ?? keep : keep;
+    return [field, source.id];
+  })) as MergeChoices;
+
+// The updates for every record: the kept one takes the chosen values and
+// the combined tags, notes and history; the others are archived with a
+// note pointing at it.
+export const mergeUpdates = (
+  keep: UserAccount,
+  others: UserAccount[],
+  choices: MergeChoices
+): Record<string, Partial<UserAccount>> => {
+  const all = [keep, ...others];
+  const byId = new Map(all.map(a => [a.id, a]));
+  const now = new Date().toISOString();
+  // Only fields that change are written; a picked blank clears the kept value.
+  const picked = Object.fromEntries(
+    MERGE_FIELDS.flatMap(({ field }) => {
+      const value = (byId.get(choices[field]) ?? keep)[field];
+      if (value === keep[field]) return [];
+      return [[field, value ?? (field === "isFavorite" ? false : "")]];
+    })
+  ) as Partial<UserAccount>;
+
+  const tags = Array.from(new Set(all.flatMap(a => a.tags ?? [])));
+  const notes = all
+    .filter(a => a.notes?.trim())
+    .map(a => (a.id === keep.id ? a.notes!.trim() : `From ${a.username} (${a.platform}):\n${a.notes!.trim()}`))
+    .join("\n\n");
+  const mergedEntry: ActivityLog = { date: now, action: "Merged", details: `Merged ${others.map(a => a.username).join(", ")} into this record` };
+  const history = [...all.flatMap(a => a.history ?? [])]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .concat(mergedEntry);
+
+  const handle = picked.username || keep.username;
+  return {
+    [keep.id]: { ...picked, tags, notes, history },
+    ...Object.fromEntries(others.map(a => [a.id, {
+      isArchived: true,
+      history: [...(a.history ?? []), { date: now, action: "Merged", details: `Merged into ${handle} and archived` }]
+    }]))
+  };
+};
@@ -1,6 +1,8 @@
 import { initializeApp, getApps } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import {
+  connectFirestoreEmulator, getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager
+} from "firebase/firestore";
 
 // Firebase configuration
 const firebaseConfig = {
@@ -21,7 +23,25 @@ try {
   // Prevent duplicate initialization
   app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
   auth = getAuth(app);
-  db = getFirestore(app);
+  // Cache documents and queue writes in IndexedDB so the app keeps working
+  // offline. initializeFirestore may only run once per app (e.g. across HMR).
+  try {
+    db = initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+    });
+  } catch {
+    db = getFirestore(app);
+  }
+
+  // Set FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST (e.g. in .env.local)
+  // to run against `firebase emulators:start` instead of production.
+  if (process.env.FIRESTORE_EMULATOR_HOST) {
+    const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(":");
+    connectFirestoreEmulator(db, host, Number(port));
+  }
+  if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+    connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+  }
 } catch (error) {
   console.error("Firebase initialization failed:", error);
 }
@@ -0,0 +1,288 @@
+import {
+  collectionGroup, documentId, DocumentSnapshot, getCountFromServer, getDoc, getDocFromServer, getDocs, limit, onSnapshot, orderBy,
+  query, QueryConstraint, QuerySnapshot, setDoc, startAfter, where
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { BatchOperation, commitInChunks } from "./batchWriter";
+import {
+  accountRef, accountsCollection, createAccountOperations, credentialsRef, CREDENTIALS_DOC, deleteAccountOperations,
+  hasInlineCredentials, hasStaleQueryKeys, newAccountId, SECRETS, setAccountOperations, sortFieldFor, updateAccountOperations
+} from "./accountWrites";
+import {
+  AccountFilters, AccountPage, AccountPageRequest, AccountRepository, AccountWrite, credentialMigrationWrites, queryFieldBackfillWrites,
+  ReadOptions, withQueryFieldDefaults
+} from "./accountRepository";
+import { addAuditEntryToBatch, auditEntryFor } from "./auditLog";
+import { draftDeleteOperations } from "./contentDrafts";
+import { duplicateKeys } from "./duplicates";
+import { normalizeStoredAccount, validatedWrite } from "./accountSchema";
+import { reassignSnapshotOperations } from "./snapshots";
+import { can } from "./roles";
+import { getActiveWorkspaceId, listMembers, workspaceDoc } from "./workspaces";
+import { CredentialField } from "./vault";
+import { UserAccount, UserProfile } from "../types";
+
+type Credentials = Partial<Pick<UserAccount, CredentialField>>;
+type RawAccount = { id: string; data: Record<string, any> };
+
+// Firestore allows at most 30 values in an "in" or "array-contains-any" filter.
+const QUERY_VALUES_LIMIT = 30;
+
+// Bump when accounts gain a query field or key, so the next admin session
+// backfills the workspace again (see backfillQueryFields).
+const QUERY_FIELDS_VERSION = 1;
+
+const chunked = <T>(values: T[]): T[][] =>
+  Array.from({ length: Math.ceil(values.length / QUERY_VALUES_LIMIT) }, (_, i) => values.slice(i * QUERY_VALUES_LIMIT, (i + 1) * QUERY_VALUES_LIMIT));
+
+const toRaw = (snapshot: QuerySnapshot): RawAccount[] => snapshot.docs.map(d => ({ id: d.id, data: d.data() }));
+
+const operationsFor = async (write: AccountWrite, writeId?: string): Promise<BatchOperation[]> => {
+  switch (write.type) {
+    case "create": return createAccountOperations(withQueryFieldDefaults(write.data), write.id, writeId);
+    case "update": return updateAccountOperations(write.id, write.updates, write.current, writeId);
+    case "set": return setAccountOperations(write.id, withQueryFieldDefaults(write.data), writeId);
+    case "delete": return [...await draftDeleteOperations(write.id), ...deleteAccountOperations(write.id)];
+  }
+};
+
+// The manager a write leaves the account with, when it may differ from before.
+const reassignedManager = (write: AccountWrite): string | null => {
+  if (write.type === "set") return write.data.accountManager || "";
+  if (write.type !== "update" || !("accountManager" in write.updates)) return null;
+  const accountManager = write.updates.accountManager || "";
+  return write.current && accountManager === (write.current.accountManager || "") ? null : accountManager;
+};
+
+export const createFirestoreAccountRepository = (profile: UserProfile): AccountRepository => {
+  const canReveal = can(profile, "credentials:reveal");
+
+  // Managers may only list their own accounts; the rules reject an unscoped query.
+  const scoped = (...constraints: QueryConstraint[]) => profile.role === "manager"
+    ? query(accountsCollection(), where("accountManager", "==", profile.managerName), ...constraints)
+    : query(accountsCollection(), ...constraints);
+
+  // Every combination of these filters with each sort order is covered by
+  // the composite indexes in firestore.indexes.json. Returns null when the
+  // filters cannot match anything the profile may read.
+  const filterConstraints = (filters: AccountFilters): QueryConstraint[] | null => {
+    const constraints = [where("isDeleted", "==", !!filters.deleted)];
+    if (!filters.deleted) constraints.push(where("isArchived", "==", filters.archived));
+    else if (filters.deletedBefore) constraints.push(where("deletedAt", "<", filters.deletedBefore));
+    if (profile.role === "manager") {
+      if (filters.accountManager !== undefined && filters.accountManager !== profile.managerName) return null;
+      constraints.push(where("accountManager", "==", profile.managerName));
+    } else if (filters.accountManager !== undefined) {
+      constraints.push(where("accountManager", "==", filters.accountManager));
+    }
+    if (filters.platform) constraints.push(where("platform", "==", filters.platform));
+    if (filters.status) constraints.push(where("status", "==", filters.status));
+    if (filters.favoritesOnly) constraints.push(where("isFavorite", "==", true));
+    return constraints;
+  };
+
+  const secretsQuery = () => {
+    const constraints = [where("workspaceId", "==", getActiveWorkspaceId())];
+    if (profile.role !== "admin") constraints.push(where("accountManager", "==", profile.managerName));
+    return query(collectionGroup(db, SECRETS), ...constraints);
+  };
+
+  const toCredentialMap = (docs: DocumentSnapshot[]) => {
+    const result = new Map<string, Credentials>();
+    docs.forEach(d => {
+      const accountId = d.ref.parent.parent?.id;
+      if (!accountId || d.id !== CREDENTIALS_DOC) return;
+      const { password, twoFactorSecret } = d.data() as Credentials;
+      result.set(accountId, { password, twoFactorSecret });
+    });
+    return result;
+  };
+
+  const merge = (raw: RawAccount[], credentials: Map<string, Credentials>) => {
+    const inlineIds = new Set<string>();
+    const staleKeyIds = new Set<string>();
+    const accounts = raw.map(({ id, data }) => {
+      if (hasInlineCredentials(data)) inlineIds.add(id);
+      const account = normalizeStoredAccount(id, { ...data, ...credentials.get(id) });
+      if (hasStaleQueryKeys(data, account)) staleKeyIds.add(id);
+      // Legacy documents may still carry credentials inline; never surface them to viewers.
+      if (!canReveal) {
+        delete account.password;
+        delete account.twoFactorSecret;
+      }
+      return account;
+    });
+    return { accounts, inlineIds, staleKeyIds };
+  };
+
+  // One secrets read per account the profile may reveal.
+  const credentialsOf = async (raw: RawAccount[]) => {
+    const secrets = await Promise.all(
+      raw.filter(({ data }) => can(profile, "credentials:reveal", data)).map(({ id }) => getDoc(credentialsRef(id)))
+    );
+    return toCredentialMap(secrets.filter(d => d.exists()));
+  };
+
+  const read = async (raw: RawAccount[], options?: ReadOptions) =>
+    merge(raw, options?.credentials && canReveal ? await credentialsOf(raw) : new Map()).accounts;
+
+  // Every account with its credentials, for whole-workspace jobs.
+  const readAll = async () => {
+    const [accounts, secrets] = await Promise.all([
+      getDocs(scoped()),
+      canReveal ? getDocs(secretsQuery()) : null
+    ]);
+    return merge(toRaw(accounts), secrets ? toCredentialMap(secrets.docs) : new Map());
+  };
+
+  const pageQueryFor = ({ filters, sort, pageSize, after }: AccountPageRequest) => {
+    const constraints = filterConstraints(filters);
+    if (!constraints) return null;
+    const { field, direction } = sort;
+    // The id breaks ties so that cursors land on a well-defined position.
+    constraints.push(orderBy(sortFieldFor(field), direction), orderBy(documentId(), direction));
+    if (after) constraints.push(startAfter(after as DocumentSnapshot));
+    constraints.push(limit(pageSize));
+    return query(accountsCollection(), ...constraints);
+  };
+
+  // Credentials are left out: the table never shows them, and fetching them
+  // would cost a read per row.
+  const toPage = (snapshot: QuerySnapshot, pageSize: number): AccountPage => ({
+    accounts: merge(toRaw(snapshot), new Map()).accounts,
+    next: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null
+  });
+
+  const batch: AccountRepository["batch"] = async (writes, onProgress) => {
+    // Each write and its audit entry are committed in the same batch. A
+    // reassigned account's snapshots can be many, so they follow on their own.
+    const operations: (BatchOperation | BatchOperation[])[] = [];
+    for (const write of writes.map(validatedWrite)) {
+      const entry = await auditEntryFor(write, profile);
+      const group = await operationsFor(write, entry?.id);
+      if (entry) group.push(batch => addAuditEntryToBatch(batch, entry));
+      operations.push(group);
+      const accountManager = reassignedManager(write);
+      if (accountManager !== null) operations.push(...await reassignSnapshotOperations(write.id, accountManager));
+    }
+    await commitInChunks(operations, onProgress);
+  };
+
+  return {
+    backend: "firestore",
+    newId: newAccountId,
+
+    list: async (filters, options) => {
+      if (!filters) return options?.credentials ? (await readAll()).accounts : read(toRaw(await getDocs(scoped())));
+      const constraints = filterConstraints(filters);
+      if (!constraints) return [];
+      return read(toRaw(await getDocs(query(accountsCollection(), ...constraints))), options);
+    },
+
+    get: async (id, options) => {
+      const snapshot = await (options?.fresh ? getDocFromServer : getDoc)(accountRef(id));
+      if (!snapshot.exists()) return null;
+      let credentials = new Map<string, Credentials>();
+      if (can(profile, "credentials:reveal", snapshot.data())) {
+        const secrets = await getDoc(credentialsRef(id));
+        if (secrets.exists()) credentials = toCredentialMap([secrets]);
+      }
+      return merge([{ id, data: snapshot.data() }], credentials).accounts[0];
+    },
+
+    getMany: async (ids, options) => {
+      const snapshots = await Promise.all(
+        chunked(Array.from(new Set(ids))).map(chunk => getDocs(scoped(where(documentId(), "in", chunk))))
+      );
+      return read(snapshots.flatMap(toRaw), options);
+    },
+
+    findDuplicates: async (candidates) => {
+      const keys = Array.from(new Set(candidates.flatMap(duplicateKeys)));
+      const snapshots = await Promise.all(
+        chunked(keys).map(chunk => getDocs(scoped(where("duplicateKeys", "array-contains-any", chunk))))
+      );
+      const raw = new Map(snapshots.flatMap(toRaw).map(r => [r.id, r]));
+      return read(Array.from(raw.values()));
+    },
+
+    // Accounts are assigned to managers by their managerName.
+    listManagers: async () => {
+      const members = await listMembers();
+      return Array.from(new Set(members.filter(m => m.role === "manager" && m.managerName).map(m => m.managerName))).sort();
+    },
+
+    create: async (account, id = newAccountId()) => {
+      await batch([{ type: "create", id, data: account }]);
+      return id;
+    },
+
+    update: (id, updates, current) => batch([{ type: "update", id, updates, current }]),
+
+    delete: (id) => batch([{ type: "delete", id }]),
+
+    page: async (request) => {
+      const pageQuery = pageQueryFor(request);
+      if (!pageQuery) return { accounts: [], next: null };
+      return toPage(await getDocs(pageQuery), request.pageSize);
+    },
+
+    // Listens to this page only, so an edit elsewhere in the workspace costs no reads.
+    subscribePage: (request, onChange, onError) => {
+      const pageQuery = pageQueryFor(request);
+      if (!pageQuery) {
+        queueMicrotask(() => onChange({ accounts: [], next: null }));
+        return () => {};
+      }
+      return onSnapshot(pageQuery, snapshot => onChange(toPage(snapshot, request.pageSize)), onError);
+    },
+
+    // An aggregation query: only the count is transferred, not the documents.
+    count: async (filters) => {
+      const constraints = filterConstraints(filters);
+      if (!constraints) return 0;
+      const snapshot = await getCountFromServer(query(accountsCollection(), ...constraints));
+      return snapshot.data().count;
+    },
+
+    batch,
+
+    subscribeMatching: (filters, onChange, onError) => {
+      const constraints = filterConstraints(filters);
+      if (!constraints) {
+        queueMicrotask(() => onChange([]));
+        return () => {};
+      }
+      return onSnapshot(query(accountsCollection(), ...constraints), snapshot => onChange(merge(toRaw(snapshot), new Map()).accounts), onError);
+    },
+
+    // The workspace doc is small and rarely changes, so listening to it
+    // reports the connection for a single read. Pending account writes are
+    // tracked by the caller, which knows when its batches resolve.
+    subscribeStatus: (onChange, onError) =>
+      onSnapshot(workspaceDoc(), { includeMetadataChanges: true }, snapshot => onChange({
+        hasPendingWrites: snapshot.metadata.hasPendingWrites,
+        fromCache: snapshot.metadata.fromCache
+      }), onError),
+
+    // Queries cannot find documents that lack a field, so this scans the
+    // workspace once and records the version of the fields it wrote on the
+    // workspace doc; until QUERY_FIELDS_VERSION changes, later calls read
+    // only that doc. The app writes the fields itself from then on.
+    backfillQueryFields: async () => {
+      const workspace = await getDoc(workspaceDoc());
+      if ((workspace.data()?.queryFieldsVersion ?? 0) >= QUERY_FIELDS_VERSION) return 0;
+      const snapshot = await getDocs(accountsCollection());
+      const { accounts, staleKeyIds } = merge(toRaw(snapshot), new Map());
+      const writes = queryFieldBackfillWrites(accounts, staleKeyIds);
+      await batch(writes);
+      await setDoc(workspaceDoc(), { queryFieldsVersion: QUERY_FIELDS_VERSION }, { merge: true });
+      return writes.length;
+    },
+
+    findCredentialMigrations: async () => {
+      const { accounts, inlineIds } = await readAll();
+      return credentialMigrationWrites(accounts, inlineIds);
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { errorForStatus, LLMAuthError, LLMCallOptions, LLMError, LLMNetworkError, LLMProvider, parseJsonReply } from "./llm";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+const toLLMError = (err: unknown): LLMError => {
+  if (err instanceof LLMError) return err;
+  if (err instanceof ApiError) return errorForStatus(err.status, err.message, err);
+  return new LLMNetworkError(err instanceof Error ? err.message : undefined, err);
+};
+
+// Thinking tokens are billed as output.
+const reportUsage = (response: GenerateContentResponse, options?: LLMCallOptions) => {
+  const usage = response.usageMetadata;
+  options?.onUsage?.({
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0)
+  });
+};
+
+// The key is injected at build time from GEMINI_API_KEY; see vite.config.ts.
+export const createGeminiProvider = (model = DEFAULT_GEMINI_MODEL, apiKey = process.env.API_KEY): LLMProvider => {
+  let client: GoogleGenAI | null = null;
+  const ai = () => {
+    if (!apiKey) throw new LLMAuthError("No Gemini API key is configured. Set GEMINI_API_KEY in .env.local.");
+    return client ??= new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: "gemini",
+    model,
+    generateJson: async (prompt, schema, options) => {
+      let text: string | undefined;
+      try {
+        const response = await ai().models.generateContent({
+          model,
+          contents: prompt,
+          config: { responseMimeType: "application/json", responseJsonSchema: schema }
+        });
+        reportUsage(response, options);
+        text = response.text;
+      } catch (err) {
+        throw toLLMError(err);
+      }
+      return parseJsonReply(text, schema);
+    },
+    searchGrounded: async (prompt, options) => {
+      try {
+        const response = await ai().models.generateContent({
+          model,
+          contents: prompt,
+          config: { tools: [{ googleSearch: {} }] }
+        });
+        reportUsage(response, options);
+        const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+        return {
+          text: response.text ?? "",
+          sources: chunks.flatMap(c => (c.web?.uri ? [{ uri: c.web.uri, title: c.web.title }] : [])),
+          grounded: true
+        };
+      } catch (err) {
+        throw toLLMError(err);
+      }
+    }
+  };
+};
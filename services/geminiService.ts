@@ -1,71 +1,193 @@
-import { GoogleGenAI, Type } from "@google/genai";
 import { UserAccount, AIAnalysisResult } from "../types";
+import { platformFor } from "./platforms";
+import { GroundedAnswer, JsonSchema, LLMSchemaError } from "./llm";
+import { getLLMProvider } from "./llmSettings";
+import { ASK_OPERATORS, AskContext, AskFilter } from "./askQuery";
+import { TonePreset } from "./contentDrafts";
 
-// Initialize Gemini with the latest preview model
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const analyzeAccount = async (account: UserAccount): Promise<AIAnalysisResult | null> => {
-  try {
-    const prompt = `
-      Perform a professional audit for this social media account.
-      
-      Account Profile:
-      - Username: ${account.username}
-      - Platform: ${account.platform}
-      - Followers: ${account.followers}
-      - Engagement: ${account.engagementRate}%
-      - Bio: "${account.bio}"
-      - Category: ${account.category}
-
-      Provide a JSON response with:
-      1. sentiment: (Positive/Neutral/Negative)
-      2. strengths: Array of 3 specific strengths.
-      3. weaknesses: Array of 3 potential growth blockers.
-      4. growthStrategy: A data-driven 1-sentence growth advice.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
+// The app's AI prompts. Requests go to the provider chosen in Settings (see
+// llmSettings.ts), which throws typed LLMErrors instead of returning fallbacks.
+
+const AUDIT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    sentiment: { type: "string", enum: ["Positive", "Neutral", "Negative"] },
+    strengths: { type: "array", items: { type: "string" } },
+    weaknesses: { type: "array", items: { type: "string" } },
+    growthStrategy: { type: "string" }
+  },
+  required: ["sentiment", "strengths", "weaknesses", "growthStrategy"]
+};
+
+// Returns the audit with the model that wrote it, so it can be stored alongside.
+export const analyzeAccount = async (account: UserAccount): Promise<{ analysis: AIAnalysisResult; model: string }> => {
+  const provider = getLLMProvider();
+  const { name, metrics } = platformFor(account.platform);
+  const prompt = `
+    Perform a professional audit for this social media account.
+    
+    Account Profile:
+    - Username: ${account.username}
+    - Platform: ${name}
+    - ${metrics.audience}: ${account.followers}
+    - ${metrics.engagement}: ${account.engagementRate}%
+    - Bio: "${account.bio}"
+    - Category: ${account.category}
+
+    Provide a JSON response with:
+    1. sentiment: (Positive/Neutral/Negative)
+    2. strengths: Array of 3 specific strengths.
+    3. weaknesses: Array of 3 potential growth blockers.
+    4. growthStrategy: A data-driven 1-sentence growth advice.
+  `;
+
+  const analysis = await provider.generateJson<AIAnalysisResult>(prompt, AUDIT_SCHEMA, { feature: "audit", accountId: account.id });
+  return { analysis, model: provider.model };
+};
+
+// What the content studio tells the model about an account. No contact
+// details or credentials.
+const accountBrief = (account: UserAccount) => {
+  const { name, metrics } = platformFor(account.platform);
+  return `
+    - Username: ${account.username}
+    - Platform: ${name}
+    - ${metrics.audience}: ${account.followers}
+    - Category: ${account.category || "unspecified"}
+    - Target audience: ${account.targetAudience || "unspecified"}
+    - Tags: ${(account.tags ?? []).join(", ") || "none"}
+    - Current bio: "${account.bio}"`;
+};
+
+const BIOS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: { bios: { type: "array", items: { type: "string" } } },
+  required: ["bios"]
+};
+
+// Suggestions over the network's bio limit are dropped; models count characters poorly.
+export const generateBios = async (account: UserAccount, tone: TonePreset, count = 4): Promise<{ bios: string[]; model: string }> => {
+  const provider = getLLMProvider();
+  const { name, bioMaxLength } = platformFor(account.platform);
+  const prompt = `
+    Write ${count} alternative profile bios for this ${name} account.
+
+    Account Profile:${accountBrief(account)}
+
+    Tone: ${tone.label} (${tone.description}).
+    Each bio must be at most ${bioMaxLength} characters, including spaces and emoji.
+    Make the alternatives genuinely different in angle, not rewordings of each other.
+    Provide a JSON response with bios: an array of ${count} strings.
+  `;
+  const { bios } = await provider.generateJson<{ bios: string[] }>(prompt, BIOS_SCHEMA, { feature: "bios", accountId: account.id, fresh: true });
+  const fitting = bios.map(b => b.trim()).filter(b => b && [...b].length <= bioMaxLength);
+  if (!fitting.length) throw new LLMSchemaError(`Every suggested bio was longer than ${bioMaxLength} characters.`);
+  return { bios: fitting, model: provider.model };
+};
+
+export interface PostIdea {
+  title: string;
+  caption: string;
+  hashtags: string[];
+}
+
+const POST_IDEAS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    ideas: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          caption: { type: "string" },
+          hashtags: { type: "array", items: { type: "string" } }
+        },
+        required: ["title", "caption", "hashtags"]
+      }
+    }
+  },
+  required: ["ideas"]
+};
+
+// `trends` is the text of a getPlatformTrends answer, when one is available.
+export const generatePostIdeas = async (
+  account: UserAccount,
+  tone: TonePreset,
+  trends?: string,
+  count = 5
+): Promise<{ ideas: PostIdea[]; model: string }> => {
+  const provider = getLLMProvider();
+  const { name } = platformFor(account.platform);
+  const prompt = `
+    Suggest ${count} post ideas with ready-to-edit caption drafts for this ${name} account.
+
+    Account Profile:${accountBrief(account)}
+
+    ${trends ? `Current trends on ${name}:\n    ${trends}` : `No trend summary is available; rely on the account's niche.`}
+
+    Tone: ${tone.label} (${tone.description}).
+    Fit the captions to the category and target audience, and work in the account's tags where natural.
+    Provide a JSON response with ideas: an array of ${count} objects, each with
+    1. title: the idea in a few words.
+    2. caption: the caption draft, in the format usual on ${name}.
+    3. hashtags: up to 5 hashtags without the # sign.
+  `;
+  const { ideas } = await provider.generateJson<{ ideas: PostIdea[] }>(prompt, POST_IDEAS_SCHEMA, { feature: "posts", accountId: account.id, fresh: true });
+  return { ideas, model: provider.model };
+};
+
+// The prompt depends only on the platform, so the answer is cached across
+// accounts; `accountId` only attributes the request in the usage ledger.
+export const getPlatformTrends = async (platform: string, accountId?: string): Promise<GroundedAnswer> =>
+  getLLMProvider().searchGrounded(
+    `What are the currently trending topics or algorithm shifts on ${platformFor(platform).name} as of today? Provide a concise summary for a social media manager.`,
+    { feature: "trends", accountId }
+  );
+
+// Only the question and the field vocabulary are sent (see askContext); the
+// filter itself runs locally.
+export const translateQuestion = async (question: string, context: AskContext): Promise<AskFilter> => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      match: { type: "string", enum: ["all", "any"] },
+      conditions: {
+        type: "array",
+        items: {
+          type: "object",
           properties: {
-            sentiment: { type: Type.STRING },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-            growthStrategy: { type: Type.STRING }
+            field: { type: "string", enum: context.fields.map(f => f.name) },
+            op: { type: "string", enum: ASK_OPERATORS },
+            value: { type: "string" }
           },
-          required: ["sentiment", "strengths", "weaknesses", "growthStrategy"]
+          required: ["field", "op", "value"]
         }
-      }
-    });
+      },
+      explanation: { type: "string" }
+    },
+    required: ["match", "conditions", "explanation"]
+  };
+  const fields = context.fields
+    .map(f => `- ${f.name} (${f.kind}): ${f.description}${f.values?.length ? `. Known values: ${f.values.join(", ")}` : ""}`)
+    .join("\n");
+  const prompt = `
+    Translate a question about a database of social media accounts into a filter.
 
-    return response.text ? JSON.parse(response.text) : null;
-  } catch (error) {
-    console.error("AI Audit Error:", error);
-    return null;
-  }
-};
+    Today is ${context.today}.
 
-export const getPlatformTrends = async (platform: string): Promise<{ text: string; sources: any[] }> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `What are the currently trending topics or algorithm shifts on ${platform} as of today? Provide a concise summary for a social media manager.`,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
-
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    return {
-      text: response.text || "No trend data available.",
-      sources: sources
-    };
-  } catch (error) {
-    console.error("Trend Search Error:", error);
-    return { text: "Failed to fetch live trends.", sources: [] };
-  }
+    Fields:
+    ${fields}
+
+    Rules:
+    - Use only the fields above. Prefer a known value when the question names one.
+    - Numbers may use k and m suffixes (50k). Engagement is a percentage without the % sign.
+    - Dates are YYYY, YYYY-MM or YYYY-MM-DD; resolve relative dates against today.
+    - Text, list and enum fields only support "=" (contains or equals) and "!=".
+    - match is "all" when every condition must hold, "any" when one is enough.
+    - explanation: one sentence restating the filter in plain words.
+
+    Question: "${question}"
+  `;
+  return getLLMProvider().generateJson<AskFilter>(prompt, schema, { feature: "ask" });
 };
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildImportPlan, coerceNumber, coerceRecord, guessMapping } from "./importer";
+import { UserAccount } from "../types";
+
+const existing: UserAccount = {
+  id: "a1", username: "@brand", platform: "Instagram", followers: 1200, engagementRate: 3.1,
+  status: "Active", lastActive: "2024-01-01", bio: "", category: "Fashion", avatar: ""
+};
+
+describe("guessMapping", () => {
+  it("maps known headers and aliases once each", () => {
+    expect(guessMapping(["Handle", "Network", "Follower Count", "E-mail", "user", "Notes?"])).toEqual({
+      Handle: "username", Network: "platform", "Follower Count": "followers", "E-mail": "email", user: "", "Notes?": "notes"
+    });
+  });
+});
+
+describe("coerceNumber", () => {
+  it("reads separators, suffixes and percentages", () => {
+    expect(coerceNumber("12,400")).toBe(12400);
+    expect(coerceNumber("12.4k")).toBe(12400);
+    expect(coerceNumber("1.2M")).toBe(1200000);
+    expect(coerceNumber("3.5%")).toBe(3.5);
+    expect(coerceNumber("lots")).toBeNull();
+    expect(coerceNumber("")).toBeNull();
+  });
+});
+
+describe("coerceRecord", () => {
+  const mapping = { handle: "username", network: "platform", followers: "followers", tags: "tags", star: "isFavorite" } as const;
+
+  it("normalizes values", () => {
+    const { values, errors } = coerceRecord({ handle: " brand ", network: "ig", followers: "1.5k", tags: "#a, b;a", star: "yes" }, mapping);
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ username: "@brand", platform: "Instagram", followers: 1500, tags: ["a", "b"], isFavorite: true });
+  });
+
+  it("reports every problem", () => {
+    const { errors } = coerceRecord({ handle: "", network: "myspace", followers: "many" }, mapping);
+    expect(errors).toEqual(['platform: unknown network "myspace"', 'followers: "many" is not a number', "username: missing"]);
+  });
+});
+
+describe("buildImportPlan", () => {
+  it("classifies rows against existing accounts", () => {
+    const mapping = { handle: "username", network: "platform", followers: "followers" } as const;
+    const plan = buildImportPlan([
+      { handle: "brand", network: "Instagram", followers: "1200" },
+      { handle: "@Brand", network: "Instagram", followers: "1300" },
+      { handle: "@new", network: "TikTok", followers: "5" },
+      { handle: "@new", network: "tiktok", followers: "6" },
+      { handle: "@bad", network: "nowhere", followers: "1" }
+    ], mapping, [existing]);
+
+    expect(plan.rows.map(r => r.kind)).toEqual(["unchanged", "duplicate", "new", "duplicate", "invalid"]);
+    expect(plan.counts).toEqual({ new: 1, update: 0, unchanged: 1, invalid: 1, duplicate: 2 });
+  });
+
+  it("lists the fields an update changes", () => {
+    const plan = buildImportPlan([{ handle: "brand", network: "Instagram", followers: "2k" }], { handle: "username", network: "platform", followers: "followers" }, [existing]);
+    expect(plan.rows[0]).toMatchObject({ kind: "update", existingId: "a1", changes: [{ field: "followers", before: 1200, after: 2000 }] });
+  });
+});
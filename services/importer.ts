@@ -0,0 +1,257 @@
+import { UserAccount } from "../types";
+import { parseCsvRecords } from "./csv";
+import { normalizeAccountInput, normalizePlatform, normalizeStatus, normalizeUsername, splitTags, validateAccount } from "./accountSchema";
+
+export type ImportableField = Exclude<keyof UserAccount, "id" | "history">;
+export type ColumnMapping = Record<string, ImportableField | "">;
+
+export const IMPORTABLE_FIELDS: { key: ImportableField; label: string; required?: boolean }[] = [
+  { key: "username", label: "Username", required: true },
+  { key: "platform", label: "Platform", required: true },
+  { key: "followers", label: "Followers" },
+  { key: "engagementRate", label: "Engagement Rate (%)" },
+  { key: "status", label: "Status" },
+  { key: "bio", label: "Bio" },
+  { key: "category", label: "Category" },
+  { key: "avatar", label: "Avatar URL" },
+  { key: "realName", label: "Real Name" },
+  { key: "email", label: "Email" },
+  { key: "password", label: "Password" },
+  { key: "twoFactorSecret", label: "2FA Secret" },
+  { key: "phone", label: "Phone" },
+  { key: "website", label: "Website" },
+  { key: "country", label: "Country" },
+  { key: "tags", label: "Tags" },
+  { key: "isFavorite", label: "Favorite" },
+  { key: "isArchived", label: "Archived" },
+  { key: "accountManager", label: "Account Manager" },
+  { key: "targetAudience", label: "Target Audience" },
+  { key: "lastActive", label: "Last Active" },
+  { key: "lastPostedDate", label: "Last Posted Date" },
+  { key: "creationDate", label: "Creation Date" },
+  { key: "notes", label: "Notes" }
+];
+
+// Header spellings we have seen in client spreadsheets, keyed by the
+// normalized header (lowercase, alphanumerics only).
+const HEADER_ALIASES: Record<string, ImportableField> = {
+  handle: "username", user: "username", account: "username",
+  network: "platform", channel: "platform", site: "platform",
+  followercount: "followers", audience: "followers", reach: "followers",
+  engagement: "engagementRate", er: "engagementRate", engagementpct: "engagementRate",
+  name: "realName", fullname: "realName", owner: "realName",
+  emailaddress: "email", mail: "email",
+  pass: "password", pwd: "password",
+  "2fa": "twoFactorSecret", "2fasecret": "twoFactorSecret", totp: "twoFactorSecret", otp: "twoFactorSecret", mfa: "twoFactorSecret",
+  phonenumber: "phone", mobile: "phone",
+  url: "website", siteurl: "website", homepage: "website",
+  manager: "accountManager", custodian: "accountManager", assignee: "accountManager",
+  favorite: "isFavorite", favourite: "isFavorite", starred: "isFavorite",
+  archived: "isArchived",
+  audiencesegment: "targetAudience",
+  lastposted: "lastPostedDate", created: "creationDate", createdat: "creationDate",
+  label: "tags", labels: "tags"
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportableField>();
+  columns.forEach(column => {
+    const normalized = normalizeHeader(column);
+    const match = IMPORTABLE_FIELDS.find(f => normalizeHeader(f.key) === normalized || normalizeHeader(f.label) === normalized)?.key
+      ?? HEADER_ALIASES[normalized];
+    if (match && !used.has(match)) {
+      mapping[column] = match;
+      used.add(match);
+    } else {
+      mapping[column] = "";
+    }
+  });
+  return mapping;
+};
+
+export interface ImportSource {
+  fileName: string;
+  columns: string[];
+  records: Record<string, unknown>[];
+}
+
+export const readImportFile = async (file: File): Promise<ImportSource> => {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith(".json") || text.trimStart().startsWith("[") || text.trimStart().startsWith("{");
+
+  if (!isJson) {
+    const { columns, records } = parseCsvRecords(text);
+    if (columns.length === 0) throw new Error("The CSV file is empty.");
+    return { fileName: file.name, columns, records };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  // Accept a bare array, or an object wrapping the array under `accounts`.
+  const list = Array.isArray(parsed) ? parsed : (parsed as any)?.accounts;
+  if (!Array.isArray(list)) throw new Error("JSON must be an array of accounts or an object with an `accounts` array.");
+  const records = list.filter(item => item && typeof item === "object") as Record<string, unknown>[];
+  const columns = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+  return { fileName: file.name, columns, records };
+};
+
+// "12,400", "12.4k", "1.2M" → number
+export const coerceNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const cleaned = value.trim().replace(/[,\s%]/g, "").toLowerCase();
+  if (!cleaned) return null;
+  const match = cleaned.match(/^(-?\d*\.?\d+)([kmb])?$/);
+  if (!match) return null;
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[match[2] as "k" | "m" | "b"] ?? 1;
+  return Math.round(parseFloat(match[1]) * multiplier * 100) / 100;
+};
+
+const coerceBoolean = (value: unknown): boolean => {
+  if (typeof value === "boolean") return value;
+  return ["true", "yes", "y", "1", "x", "★"].includes(String(value ?? "").trim().toLowerCase());
+};
+
+export const accountKey = (account: Pick<UserAccount, "platform" | "username">) =>
+  `${account.platform}:${normalizeUsername(account.username).toLowerCase()}`;
+
+export interface CoercedRow {
+  values: Partial<UserAccount>;
+  errors: string[];
+}
+
+export const coerceRecord = (record: Record<string, unknown>, mapping: ColumnMapping): CoercedRow => {
+  const values: Partial<UserAccount> = {};
+  const errors: string[] = [];
+
+  Object.entries(mapping).forEach(([column, field]) => {
+    if (!field) return;
+    const raw = record[column];
+    if (raw === undefined || raw === null || (typeof raw === "string" && raw.trim() === "")) return;
+
+    switch (field) {
+      case "followers":
+      case "engagementRate": {
+        const num = coerceNumber(raw);
+        if (num === null) errors.push(`${field}: "${raw}" is not a number`);
+        else values[field] = field === "followers" ? Math.round(num) : num;
+        break;
+      }
+      case "platform": {
+        const platform = normalizePlatform(raw);
+        if (!platform) errors.push(`platform: unknown network "${raw}"`);
+        else values.platform = platform;
+        break;
+      }
+      case "status": {
+        const status = normalizeStatus(raw);
+        if (!status) errors.push(`status: unknown status "${raw}"`);
+        else values.status = status;
+        break;
+      }
+      case "tags":
+        values.tags = splitTags(raw);
+        break;
+      case "isFavorite":
+      case "isArchived":
+        values[field] = coerceBoolean(raw);
+        break;
+      case "username":
+        values.username = normalizeUsername(String(raw));
+        break;
+      default:
+        (values as Record<string, unknown>)[field] = String(raw).trim();
+    }
+  });
+
+  if (!values.username) errors.push("username: missing");
+  if (!values.platform && !errors.some(e => e.startsWith("platform"))) errors.push("platform: missing");
+  const normalized = normalizeAccountInput(values);
+  Object.entries(validateAccount(normalized, { partial: true })).forEach(([field, message]) => {
+    if (!errors.some(e => e.startsWith(`${field}:`))) errors.push(`${field}: ${message}`);
+  });
+  return { values: normalized, errors };
+};
+
+export type ImportRowKind = "new" | "update" | "unchanged" | "invalid" | "duplicate";
+
+export interface ImportRow {
+  index: number;
+  kind: ImportRowKind;
+  values: Partial<UserAccount>;
+  errors: string[];
+  existingId?: string;
+  changes?: { field: keyof UserAccount; before: unknown; after: unknown }[];
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  counts: Record<ImportRowKind, number>;
+}
+
+const isSameValue = (a: unknown, b: unknown) =>
+  Array.isArray(a) || Array.isArray(b) ? JSON.stringify(a ?? []) === JSON.stringify(b ?? []) : (a ?? "") === (b ?? "");
+
+// Dry run: classifies every record against the current database without
+// writing anything. Rows are matched on platform + username.
+export const buildImportPlan = (
+  records: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  existing: UserAccount[]
+): ImportPlan => {
+  const byKey = new Map(existing.map(a => [accountKey(a), a]));
+  const seen = new Set<string>();
+  const counts: Record<ImportRowKind, number> = { new: 0, update: 0, unchanged: 0, invalid: 0, duplicate: 0 };
+
+  const rows = records.map((record, index): ImportRow => {
+    const { values, errors } = coerceRecord(record, mapping);
+    let row: ImportRow;
+
+    if (errors.length > 0) {
+      row = { index, kind: "invalid", values, errors };
+    } else {
+      const key = accountKey(values as UserAccount);
+      const match = byKey.get(key);
+      if (seen.has(key)) {
+        row = { index, kind: "duplicate", values, errors: [`Repeats ${values.username} on ${values.platform} earlier in the file`] };
+      } else if (match) {
+        const changes = (Object.keys(values) as (keyof UserAccount)[])
+          .filter(field => !isSameValue(match[field], values[field]))
+          .map(field => ({ field, before: match[field], after: values[field] }));
+        row = { index, kind: changes.length ? "update" : "unchanged", values, errors, existingId: match.id, changes };
+      } else {
+        row = { index, kind: "new", values, errors };
+      }
+      seen.add(key);
+    }
+
+    counts[row.kind]++;
+    return row;
+  });
+
+  return { rows, counts };
+};
+
+export const buildNewAccount = (values: Partial<UserAccount>, sourceName: string): Omit<UserAccount, "id"> => {
+  const username = values.username!;
+  return {
+    followers: 0,
+    engagementRate: 0,
+    status: "Active",
+    lastActive: new Date().toISOString(),
+    bio: "",
+    category: "",
+    avatar: `https://ui-avatars.com/api/?name=${username.replace("@", "")}&background=random&color=fff`,
+    ...values,
+    username,
+    platform: values.platform!,
+    history: [{ date: new Date().toISOString(), action: "Account Imported", details: `Imported from ${sourceName}` }]
+  };
+};
@@ -0,0 +1,143 @@
+// The interface every language-model backend implements. Prompts and
+// schemas are written once in geminiService.ts; the providers only deal
+// with transport, and turn failures into the error classes below.
+export type LLMProviderId = "gemini" | "openai" | "mock";
+
+// The subset of JSON Schema the providers understand.
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface GroundedAnswer {
+  text: string;
+  sources: GroundingSource[];
+  // False when the backend cannot search and answered from its own knowledge.
+  grounded: boolean;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Per-call details. Providers only report usage; the rest is read by the
+// gateway in aiGateway.ts for caching and the usage ledger.
+export interface LLMCallOptions {
+  // What the call is for, e.g. "audit" or "trends".
+  feature?: string;
+  accountId?: string;
+  // Skips the response cache, for requests meant to give new answers each time.
+  fresh?: boolean;
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  // Resolves with a value that matches the schema, or throws LLMSchemaError.
+  generateJson: <T>(prompt: string, schema: JsonSchema, options?: LLMCallOptions) => Promise<T>;
+  searchGrounded: (prompt: string, options?: LLMCallOptions) => Promise<GroundedAnswer>;
+}
+
+// A rough count for backends that do not report usage: about four
+// characters per token for English text.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Base class for provider failures. Quota, network and schema errors are
+// worth retrying; auth errors are not.
+export class LLMError extends Error {
+  readonly retryable: boolean = true;
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "LLMError";
+  }
+}
+
+export class LLMQuotaError extends LLMError {
+  constructor(message = "The AI provider's rate limit or quota was exceeded.", cause?: unknown) {
+    super(message, cause);
+    this.name = "LLMQuotaError";
+  }
+}
+
+export class LLMAuthError extends LLMError {
+  readonly retryable = false;
+  constructor(message = "The AI provider rejected the API key or model.", cause?: unknown) {
+    super(message, cause);
+    this.name = "LLMAuthError";
+  }
+}
+
+export class LLMSchemaError extends LLMError {
+  constructor(message = "The model's reply did not match the expected format.", cause?: unknown) {
+    super(message, cause);
+    this.name = "LLMSchemaError";
+  }
+}
+
+export class LLMNetworkError extends LLMError {
+  constructor(message = "The AI provider could not be reached.", cause?: unknown) {
+    super(message, cause);
+    this.name = "LLMNetworkError";
+  }
+}
+
+export class LLMBudgetError extends LLMError {
+  readonly retryable = false;
+  constructor(message = "The workspace's monthly AI budget has been used up.", cause?: unknown) {
+    super(message, cause);
+    this.name = "LLMBudgetError";
+  }
+}
+
+// Maps an HTTP status to the matching error. Anything unexpected is
+// treated as a transient server problem.
+export const errorForStatus = (status: number, detail: string, cause?: unknown): LLMError => {
+  if (status === 429) return new LLMQuotaError(`Rate limit or quota exceeded: ${detail}`, cause);
+  if (status === 401 || status === 403) return new LLMAuthError(`Not authorized: ${detail}`, cause);
+  if (status === 404) return new LLMAuthError(`Model or endpoint not found: ${detail}`, cause);
+  return new LLMNetworkError(`The AI provider failed (${status}): ${detail}`, cause);
+};
+
+const matches = (value: unknown, schema: JsonSchema): boolean => {
+  switch (schema.type) {
+    case "object":
+      if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+      return (schema.required ?? []).every(key => key in value)
+        && Object.entries(schema.properties ?? {}).every(([key, child]) => !(key in value) || matches((value as any)[key], child));
+    case "array":
+      return Array.isArray(value) && (!schema.items || value.every(item => matches(item, schema.items!)));
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+  }
+};
+
+// Parses a model reply and checks it against the schema. Enum values are
+// not enforced; models paraphrase them, and callers display what they get.
+export const parseJsonReply = <T>(text: string | undefined, schema: JsonSchema): T => {
+  let value: unknown;
+  try {
+    // Some local models wrap JSON in a Markdown code fence despite being asked not to.
+    value = JSON.parse((text ?? "").trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch (err) {
+    throw new LLMSchemaError("The model's reply was not valid JSON.", err);
+  }
+  if (!matches(value, schema)) throw new LLMSchemaError();
+  return value as T;
+};
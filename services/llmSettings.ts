@@ -0,0 +1,89 @@
+import { LLMProvider, LLMProviderId } from "./llm";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createOpenAiProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiProvider";
+import { createMockProvider, MOCK_MODEL } from "./mockProvider";
+import { GatewayPolicy, withGateway } from "./aiGateway";
+
+// Which model answers AI requests is a preference of this browser, not of
+// the workspace: a local Ollama server only exists on the machine running it.
+const LLM_SETTINGS_KEY = "socialbase.llm";
+
+export interface LLMSettings extends GatewayPolicy {
+  provider: LLMProviderId;
+  model: string;
+  // Only used by the OpenAI-compatible provider.
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Trends change through the day; an audit of unchanged account data does not.
+export const DEFAULT_GATEWAY_POLICY: GatewayPolicy = {
+  responseTtlMinutes: 24 * 60,
+  trendsTtlMinutes: 6 * 60,
+  requestsPerMinute: 10
+};
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible (e.g. Ollama)",
+  mock: "Mock (offline demo)"
+};
+
+export const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  gemini: DEFAULT_GEMINI_MODEL,
+  openai: DEFAULT_OPENAI_MODEL,
+  mock: MOCK_MODEL
+};
+
+// Builds without a Gemini key start on the mock provider so AI features still work.
+const defaultSettings = (): LLMSettings => {
+  const provider: LLMProviderId = process.env.API_KEY ? "gemini" : "mock";
+  return { provider, model: DEFAULT_MODELS[provider], baseUrl: DEFAULT_OPENAI_BASE_URL, apiKey: "", ...DEFAULT_GATEWAY_POLICY };
+};
+
+const wholeNumber = (value: unknown, min: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min ? Math.floor(value) : fallback;
+
+export const loadLLMSettings = (): LLMSettings => {
+  const defaults = defaultSettings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(LLM_SETTINGS_KEY) || "null");
+    if (!stored || !(stored.provider in LLM_PROVIDER_LABELS)) return defaults;
+    return {
+      provider: stored.provider,
+      model: typeof stored.model === "string" && stored.model.trim() ? stored.model.trim() : DEFAULT_MODELS[stored.provider as LLMProviderId],
+      baseUrl: typeof stored.baseUrl === "string" && stored.baseUrl.trim() ? stored.baseUrl.trim() : defaults.baseUrl,
+      apiKey: typeof stored.apiKey === "string" ? stored.apiKey : "",
+      responseTtlMinutes: wholeNumber(stored.responseTtlMinutes, 0, defaults.responseTtlMinutes),
+      trendsTtlMinutes: wholeNumber(stored.trendsTtlMinutes, 0, defaults.trendsTtlMinutes),
+      requestsPerMinute: wholeNumber(stored.requestsPerMinute, 1, defaults.requestsPerMinute)
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+let cached: { key: string; provider: LLMProvider } | null = null;
+
+export const saveLLMSettings = (settings: LLMSettings) => {
+  localStorage.setItem(LLM_SETTINGS_KEY, JSON.stringify(settings));
+  cached = null;
+};
+
+// The bare provider, without caching, budget or rate limits.
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case "gemini": return createGeminiProvider(settings.model);
+    case "openai": return createOpenAiProvider(settings.model, settings.baseUrl, settings.apiKey);
+    case "mock": return createMockProvider();
+  }
+};
+
+// The provider for the current settings behind the gateway, reused while
+// they are unchanged so its rate limiter keeps counting.
+export const getLLMProvider = (): LLMProvider => {
+  const settings = loadLLMSettings();
+  const key = JSON.stringify(settings);
+  if (cached?.key !== key) cached = { key, provider: withGateway(createProvider(settings), settings) };
+  return cached.provider;
+};
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createLocalAccountRepository } from "./localAccountRepository";
+import { AccountPage, AccountRepository } from "./accountRepository";
+import { AccountValidationError } from "./accountSchema";
+import { createDraft, subscribeToDrafts } from "./contentDrafts";
+import { setActiveWorkspace } from "./workspaces";
+import { DEMO_PROFILE, MOCK_DATABASE } from "./mockData";
+import { validateHandle } from "./platforms";
+import { UserAccount } from "../types";
+
+let repository: AccountRepository;
+let workspace = 0;
+
+const newAccount: Omit<UserAccount, "id"> = {
+  username: "@fresh", platform: "TikTok", followers: 10, engagementRate: 1, status: "Active",
+  lastActive: "2025-01-01T00:00:00.000Z", bio: "", category: "", avatar: ""
+};
+
+const live = MOCK_DATABASE.filter(a => !a.isArchived && !a.isDeleted);
+
+beforeEach(() => {
+  const id = `repo-${++workspace}`;
+  setActiveWorkspace({ id, name: "Repo", role: "admin" });
+  repository = createLocalAccountRepository(DEMO_PROFILE, id, false);
+});
+
+describe("in-memory repository", () => {
+  it("starts from the demo dataset", async () => {
+    expect((await repository.list()).map(a => a.id)).toEqual(MOCK_DATABASE.map(a => a.id));
+  });
+
+  it("seeds valid handles across the registry's networks", () => {
+    expect(new Set(MOCK_DATABASE.map(a => a.platform)).size).toBeGreaterThan(4);
+    expect(MOCK_DATABASE.filter(a => validateHandle(a.platform, a.username))).toEqual([]);
+  });
+
+  it("creates, updates and deletes", async () => {
+    const id = await repository.create(newAccount);
+    await repository.update(id, { followers: 20 });
+    expect(await repository.get(id)).toMatchObject({ id, username: "@fresh", followers: 20 });
+    await repository.delete(id);
+    expect(await repository.get(id)).toBeNull();
+  });
+
+  it("purges an account's drafts with it", async () => {
+    const id = await repository.create(newAccount);
+    await createDraft(DEMO_PROFILE, { accountId: id, kind: "bio", tone: "friendly" }, "Hello");
+    await repository.delete(id);
+    let remaining = -1;
+    subscribeToDrafts(id, drafts => { remaining = drafts.length; }, () => {})();
+    expect(remaining).toBe(0);
+  });
+
+  it("hands out copies, not its own records", async () => {
+    const account = (await repository.get(MOCK_DATABASE[0].id))!;
+    account.followers = -1;
+    expect((await repository.get(account.id))!.followers).toBe(MOCK_DATABASE[0].followers);
+  });
+
+  it("validates writes and leaves the store unchanged when a batch fails", async () => {
+    const [first, second] = live;
+    await expect(repository.batch([
+      { type: "update", id: first.id, updates: { category: "Changed" } },
+      { type: "update", id: second.id, updates: { followers: -1 } }
+    ])).rejects.toBeInstanceOf(AccountValidationError);
+    expect((await repository.get(first.id))!.category).toBe(first.category);
+  });
+
+  it("pages through filtered, sorted accounts", async () => {
+    const filters = { archived: false };
+    const sort = { field: "followers" as const, direction: "desc" as const };
+    const first = await repository.page({ filters, sort, pageSize: 10 });
+    const second = await repository.page({ filters, sort, pageSize: 10, after: first.next });
+    const expected = [...live].sort((a, b) => b.followers - a.followers).map(a => a.id);
+
+    expect([...first.accounts, ...second.accounts].map(a => a.id)).toEqual(expected.slice(0, 20));
+    expect(await repository.count(filters)).toBe(live.length);
+  });
+
+  it("sorts handles without regard to case", async () => {
+    await repository.create({ ...newAccount, username: "@ZZZupper" }, "upper");
+    await repository.create({ ...newAccount, username: "@zzylower" }, "lower");
+    const page = await repository.page({ filters: { archived: false }, sort: { field: "username", direction: "desc" }, pageSize: 2 });
+    expect(page.accounts.map(a => a.id)).toEqual(["upper", "lower"]);
+  });
+
+  it("reports the last page", async () => {
+    const page = await repository.page({ filters: { archived: false }, sort: { field: "username", direction: "asc" }, pageSize: 1000 });
+    expect(page.next).toBeNull();
+  });
+
+  it("keeps a subscribed page up to date", async () => {
+    const pages: AccountPage[] = [];
+    const request = { filters: { archived: false }, sort: { field: "followers" as const, direction: "desc" as const }, pageSize: 5 };
+    const unsubscribe = repository.subscribePage(request, page => pages.push(page), () => {});
+    await Promise.resolve();
+    await repository.create({ ...newAccount, followers: Number.MAX_SAFE_INTEGER }, "fresh");
+    unsubscribe();
+
+    expect(pages).toHaveLength(2);
+    expect(pages[1].accounts[0].id).toBe("fresh");
+    expect(pages[1].accounts.slice(1).map(a => a.id)).toEqual(pages[0].accounts.slice(0, 4).map(a => a.id));
+  });
+
+  it("notifies subscribers of the accounts matching their filters", async () => {
+    const results: UserAccount[][] = [];
+    const unsubscribe = repository.subscribeMatching({ archived: false, platform: "TikTok" }, accounts => results.push(accounts), () => {});
+    await Promise.resolve();
+    await repository.create(newAccount, "fresh");
+    unsubscribe();
+    await repository.delete("fresh");
+
+    expect(results).toHaveLength(2);
+    expect(results[0].every(a => a.platform === "TikTok" && !a.isArchived)).toBe(true);
+    expect(results[1].map(a => a.id)).toEqual([...results[0].map(a => a.id), "fresh"]);
+  });
+
+  it("reads accounts by id, skipping unknown ones", async () => {
+    const ids = [MOCK_DATABASE[2].id, "missing", MOCK_DATABASE[0].id];
+    expect((await repository.getMany(ids)).map(a => a.id)).toEqual([MOCK_DATABASE[2].id, MOCK_DATABASE[0].id]);
+  });
+
+  it("finds the accounts a candidate duplicates", async () => {
+    const target = MOCK_DATABASE[0];
+    const matches = await repository.findDuplicates([{ username: "@someone-else", platform: "Twitter", email: target.email!.toUpperCase() }]);
+    expect(matches.map(a => a.id)).toEqual([target.id]);
+  });
+
+  it("lists trashed accounts deleted before a cutoff", async () => {
+    await repository.create({ ...newAccount, isDeleted: true, deletedAt: "2025-01-01T00:00:00.000Z" }, "old");
+    await repository.create({ ...newAccount, username: "@newer", isDeleted: true, deletedAt: "2025-06-01T00:00:00.000Z" }, "newer");
+
+    const expired = await repository.list({ archived: false, deleted: true, deletedBefore: "2025-03-01T00:00:00.000Z" });
+    expect(expired.map(a => a.id)).toEqual(["old"]);
+  });
+
+  it("lists the managers in use", async () => {
+    const expected = Array.from(new Set(MOCK_DATABASE.map(a => a.accountManager).filter(Boolean))).sort();
+    expect(await repository.listManagers()).toEqual(expected);
+  });
+});
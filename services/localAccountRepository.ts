@@ -0,0 +1,170 @@
+import {
+  AccountFilters, AccountPage, AccountPageRequest, AccountRepository, AccountWrite, credentialMigrationWrites, matchesAccountFilters
+} from "./accountRepository";
+import { compareByColumns } from "./accountColumns";
+import { duplicateKeys } from "./duplicates";
+import { appendLocalAuditEntries, AuditEntry, auditEntryFor } from "./auditLog";
+import { deleteLocalDrafts } from "./contentDrafts";
+import { encryptCredentials } from "./vault";
+import { normalizeStoredAccount, validatedWrite } from "./accountSchema";
+import { MOCK_DATABASE } from "./mockData";
+import { UserAccount, UserProfile } from "../types";
+
+// Keeps accounts in memory, optionally mirrored to localStorage, so the app
+// runs without a Firebase project. Roles are not enforced and no metric
+// history is recorded; the audit log is kept alongside (see auditLog.ts).
+const STORAGE_KEY = "socialbase.localAccounts";
+
+interface Store {
+  accounts: Map<string, UserAccount>;
+  // Page and view listeners, called after every change.
+  listeners: Set<() => void>;
+}
+
+// One store per workspace for the lifetime of the tab, so re-creating the
+// repository (e.g. after a profile change) keeps in-memory edits.
+const stores = new Map<string, Store>();
+
+const storageKey = (workspaceId: string) => `${STORAGE_KEY}:${workspaceId}`;
+
+const toAccountMap = (saved: Record<string, any>[]): Map<string, UserAccount> =>
+  new Map(saved.map(a => [a.id, normalizeStoredAccount(a.id, a)]));
+
+const seedAccounts = (): Map<string, UserAccount> =>
+  new Map(MOCK_DATABASE.map(account => [account.id, structuredClone(account)]));
+
+const loadStore = (workspaceId: string, persist: boolean): Store => {
+  let accounts: Map<string, UserAccount> | null = null;
+  if (persist) {
+    try {
+      const saved = localStorage.getItem(storageKey(workspaceId));
+      if (saved) accounts = toAccountMap(JSON.parse(saved));
+    } catch (error) {
+      console.error("Could not read saved accounts, reseeding:", error);
+    }
+  }
+  return { accounts: accounts ?? seedAccounts(), listeners: new Set() };
+};
+
+export const createLocalAccountRepository = (profile: UserProfile, workspaceId: string, persist: boolean): AccountRepository => {
+  const key = `${persist ? "local" : "memory"}:${workspaceId}`;
+  if (!stores.has(key)) stores.set(key, loadStore(workspaceId, persist));
+  const store = stores.get(key)!;
+
+  const copies = (accounts: Iterable<UserAccount>) => Array.from(accounts, a => structuredClone(a));
+
+  const matching = (filters: AccountFilters) =>
+    Array.from(store.accounts.values()).filter(a => matchesAccountFilters(a, filters));
+
+  const notify = () => store.listeners.forEach(listener => listener());
+
+  const commit = () => {
+    if (persist) localStorage.setItem(storageKey(workspaceId), JSON.stringify(Array.from(store.accounts.values())));
+    notify();
+  };
+
+  // Calls the listener with the current state, asynchronously as Firestore
+  // listeners do, and after every change. Other tabs write to the same
+  // localStorage key, so their changes are picked up too.
+  const listen = (listener: () => void) => {
+    store.listeners.add(listener);
+    queueMicrotask(() => {
+      if (store.listeners.has(listener)) listener();
+    });
+    const onStorage = (event: StorageEvent) => {
+      if (!persist || event.key !== storageKey(workspaceId) || !event.newValue) return;
+      store.accounts = toAccountMap(JSON.parse(event.newValue));
+      notify();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      store.listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  };
+
+  // The cursor is simply the offset of the next page.
+  const pageOf = ({ filters, sort, pageSize, after }: AccountPageRequest): AccountPage => {
+    const start = typeof after === "number" ? after : 0;
+    const sorted = matching(filters).sort(compareByColumns([sort]));
+    const accounts = copies(sorted.slice(start, start + pageSize));
+    return { accounts, next: start + pageSize < sorted.length ? start + pageSize : null };
+  };
+
+  const apply = async (write: AccountWrite) => {
+    switch (write.type) {
+      case "create":
+      case "set":
+        store.accounts.set(write.id, { ...await encryptCredentials(write.data), id: write.id });
+        break;
+      case "update": {
+        const existing = store.accounts.get(write.id);
+        if (!existing) throw new Error(`Account ${write.id} does not exist.`);
+        store.accounts.set(write.id, { ...existing, ...await encryptCredentials(write.updates), id: write.id });
+        break;
+      }
+      case "delete":
+        store.accounts.delete(write.id);
+        break;
+    }
+  };
+
+  const batch: AccountRepository["batch"] = async (writes, onProgress) => {
+    // Validate and encrypt everything before touching the store, so a failed
+    // batch leaves it unchanged like a failed Firestore batch would.
+    const previous = new Map(store.accounts);
+    const entries: AuditEntry[] = [];
+    try {
+      for (const write of writes.map(validatedWrite)) {
+        const current = write.type === "create" ? undefined : write.current ?? store.accounts.get(write.id);
+        const entry = await auditEntryFor(current ? { ...write, current } as AccountWrite : write, profile);
+        if (entry) entries.push(entry);
+        await apply(write);
+      }
+    } catch (error) {
+      store.accounts = previous;
+      throw error;
+    }
+    appendLocalAuditEntries(entries);
+    deleteLocalDrafts(writes.filter(w => w.type === "delete").map(w => w.id));
+    commit();
+    onProgress?.(writes.length, writes.length);
+  };
+
+  return {
+    backend: persist ? "local" : "memory",
+    newId: () => `local-${crypto.randomUUID()}`,
+    list: async (filters) => copies(filters ? matching(filters) : store.accounts.values()),
+    get: async (id) => {
+      const account = store.accounts.get(id);
+      return account ? structuredClone(account) : null;
+    },
+    getMany: async (ids) => copies(ids.flatMap(id => store.accounts.get(id) ?? [])),
+    findDuplicates: async (candidates) => {
+      const keys = new Set(candidates.flatMap(duplicateKeys));
+      return copies(Array.from(store.accounts.values()).filter(a => duplicateKeys(a).some(key => keys.has(key))));
+    },
+    // There are no members here, so the custodians are the ones in use.
+    listManagers: async () =>
+      Array.from(new Set(Array.from(store.accounts.values(), a => a.accountManager).filter((m): m is string => !!m))).sort(),
+    create: async (account, id = `local-${crypto.randomUUID()}`) => {
+      await batch([{ type: "create", id, data: account }]);
+      return id;
+    },
+    update: (id, updates) => batch([{ type: "update", id, updates }]),
+    delete: (id) => batch([{ type: "delete", id }]),
+    page: async (request) => pageOf(request),
+    subscribePage: (request, onChange) => listen(() => onChange(pageOf(request))),
+    subscribeMatching: (filters, onChange) => listen(() => onChange(copies(matching(filters)))),
+    count: async (filters) => matching(filters).length,
+    batch,
+    // Always reachable, with nothing waiting to be confirmed.
+    subscribeStatus: (onChange) => {
+      queueMicrotask(() => onChange({ hasPendingWrites: false, fromCache: false }));
+      return () => {};
+    },
+    // Stored accounts are normalized on load and queries run in memory.
+    backfillQueryFields: async () => 0,
+    findCredentialMigrations: async () => credentialMigrationWrites(copies(store.accounts.values()), new Set())
+  };
+};
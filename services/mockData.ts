@@ -1,9 +1,78 @@
-import { UserAccount } from '../types';
+import { UserAccount, UserProfile, Workspace } from '../types';
+import { PLATFORMS, validateHandle } from './platforms';
 
-// Fake data generation has been removed.
-// The app now relies on manual entry or Firestore data.
-export const generateMockData = (count: number): UserAccount[] => {
-  return [];
+// Deterministic demo data for the local backends (DATA_BACKEND=memory|local).
+// The same seed always yields the same accounts, so screenshots and bug
+// reports made against the demo workspace are reproducible. Demo accounts
+// carry no credentials.
+
+// mulberry32: a small, fast PRNG that is good enough for fake data.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const STATUSES: UserAccount['status'][] = ['Active', 'Active', 'Active', 'Verified', 'Shadowbanned', 'Suspended'];
+const CATEGORIES = ['Tech', 'Fashion', 'Fitness', 'Food', 'Travel', 'Finance', 'Gaming', 'Music'];
+const MANAGERS = ['Alex Rivera', 'Sam Chen', 'Jordan Patel'];
+const COUNTRIES = ['USA', 'UK', 'Canada', 'India', 'Brazil', 'Japan'];
+const AUDIENCES = ['Gen Z', 'Millennials', 'Professionals', 'Parents', 'Students'];
+const FIRST = ['nova', 'pixel', 'urban', 'daily', 'wild', 'cosmic', 'lucky', 'bright', 'zen', 'retro'];
+const SECOND = ['fox', 'kitchen', 'lens', 'studio', 'trail', 'wave', 'bytes', 'atlas', 'bloom', 'forge'];
+const TAGS = ['priority', 'sponsored', 'growth', 'evergreen', 'collab', 'paused'];
+
+// Fixed reference date so generated dates do not drift between runs.
+const REFERENCE_DATE = Date.UTC(2025, 0, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+// The first spelling of the handle that the platform accepts, so demo
+// accounts can be edited without tripping the handle rules.
+const demoHandle = (first: string, second: string, n: number, platform: UserAccount['platform']) =>
+  [`${first}_${second}${n}`, `${first}.${second}${n}`, `${first}-${second}${n}`, `${first}${n}`, `${first}-${second}${n}.bsky.social`]
+    .find(handle => !validateHandle(platform, handle)) ?? `${first}${n}`;
+
+export const generateMockData = (count: number, seed = 42): UserAccount[] => {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const isoDaysAgo = (maxDays: number) => new Date(REFERENCE_DATE - Math.floor(random() * maxDays) * DAY).toISOString();
+
+  return Array.from({ length: count }, (_, index) => {
+    const platform = pick(PLATFORMS);
+    const username = `@${demoHandle(pick(FIRST), pick(SECOND), index + 1, platform)}`;
+    const category = pick(CATEGORIES);
+    const lastActive = isoDaysAgo(30);
+    return {
+      id: `demo-${String(index + 1).padStart(3, '0')}`,
+      username,
+      platform,
+      followers: Math.floor(Math.pow(random(), 3) * 2_000_000) + 200,
+      engagementRate: Math.round(random() * 900) / 100,
+      status: pick(STATUSES),
+      lastActive,
+      bio: `${category} content by ${username.slice(1)}.`,
+      category,
+      avatar: `https://ui-avatars.com/api/?name=${username.replace('@', '')}&background=random&color=fff`,
+      email: `${username.slice(1)}@example.com`,
+      country: pick(COUNTRIES),
+      tags: TAGS.filter(() => random() < 0.25),
+      isFavorite: random() < 0.15,
+      isArchived: random() < 0.05,
+      accountManager: pick(MANAGERS),
+      targetAudience: pick(AUDIENCES),
+      lastPostedDate: lastActive,
+      creationDate: isoDaysAgo(1500),
+      history: [{ date: new Date(REFERENCE_DATE).toISOString(), action: 'Created', details: 'Demo dataset' }]
+    };
+  });
 };
 
-export const MOCK_DATABASE: UserAccount[] = [];
\ No newline at end of file
+export const MOCK_DATABASE: UserAccount[] = generateMockData(48);
+
+// Identity used when the app runs without Firebase.
+export const DEMO_USER = { uid: 'local-demo', email: 'demo@socialbase.local', displayName: 'Demo Admin' };
+
+export const DEMO_WORKSPACE: Workspace = { id: 'demo', name: 'Demo Workspace', role: 'admin' };
+
+export const DEMO_PROFILE: UserProfile = { ...DEMO_USER, role: 'admin', managerName: DEMO_USER.displayName };
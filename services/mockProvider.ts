@@ -0,0 +1,58 @@
+import { estimateTokens, JsonSchema, LLMCallOptions, LLMProvider } from "./llm";
+
+export const MOCK_MODEL = "mock";
+
+// Pretends to think for a moment so progress indicators can be seen.
+const MOCK_LATENCY_MS = 300;
+
+// FNV-1a, so the same prompt always produces the same reply.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Fills the schema with values derived from the seed and the property path.
+const sample = (schema: JsonSchema, seed: string): unknown => {
+  const h = hash(seed);
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, child]) => [key, sample(child, `${seed}.${key}`)]));
+    case "array":
+      return Array.from({ length: 3 }, (_, i) => sample(schema.items ?? { type: "string" }, `${seed}[${i}]`));
+    case "string":
+      if (schema.enum?.length) return schema.enum[h % schema.enum.length];
+      return `Sample ${seed.slice(seed.lastIndexOf(".") + 1).replace(/\[(\d+)\]$/, " $1")} (${(h % 9000) + 1000})`;
+    case "number":
+      return (h % 10000) / 100;
+    case "integer":
+      return h % 1000;
+    case "boolean":
+      return h % 2 === 0;
+  }
+};
+
+// A deterministic stand-in for offline demos: replies depend only on the
+// prompt and never leave the browser.
+export const createMockProvider = (): LLMProvider => {
+  const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  return {
+    id: "mock",
+    model: MOCK_MODEL,
+    generateJson: async <T,>(prompt: string, schema: JsonSchema, options?: LLMCallOptions) => {
+      await delay();
+      const reply = sample(schema, `${hash(prompt)}`);
+      options?.onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(JSON.stringify(reply)) });
+      return reply as T;
+    },
+    searchGrounded: async (prompt, options) => {
+      await delay();
+      const text = `Mock answer ${hash(prompt) % 10000}. The mock provider returns placeholder text; choose Gemini in Settings for live trends.`;
+      options?.onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+      return { text, sources: [], grounded: false };
+    }
+  };
+};
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { flushQueue, loadQueue, prepareBulkUpdate, prepareWrite, saveQueue } from "./offlineQueue";
+import { createLocalAccountRepository } from "./localAccountRepository";
+import { setActiveWorkspace } from "./workspaces";
+import { DEMO_PROFILE } from "./mockData";
+import { AccountRepository } from "./accountRepository";
+import { UserAccount } from "../types";
+
+let repository: AccountRepository;
+let accounts: UserAccount[];
+let workspace = 0;
+
+// Each test gets its own in-memory workspace, seeded with the demo accounts.
+beforeEach(async () => {
+  const id = `queue-${++workspace}`;
+  setActiveWorkspace({ id, name: "Queue", role: "admin" });
+  repository = createLocalAccountRepository(DEMO_PROFILE, id, false);
+  accounts = await repository.list();
+});
+
+describe("queue storage", () => {
+  it("keeps one queue per workspace and removes empty ones", async () => {
+    const write = await prepareWrite("delete", ["x"], "Delete @x", accounts);
+    saveQueue("one", [write]);
+    expect(loadQueue("one")).toEqual([write]);
+    expect(loadQueue("two")).toEqual([]);
+    saveQueue("one", []);
+    expect(localStorage.getItem("socialbase.pendingWrites:one")).toBeNull();
+  });
+});
+
+describe("flushQueue", () => {
+  it("reports fields a teammate changed and still applies ours", async () => {
+    const [target] = accounts;
+    const write = await prepareWrite("update", [target.id], "Edit", accounts, { status: "Verified", category: "Ours" });
+    await repository.update(target.id, { category: "Theirs" });
+
+    const done: string[] = [];
+    const result = await flushQueue([write], repository, id => done.push(id));
+
+    expect(result.flushed).toBe(1);
+    expect(done).toEqual([write.id]);
+    expect(result.conflicts).toEqual([{
+      writeId: write.id, accountId: target.id, username: target.username,
+      field: "category", base: target.category, theirs: "Theirs", ours: "Ours"
+    }]);
+    expect(await repository.get(target.id)).toMatchObject({ status: "Verified", category: "Ours" });
+  });
+
+  it("does not report a field the teammate set to the same value", async () => {
+    const [target] = accounts;
+    const write = await prepareWrite("update", [target.id], "Edit", accounts, { category: "Same" });
+    await repository.update(target.id, { category: "Same" });
+    expect((await flushQueue([write], repository, () => {})).conflicts).toEqual([]);
+  });
+
+  it("merges history instead of overwriting it", async () => {
+    const [target] = accounts;
+    const ours = { date: "2025-02-01T00:00:00.000Z", action: "Ours" };
+    const theirs = { date: "2025-01-15T00:00:00.000Z", action: "Theirs" };
+    const write = await prepareWrite("update", [target.id], "Edit", accounts, { history: [...target.history!, ours] });
+    await repository.update(target.id, { history: [...target.history!, theirs] });
+
+    await flushQueue([write], repository, () => {});
+    expect((await repository.get(target.id))!.history).toEqual([...target.history!, theirs, ours]);
+  });
+
+  it("reconciles bulk updates per account", async () => {
+    const [a, b] = accounts;
+    const write = prepareBulkUpdate("Bulk", accounts, { [a.id]: { country: "A" }, [b.id]: { country: "B" } });
+    await repository.update(b.id, { country: "Elsewhere" });
+
+    const result = await flushQueue([write], repository, () => {});
+    expect(result.conflicts.map(c => c.accountId)).toEqual([b.id]);
+    expect((await repository.get(a.id))!.country).toBe("A");
+    expect((await repository.get(b.id))!.country).toBe("B");
+  });
+
+  it("skips accounts deleted in the meantime and drops writes that fail", async () => {
+    const [target] = accounts;
+    const update = await prepareWrite("update", [target.id], "Edit", accounts, { category: "Ours" });
+    const invalid = await prepareWrite("update", [accounts[1].id], "Bad edit", accounts, { followers: -1 });
+    await repository.delete(target.id);
+
+    const done: string[] = [];
+    const result = await flushQueue([update, invalid], repository, id => done.push(id));
+    expect(result.missing).toEqual([{ accountId: target.id, label: "Edit" }]);
+    expect(result.failed.map(f => f.label)).toEqual(["Bad edit"]);
+    expect(done).toEqual([update.id, invalid.id]);
+  });
+});
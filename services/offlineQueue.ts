@@ -0,0 +1,192 @@
+import { AccountRepository, AccountWrite, PendingChange, pendingCreate, pendingDelete, pendingUpdate } from "./accountRepository";
+import { CREDENTIAL_FIELDS, encryptCredentials } from "./vault";
+import { getActiveWorkspaceId } from "./workspaces";
+import { ActivityLog, UserAccount } from "../types";
+
+// Writes made while the backend is unreachable are held here (and in
+// localStorage, per workspace) instead of in the SDK's own queue, so that
+// on reconnect each one can be checked against the server before it lands.
+const QUEUE_KEY = "socialbase.pendingWrites";
+
+export interface QueuedWrite {
+  id: string;
+  label: string;
+  queuedAt: string;
+  kind: "create" | "update" | "delete";
+  accountIds: string[];
+  // create: the new account. update: the changed fields, applied to every id,
+  // or per account for bulk edits. Credentials are encrypted before they are queued.
+  data?: Omit<UserAccount, "id">;
+  updates?: Partial<UserAccount>;
+  updatesById?: Record<string, Partial<UserAccount>>;
+  // update: the changed fields' values when the write was queued, per account.
+  base?: Record<string, Partial<UserAccount>>;
+}
+
+export interface WriteConflict {
+  writeId: string;
+  accountId: string;
+  username: string;
+  field: keyof UserAccount;
+  base: unknown;
+  theirs: unknown;
+  ours: unknown;
+}
+
+export interface FlushResult {
+  flushed: number;
+  conflicts: WriteConflict[];
+  // Accounts deleted on the server before a queued update reached them.
+  missing: { accountId: string; label: string }[];
+  failed: { label: string; message: string }[];
+}
+
+// Takes the workspace explicitly: a queue must never be saved under the
+// workspace the user has just switched to.
+const queueKey = (workspaceId: string) => `${QUEUE_KEY}:${workspaceId}`;
+
+export const loadQueue = (workspaceId: string): QueuedWrite[] => {
+  try {
+    return JSON.parse(localStorage.getItem(queueKey(workspaceId)) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const saveQueue = (workspaceId: string, queue: QueuedWrite[]) => {
+  if (queue.length) localStorage.setItem(queueKey(workspaceId), JSON.stringify(queue));
+  else localStorage.removeItem(queueKey(workspaceId));
+};
+
+const pick = (account: UserAccount | undefined, fields: string[]): Partial<UserAccount> =>
+  Object.fromEntries(fields.map(f => [f, account?.[f as keyof UserAccount]]));
+
+// Builds a write from the current (possibly cached) view of the accounts.
+// Throws VaultLockedError if it carries plaintext credentials and the vault is locked.
+export const prepareWrite = async (
+  kind: QueuedWrite["kind"],
+  accountIds: string[],
+  label: string,
+  accounts: UserAccount[],
+  payload?: Partial<UserAccount>
+): Promise<QueuedWrite> => {
+  const write: QueuedWrite = { id: crypto.randomUUID(), label, queuedAt: new Date().toISOString(), kind, accountIds };
+  if (kind === "create") write.data = await encryptCredentials(payload as Omit<UserAccount, "id">);
+  if (kind === "update" && payload) {
+    write.updates = await encryptCredentials(payload);
+    const fields = Object.keys(payload);
+    write.base = Object.fromEntries(accountIds.map(id => [id, pick(accounts.find(a => a.id === id), fields)]));
+  }
+  return write;
+};
+
+// Like prepareWrite for an update, but with different fields for each account.
+export const prepareBulkUpdate = (
+  label: string,
+  accounts: UserAccount[],
+  updatesById: Record<string, Partial<UserAccount>>
+): QueuedWrite => {
+  const accountIds = Object.keys(updatesById);
+  return {
+    id: crypto.randomUUID(),
+    label,
+    queuedAt: new Date().toISOString(),
+    kind: "update",
+    accountIds,
+    updatesById,
+    base: Object.fromEntries(accountIds.map(id => [id, pick(accounts.find(a => a.id === id), Object.keys(updatesById[id]))]))
+  };
+};
+
+const updatesFor = (write: QueuedWrite, accountId: string): Partial<UserAccount> =>
+  write.updatesById?.[accountId] ?? write.updates!;
+
+export const pendingChangeFor = (write: QueuedWrite): PendingChange => {
+  if (write.kind === "create") return pendingCreate({ id: write.accountIds[0], ...write.data! });
+  if (write.kind === "update" && write.updatesById) {
+    return accounts => write.accountIds.reduce((acc, id) => pendingUpdate([id], updatesFor(write, id))(acc), accounts);
+  }
+  if (write.kind === "update") return pendingUpdate(write.accountIds, write.updates!);
+  return pendingDelete(write.accountIds);
+};
+
+// Repository writes for a write that is committed straight away.
+export const writesFor = (write: QueuedWrite, accounts: UserAccount[]): AccountWrite[] => {
+  if (write.kind === "create") return [{ type: "create", id: write.accountIds[0], data: write.data! }];
+  if (write.kind === "delete") return write.accountIds.map(id => ({ type: "delete", id, current: accounts.find(a => a.id === id) }));
+  return write.accountIds.map(id => ({ type: "update", id, updates: updatesFor(write, id), current: accounts.find(a => a.id === id) }));
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Replays an update against the server's current document. Fields a teammate
+// changed in the meantime are reported as conflicts; ours still win, since
+// that is the edit the user made. History is merged rather than overwritten.
+const reconcileUpdate = (write: QueuedWrite, accountId: string, server: UserAccount, conflicts: WriteConflict[]) => {
+  const updates = { ...updatesFor(write, accountId) };
+  const base = write.base?.[accountId] ?? {};
+
+  if (updates.history) {
+    const ourEntries = updates.history.slice((base.history as ActivityLog[] | undefined)?.length ?? 0);
+    updates.history = [...(server.history || []), ...ourEntries];
+  }
+
+  (Object.keys(updates) as (keyof UserAccount)[]).forEach(field => {
+    // Ciphertexts differ on every encryption, so credentials cannot be compared.
+    if (field === "history" || (CREDENTIAL_FIELDS as readonly string[]).includes(field)) return;
+    const theirs = server[field];
+    if (!sameValue(theirs, base[field]) && !sameValue(theirs, updates[field])) {
+      conflicts.push({ writeId: write.id, accountId, username: server.username, field, base: base[field], theirs, ours: updates[field] });
+    }
+  });
+  return updates;
+};
+
+// Sends queued writes in order. Each write is removed via onWriteDone once it
+// has been committed, or has failed and been dropped. Stops early, leaving
+// the rest queued, if the connection drops or the user switches workspace.
+export const flushQueue = async (
+  queue: QueuedWrite[],
+  repository: AccountRepository,
+  onWriteDone: (id: string) => void
+): Promise<FlushResult> => {
+  const workspaceId = getActiveWorkspaceId();
+  const isStillActive = () => {
+    try {
+      return getActiveWorkspaceId() === workspaceId;
+    } catch {
+      return false;
+    }
+  };
+  const result: FlushResult = { flushed: 0, conflicts: [], missing: [], failed: [] };
+
+  for (const write of queue) {
+    if (!isStillActive()) break;
+    try {
+      let writes: AccountWrite[] = [];
+      if (write.kind === "update") {
+        for (const id of write.accountIds) {
+          const server = await repository.get(id, { fresh: true });
+          if (!server) {
+            result.missing.push({ accountId: id, label: write.label });
+            continue;
+          }
+          writes.push({ type: "update", id, updates: reconcileUpdate(write, id, server, result.conflicts), current: server });
+        }
+      } else {
+        writes = writesFor(write, []);
+      }
+      // Writes resolve their paths against the active workspace when committed.
+      if (!isStillActive()) break;
+      await repository.batch(writes);
+      result.flushed++;
+    } catch (error: any) {
+      // Lost the connection again: keep this and the remaining writes queued.
+      if (error?.code === "unavailable") break;
+      console.error(`Queued write "${write.label}" failed:`, error);
+      result.failed.push({ label: write.label, message: error?.message || String(error) });
+    }
+    onWriteDone(write.id);
+  }
+  return result;
+};
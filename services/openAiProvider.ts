@@ -0,0 +1,59 @@
+import { errorForStatus, estimateTokens, LLMCallOptions, LLMError, LLMNetworkError, LLMProvider, LLMSchemaError, parseJsonReply } from "./llm";
+
+// Ollama serves an OpenAI-compatible API here by default.
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// Talks to any server that implements POST /chat/completions. It has no
+// search tool, so grounded questions are answered from the model alone.
+export const createOpenAiProvider = (model = DEFAULT_OPENAI_MODEL, baseUrl = DEFAULT_OPENAI_BASE_URL, apiKey = ""): LLMProvider => {
+  // Servers that omit usage are estimated from the prompt and reply lengths.
+  const complete = async (prompt: string, body: Record<string, unknown>, options?: LLMCallOptions): Promise<string> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({ model, messages: [{ role: "user", content: prompt }], ...body })
+      });
+    } catch (err) {
+      throw new LLMNetworkError(`Could not reach ${baseUrl}. Is the server running and does it allow this origin (CORS)?`, err);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw errorForStatus(response.status, detail.slice(0, 200) || response.statusText);
+    }
+    try {
+      const completion: ChatCompletion = await response.json();
+      const text = completion.choices?.[0]?.message?.content ?? "";
+      options?.onUsage?.({
+        inputTokens: completion.usage?.prompt_tokens ?? estimateTokens(prompt),
+        outputTokens: completion.usage?.completion_tokens ?? estimateTokens(text)
+      });
+      return text;
+    } catch (err) {
+      throw err instanceof LLMError ? err : new LLMSchemaError("The server's reply was not a chat completion.", err);
+    }
+  };
+
+  return {
+    id: "openai",
+    model,
+    generateJson: async (prompt, schema, options) => {
+      const text = await complete(prompt, {
+        response_format: { type: "json_schema", json_schema: { name: "response", schema } }
+      }, options);
+      return parseJsonReply(text, schema);
+    },
+    searchGrounded: async (prompt, options) => ({
+      text: await complete(prompt, {}, options),
+      sources: [],
+      grounded: false
+    })
+  };
+};
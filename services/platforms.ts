@@ -0,0 +1,155 @@
+import { AtSign, Cloud, Facebook, Ghost, Instagram, Linkedin, LucideIcon, MessageCircle, Music2, Pin, Twitter, Youtube } from "lucide-react";
+import { Platform } from "../types";
+
+// Everything the app knows about a network. Adding one means adding it to
+// the Platform type and to PLATFORM_REGISTRY; the form, filters, search,
+// importer, charts and AI prompts all read from here.
+export interface PlatformDefinition {
+  id: Platform;
+  name: string;
+  icon: LucideIcon;
+  // Brand color, used for chart series and badges on the dark theme.
+  color: string;
+  // "{handle}" is replaced with the handle without its leading "@".
+  profileUrl: string;
+  handle: {
+    pattern: RegExp;
+    // Shown when a handle does not match the pattern.
+    hint: string;
+  };
+  // What the network calls the numbers stored in followers and engagementRate.
+  metrics: {
+    audience: string;
+    engagement: string;
+  };
+  // Other spellings accepted by the importer and the search box, lowercase.
+  aliases: string[];
+  // Longest profile bio (or headline, for LinkedIn) the network accepts, in characters.
+  bioMaxLength: number;
+}
+
+export const PLATFORM_REGISTRY: Record<Platform, PlatformDefinition> = {
+  Twitter: {
+    id: "Twitter", name: "X (Twitter)", icon: Twitter, color: "#1d9bf0",
+    profileUrl: "https://x.com/{handle}",
+    handle: { pattern: /^[A-Za-z0-9_]{1,15}$/, hint: "up to 15 letters, numbers or underscores" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["x", "x.com", "twitter"],
+    bioMaxLength: 160
+  },
+  Instagram: {
+    id: "Instagram", name: "Instagram", icon: Instagram, color: "#e1306c",
+    profileUrl: "https://www.instagram.com/{handle}",
+    handle: { pattern: /^[A-Za-z0-9._]{1,30}$/, hint: "up to 30 letters, numbers, periods or underscores" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["instagram", "insta", "ig"],
+    bioMaxLength: 150
+  },
+  LinkedIn: {
+    id: "LinkedIn", name: "LinkedIn", icon: Linkedin, color: "#0a66c2",
+    profileUrl: "https://www.linkedin.com/in/{handle}",
+    handle: { pattern: /^[A-Za-z0-9-]{3,100}$/, hint: "3 to 100 letters, numbers or hyphens" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["linkedin", "li"],
+    bioMaxLength: 220
+  },
+  TikTok: {
+    id: "TikTok", name: "TikTok", icon: Music2, color: "#25f4ee",
+    profileUrl: "https://www.tiktok.com/@{handle}",
+    handle: { pattern: /^[A-Za-z0-9._]{2,24}$/, hint: "2 to 24 letters, numbers, periods or underscores" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["tiktok", "tt"],
+    bioMaxLength: 80
+  },
+  YouTube: {
+    id: "YouTube", name: "YouTube", icon: Youtube, color: "#ff0033",
+    profileUrl: "https://www.youtube.com/@{handle}",
+    handle: { pattern: /^[A-Za-z0-9._-]{3,30}$/, hint: "3 to 30 letters, numbers, periods, hyphens or underscores" },
+    metrics: { audience: "Subscribers", engagement: "Engagement rate" },
+    aliases: ["youtube", "yt"],
+    bioMaxLength: 1000
+  },
+  Facebook: {
+    id: "Facebook", name: "Facebook", icon: Facebook, color: "#1877f2",
+    profileUrl: "https://www.facebook.com/{handle}",
+    handle: { pattern: /^[A-Za-z0-9.]{5,50}$/, hint: "5 to 50 letters, numbers or periods" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["facebook", "fb", "meta"],
+    bioMaxLength: 101
+  },
+  Threads: {
+    id: "Threads", name: "Threads", icon: AtSign, color: "#d4d4d8",
+    profileUrl: "https://www.threads.net/@{handle}",
+    handle: { pattern: /^[A-Za-z0-9._]{1,30}$/, hint: "up to 30 letters, numbers, periods or underscores" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["threads"],
+    bioMaxLength: 150
+  },
+  Bluesky: {
+    id: "Bluesky", name: "Bluesky", icon: Cloud, color: "#1185fe",
+    profileUrl: "https://bsky.app/profile/{handle}",
+    handle: { pattern: /^(?=.{3,253}$)[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/, hint: "a domain, e.g. name.bsky.social" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["bluesky", "bsky", "bsky.social"],
+    bioMaxLength: 256
+  },
+  Reddit: {
+    id: "Reddit", name: "Reddit", icon: MessageCircle, color: "#ff4500",
+    profileUrl: "https://www.reddit.com/user/{handle}",
+    handle: { pattern: /^[A-Za-z0-9_-]{3,20}$/, hint: "3 to 20 letters, numbers, hyphens or underscores" },
+    metrics: { audience: "Followers", engagement: "Upvote rate" },
+    aliases: ["reddit", "u/"],
+    bioMaxLength: 200
+  },
+  Pinterest: {
+    id: "Pinterest", name: "Pinterest", icon: Pin, color: "#e60023",
+    profileUrl: "https://www.pinterest.com/{handle}",
+    handle: { pattern: /^[A-Za-z0-9_]{3,30}$/, hint: "3 to 30 letters, numbers or underscores" },
+    metrics: { audience: "Followers", engagement: "Engagement rate" },
+    aliases: ["pinterest", "pin"],
+    bioMaxLength: 500
+  },
+  Snapchat: {
+    id: "Snapchat", name: "Snapchat", icon: Ghost, color: "#fffc00",
+    profileUrl: "https://www.snapchat.com/add/{handle}",
+    handle: { pattern: /^[A-Za-z][A-Za-z0-9._-]{2,14}$/, hint: "3 to 15 characters, starting with a letter" },
+    metrics: { audience: "Subscribers", engagement: "Engagement rate" },
+    aliases: ["snapchat", "snap", "sc"],
+    bioMaxLength: 150
+  }
+};
+
+export const PLATFORMS = Object.keys(PLATFORM_REGISTRY) as Platform[];
+
+export const isPlatform = (value: unknown): value is Platform =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(PLATFORM_REGISTRY, value);
+
+// Unknown values (e.g. a platform removed from the registry) fall back to a
+// neutral definition rather than breaking the page.
+export const platformFor = (platform: string): PlatformDefinition =>
+  isPlatform(platform)
+    ? PLATFORM_REGISTRY[platform]
+    : {
+        id: platform as Platform, name: platform || "Unknown", icon: AtSign, color: "#64748b", profileUrl: "",
+        handle: { pattern: /.*/, hint: "" },
+        metrics: { audience: "Followers", engagement: "Engagement rate" },
+        aliases: [],
+        bioMaxLength: 160
+      };
+
+export const findPlatform = (value: string): Platform | null => {
+  const key = value.trim().toLowerCase();
+  return PLATFORMS.find(p => p.toLowerCase() === key || PLATFORM_REGISTRY[p].aliases.includes(key)) ?? null;
+};
+
+export const profileUrlFor = (platform: string, username: string): string | null => {
+  const template = platformFor(platform).profileUrl;
+  const handle = username.replace(/^@+/, "");
+  return template && handle ? template.replace("{handle}", encodeURIComponent(handle)) : null;
+};
+
+// Returns a message when the handle (with or without "@") breaks the platform's rules.
+export const validateHandle = (platform: string, username: string): string | null => {
+  const { name, handle } = platformFor(platform);
+  return handle.pattern.test(username.replace(/^@/, "")) ? null : `is not a valid ${name} handle: ${handle.hint}`;
+};
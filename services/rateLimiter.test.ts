@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createRateLimiter", () => {
+  it("lets a burst through and spaces the rest", async () => {
+    const limiter = createRateLimiter(60, 2);
+    const released: number[] = [];
+    const start = Date.now();
+    const takes = Array.from({ length: 4 }, () => limiter.take().then(() => released.push(Date.now() - start)));
+
+    await vi.runAllTimersAsync();
+    await Promise.all(takes);
+    expect(released).toEqual([0, 0, 1000, 2000]);
+  });
+
+  it("refills while idle, up to its capacity", async () => {
+    const limiter = createRateLimiter(60, 2);
+    await limiter.take();
+    await limiter.take();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    const released: number[] = [];
+    const start = Date.now();
+    const takes = Array.from({ length: 3 }, () => limiter.take().then(() => released.push(Date.now() - start)));
+    await vi.runAllTimersAsync();
+    await Promise.all(takes);
+    expect(released).toEqual([0, 0, 1000]);
+  });
+
+  it("releases callers in the order they arrived", async () => {
+    const limiter = createRateLimiter(120, 1);
+    const order: number[] = [];
+    const takes = [1, 2, 3].map(n => limiter.take().then(() => order.push(n)));
+    await vi.runAllTimersAsync();
+    await Promise.all(takes);
+    expect(order).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,36 @@
+// A token bucket: up to `capacity` requests may go out at once, after which
+// they are spaced to `perMinute`. Callers wait in the order they arrived.
+export interface RateLimiter {
+  take: () => Promise<void>;
+}
+
+export const createRateLimiter = (perMinute: number, capacity = perMinute): RateLimiter => {
+  const refillMs = 60_000 / perMinute;
+  let tokens = capacity;
+  let updatedAt = Date.now();
+  // The chain of waiting callers, so bursts are released one token at a time.
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - updatedAt) / refillMs);
+    updatedAt = now;
+  };
+
+  const acquire = async () => {
+    refill();
+    while (tokens < 1) {
+      await new Promise(resolve => setTimeout(resolve, (1 - tokens) * refillMs));
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  return {
+    take: () => {
+      const turn = queue.then(acquire);
+      queue = turn;
+      return turn;
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { UserAccount, UserProfile, UserRole } from "../types";
+
+// Mirrors firestore.rules. Roles are per workspace and come from the
+// member doc; the rules are the source of truth and these checks only
+// decide what the UI offers.
+export type Permission =
+  | "account:create"
+  | "account:edit"
+  | "account:delete"
+  | "account:bulk"
+  | "account:import"
+  | "credentials:reveal"
+  | "workspace:restore"
+  | "roles:manage"
+  | "views:manageShared"
+  | "audit:view";
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ["account:create", "account:edit", "account:delete", "account:bulk", "account:import", "credentials:reveal", "workspace:restore", "roles:manage", "views:manageShared", "audit:view"],
+  manager: ["account:create", "account:edit", "credentials:reveal"],
+  viewer: []
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  viewer: "Viewer"
+};
+
+export const can = (profile: UserProfile | null, permission: Permission, account?: Partial<UserAccount>): boolean => {
+  if (!profile || !ROLE_PERMISSIONS[profile.role].includes(permission)) return false;
+  if (profile.role === "manager" && account) return isManagedBy(account, profile);
+  return true;
+};
+
+export const isManagedBy = (account: Partial<UserAccount>, profile: UserProfile) =>
+  !!profile.managerName && account.accountManager === profile.managerName;
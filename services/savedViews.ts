@@ -0,0 +1,188 @@
+import { deleteDoc, doc, onSnapshot, query, setDoc, Unsubscribe, updateDoc, where } from "firebase/firestore";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { AccountFilters, matchesAccountFilters } from "./accountRepository";
+import { matchesSearch, parseSearchQuery } from "./searchQuery";
+import { AccountField, ColumnSort, isAccountField } from "./accountColumns";
+import { getActiveWorkspaceId, workspaceCollection } from "./workspaces";
+import { UserAccount, UserProfile } from "../types";
+
+// Named account table states, stored in workspaces/{id}/views. Personal
+// views are visible to their owner only; shared ones to the whole workspace.
+const VIEWS = "views";
+const LOCAL_VIEWS_KEY = "socialbase.views";
+
+export interface TableViewState {
+  search: string;
+  archived: boolean;
+  favoritesOnly: boolean;
+  platform: UserAccount["platform"] | "";
+  status: UserAccount["status"] | "";
+  // null matches any manager; "" matches unassigned accounts.
+  accountManager: string | null;
+  // Applied in order; later keys break ties in earlier ones.
+  sort: ColumnSort[];
+  pageSize: number;
+  // Visible columns after the identity column, in display order.
+  columns: AccountField[];
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  ownerUid: string;
+  ownerName: string;
+  shared: boolean;
+  state: TableViewState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const DEFAULT_VIEW_STATE: TableViewState = {
+  search: "",
+  archived: false,
+  favoritesOnly: false,
+  platform: "",
+  status: "",
+  accountManager: null,
+  sort: [{ field: "username", direction: "asc" }],
+  pageSize: 25,
+  columns: ["accountManager", "platform", "followers", "status"]
+};
+
+// Column ids used before columns were keyed by field.
+const LEGACY_COLUMNS: Record<string, AccountField> = {
+  custodian: "accountManager",
+  network: "platform",
+  reach: "followers"
+};
+
+// Views saved by older versions had a single sort key and named columns.
+const normalizeViewState = (state: any): TableViewState => {
+  const sort: ColumnSort[] = (Array.isArray(state?.sort) ? state.sort : state?.sort ? [state.sort] : [])
+    .filter((s: ColumnSort) => isAccountField(s?.field));
+  const columns = Array.isArray(state?.columns)
+    ? state.columns.map((c: string) => LEGACY_COLUMNS[c] ?? c).filter(isAccountField)
+    : DEFAULT_VIEW_STATE.columns;
+  return { ...DEFAULT_VIEW_STATE, ...state, sort: sort.length ? sort : DEFAULT_VIEW_STATE.sort, columns };
+};
+
+const normalizeView = (view: SavedView): SavedView => ({ ...view, state: normalizeViewState(view.state) });
+
+export const toAccountFilters = (state: TableViewState): AccountFilters => ({
+  archived: state.archived,
+  platform: state.platform || undefined,
+  status: state.status || undefined,
+  accountManager: state.accountManager ?? undefined,
+  favoritesOnly: state.favoritesOnly
+});
+
+// The accounts a view shows, evaluated over loaded data like the table does
+// for search queries.
+export const accountsInView = (state: TableViewState, accounts: UserAccount[]): UserAccount[] => {
+  const filters = toAccountFilters(state);
+  const { query } = parseSearchQuery(state.search);
+  return accounts.filter(a => matchesAccountFilters(a, filters) && (!query || matchesSearch(a, query)));
+};
+
+// Compares the parts of a state that a view restores.
+export const isSameViewState = (a: TableViewState, b: TableViewState) => JSON.stringify(a) === JSON.stringify(b);
+
+// The local backends keep views in the tab ("memory") or in localStorage
+// ("local"), and notify subscribers in the same tab directly.
+const memoryViews = new Map<string, SavedView[]>();
+const localListeners = new Set<() => void>();
+
+const localKey = () => `${LOCAL_VIEWS_KEY}:${getActiveWorkspaceId()}`;
+
+const loadLocalViews = (): SavedView[] => {
+  if (DATA_BACKEND === "memory") return memoryViews.get(localKey()) ?? [];
+  try {
+    return JSON.parse(localStorage.getItem(localKey()) || "[]").map(normalizeView);
+  } catch {
+    return [];
+  }
+};
+
+const saveLocalViews = (views: SavedView[]) => {
+  if (DATA_BACKEND === "memory") memoryViews.set(localKey(), views);
+  else localStorage.setItem(localKey(), JSON.stringify(views));
+  localListeners.forEach(listener => listener());
+};
+
+const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name);
+
+// Calls onChange with the views the profile can see: its own and every shared one.
+export const subscribeToViews = (
+  profile: UserProfile,
+  onChange: (views: SavedView[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  if (!isFirestoreBackend()) {
+    const emit = () => onChange(loadLocalViews().filter(v => v.shared || v.ownerUid === profile.uid).sort(byName));
+    localListeners.add(emit);
+    emit();
+    return () => { localListeners.delete(emit); };
+  }
+
+  // The rules only allow queries that are limited to readable views, so the
+  // two halves are fetched separately and merged.
+  let own: SavedView[] | null = null;
+  let shared: SavedView[] | null = null;
+  const emit = () => {
+    if (!own || !shared) return;
+    const merged = new Map([...shared, ...own].map(v => [v.id, v]));
+    onChange(Array.from(merged.values()).sort(byName));
+  };
+  const toViews = (docs: { id: string; data: () => any }[]) => docs.map(d => normalizeView({ id: d.id, ...d.data() } as SavedView));
+
+  const unsubscribers = [
+    onSnapshot(query(workspaceCollection(VIEWS), where("ownerUid", "==", profile.uid)), snapshot => {
+      own = toViews(snapshot.docs);
+      emit();
+    }, onError),
+    onSnapshot(query(workspaceCollection(VIEWS), where("shared", "==", true)), snapshot => {
+      shared = toViews(snapshot.docs);
+      emit();
+    }, onError)
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+export const createView = async (
+  profile: UserProfile,
+  view: Pick<SavedView, "name" | "shared" | "state">
+): Promise<SavedView> => {
+  const now = new Date().toISOString();
+  const data: Omit<SavedView, "id"> = {
+    ...view,
+    ownerUid: profile.uid,
+    ownerName: profile.displayName || profile.email || "",
+    createdAt: now,
+    updatedAt: now
+  };
+  if (!isFirestoreBackend()) {
+    const created = { id: crypto.randomUUID(), ...data };
+    saveLocalViews([...loadLocalViews(), created]);
+    return created;
+  }
+  const ref = doc(workspaceCollection(VIEWS));
+  await setDoc(ref, data);
+  return { id: ref.id, ...data };
+};
+
+export const updateView = async (id: string, updates: Partial<Pick<SavedView, "name" | "shared" | "state">>): Promise<void> => {
+  const changes = { ...updates, updatedAt: new Date().toISOString() };
+  if (!isFirestoreBackend()) {
+    saveLocalViews(loadLocalViews().map(v => v.id === id ? { ...v, ...changes } : v));
+    return;
+  }
+  await updateDoc(doc(workspaceCollection(VIEWS), id), changes);
+};
+
+export const deleteView = async (id: string): Promise<void> => {
+  if (!isFirestoreBackend()) {
+    saveLocalViews(loadLocalViews().filter(v => v.id !== id));
+    return;
+  }
+  await deleteDoc(doc(workspaceCollection(VIEWS), id));
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { matchesSearch, parseSearchQuery, suggestSearch } from "./searchQuery";
+import { UserAccount } from "../types";
+
+const account = (overrides: Partial<UserAccount>): UserAccount => ({
+  id: "a", username: "@brand", platform: "Instagram", followers: 1000, engagementRate: 2, status: "Active",
+  lastActive: "", bio: "", category: "", avatar: "", ...overrides
+});
+
+const accounts = [
+  account({ id: "tiktok", username: "@dance", platform: "TikTok", followers: 80_000, engagementRate: 4.2, tags: ["crypto"], accountManager: "Alex", creationDate: "2024-03-01" }),
+  account({ id: "insta", username: "@style", followers: 12_000, tags: ["fashion"], accountManager: "Priya", isFavorite: true, bio: "Growth hacking tips" }),
+  account({ id: "old", username: "@legacy", platform: "Twitter", followers: 500, isArchived: true, creationDate: "2019-11-20" })
+];
+
+const search = (text: string) => {
+  const { query, errors } = parseSearchQuery(text);
+  expect(errors).toEqual([]);
+  return accounts.filter(a => matchesSearch(a, query!)).map(a => a.id);
+};
+
+describe("matchesSearch", () => {
+  it("combines fields, numbers with suffixes and ranges", () => {
+    expect(search("platform:TikTok followers:>50k engagement:2..5")).toEqual(["tiktok"]);
+    expect(search("followers:10k..")).toEqual(["tiktok", "insta"]);
+  });
+
+  it("negates, ORs and groups", () => {
+    expect(search("-manager:alex")).toEqual(["insta", "old"]);
+    expect(search('("growth hacking" OR tag:crypto) -is:favorite')).toEqual(["tiktok"]);
+  });
+
+  it("compares dates at the query's precision", () => {
+    expect(search("created:2024")).toEqual(["tiktok"]);
+    expect(search("created:<2024-01")).toEqual(["old"]);
+  });
+
+  it("matches flags", () => {
+    expect(search("is:archived")).toEqual(["old"]);
+    expect(search("is:favorite")).toEqual(["insta"]);
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("treats a blank query as no query", () => {
+    expect(parseSearchQuery("  ")).toEqual({ query: null, errors: [] });
+  });
+
+  it("locates errors in the text", () => {
+    expect(parseSearchQuery("colour:red").errors[0]).toMatchObject({ message: 'Unknown field "colour".', start: 0, end: 6 });
+    expect(parseSearchQuery("followers:lots").errors[0].message).toMatch(/not a number/);
+    expect(parseSearchQuery("(tag:a").errors[0].message).toBe("Missing closing parenthesis.");
+    expect(parseSearchQuery('bio:"open').errors[0].message).toBe("Unterminated quote.");
+    expect(parseSearchQuery("OR tag:a").errors[0].message).toBe("OR needs a term on both sides.");
+  });
+
+  it("only accepts the known flags", () => {
+    expect(parseSearchQuery("is:pinned").errors).toHaveLength(1);
+    expect(parseSearchQuery("is:constructor").errors[0].message).toBe("is: accepts favorite or archived.");
+    expect(parseSearchQuery("is:__proto__").errors).toHaveLength(1);
+    expect(parseSearchQuery("is:toString").errors).toHaveLength(1);
+  });
+});
+
+describe("suggestSearch", () => {
+  it("completes field names and known values", () => {
+    expect(suggestSearch("plat", 4, accounts).suggestions.map(s => s.insert)).toContain("platform:");
+    expect(suggestSearch("manager:pr", 10, accounts).suggestions.map(s => s.label)).toContain("Priya");
+  });
+});
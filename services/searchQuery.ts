@@ -0,0 +1,352 @@
+import { UserAccount } from "../types";
+import { PLATFORMS } from "./platforms";
+import { SENTIMENTS } from "./aiAudits";
+
+// Query language for the account search box, e.g.
+//   platform:TikTok followers:>50k engagement:2..5 -manager:alex ("growth hacking" OR tag:crypto)
+// Terms are ANDed; OR binds looser than AND; parentheses group; a leading
+// "-" negates a term or group. Bare words and "quoted phrases" match any
+// text field. Firestore cannot evaluate this, so queries run over the
+// accounts already loaded by the live feed.
+
+type FieldKind = "text" | "enum" | "list" | "number" | "date" | "flag";
+
+export interface SearchField {
+  name: string;
+  aliases: string[];
+  kind: FieldKind;
+  description: string;
+  get: (account: UserAccount) => unknown;
+  // Values offered by autocomplete; otherwise they are collected from the accounts.
+  values?: string[];
+}
+
+export const SEARCH_FIELDS: SearchField[] = [
+  { name: "username", aliases: ["handle", "user"], kind: "text", description: "Handle", get: a => a.username },
+  { name: "platform", aliases: ["network"], kind: "enum", description: "Network", get: a => a.platform, values: PLATFORMS },
+  { name: "status", aliases: [], kind: "enum", description: "Account status", get: a => a.status, values: ["Active", "Verified", "Shadowbanned", "Suspended"] },
+  { name: "followers", aliases: ["reach"], kind: "number", description: "Followers, e.g. >50k or 10k..1m", get: a => a.followers },
+  { name: "engagement", aliases: ["er"], kind: "number", description: "Engagement rate in %, e.g. 2..5", get: a => a.engagementRate },
+  { name: "tag", aliases: ["tags"], kind: "list", description: "Tag", get: a => a.tags ?? [] },
+  { name: "country", aliases: ["region"], kind: "enum", description: "Country", get: a => a.country },
+  { name: "manager", aliases: ["custodian"], kind: "text", description: "Account manager", get: a => a.accountManager },
+  { name: "category", aliases: ["niche"], kind: "text", description: "Category", get: a => a.category },
+  { name: "bio", aliases: [], kind: "text", description: "Bio text", get: a => a.bio },
+  { name: "notes", aliases: ["note"], kind: "text", description: "Internal notes", get: a => a.notes },
+  { name: "name", aliases: ["realname"], kind: "text", description: "Real name", get: a => a.realName },
+  { name: "email", aliases: [], kind: "text", description: "Email address", get: a => a.email },
+  { name: "audience", aliases: [], kind: "text", description: "Target audience", get: a => a.targetAudience },
+  { name: "created", aliases: [], kind: "date", description: "Creation date, e.g. <2024-06", get: a => a.creationDate },
+  { name: "posted", aliases: [], kind: "date", description: "Last posted date", get: a => a.lastPostedDate },
+  { name: "audited", aliases: [], kind: "date", description: "Last AI audit date, e.g. <2025-01", get: a => a.lastAuditedAt },
+  { name: "sentiment", aliases: [], kind: "enum", description: "Latest AI audit sentiment", get: a => a.lastAuditSentiment, values: [...SENTIMENTS] },
+  { name: "is", aliases: [], kind: "flag", description: "favorite or archived", get: () => undefined, values: ["favorite", "archived"] }
+];
+
+// A Map rather than an object, so that "is:constructor" is not a flag.
+const FLAGS = new Map<string, (account: UserAccount) => boolean>([
+  ["favorite", a => !!a.isFavorite],
+  ["archived", a => !!a.isArchived]
+]);
+
+// Fields that bare words and phrases are matched against.
+const FREE_TEXT_FIELDS = ["username", "platform", "name", "email", "manager", "tag", "bio", "notes", "category", "country", "audience"];
+
+const fieldByName = new Map(SEARCH_FIELDS.flatMap(f => [f.name, ...f.aliases].map(name => [name, f] as const)));
+
+export type Comparison = "=" | ">" | ">=" | "<" | "<=";
+
+export type SearchNode =
+  | { type: "and"; children: SearchNode[] }
+  | { type: "or"; children: SearchNode[] }
+  | { type: "not"; child: SearchNode }
+  | { type: "text"; value: string }
+  | { type: "compare"; field: SearchField; op: Comparison; value: string | number }
+  | { type: "range"; field: SearchField; min?: string | number; max?: string | number };
+
+export interface SearchError {
+  message: string;
+  // Character offsets into the query text.
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearch {
+  // null for an empty or malformed query.
+  query: SearchNode | null;
+  errors: SearchError[];
+}
+
+class SearchSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = "SearchSyntaxError";
+  }
+}
+
+type Token =
+  | { type: "(" | ")" | "-" | "OR"; start: number; end: number }
+  | { type: "term"; field?: string; value: string; quoted: boolean; start: number; end: number };
+
+const isBoundary = (char: string | undefined) => char === undefined || /[\s()]/.test(char);
+
+// Reads a double-quoted string starting at `start`; returns its content and the index after it.
+const readQuoted = (text: string, start: number): [string, number] => {
+  const close = text.indexOf('"', start + 1);
+  if (close === -1) throw new SearchSyntaxError("Unterminated quote.", start, text.length);
+  return [text.slice(start + 1, close), close + 1];
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char, start: i, end: i + 1 });
+      i++;
+    } else if (char === "-" && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+      tokens.push({ type: "-", start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const [value, end] = readQuoted(text, i);
+      tokens.push({ type: "term", value, quoted: true, start: i, end });
+      i = end;
+    } else {
+      const start = i;
+      while (i < text.length && !isBoundary(text[i]) && text[i] !== ":") i++;
+      const word = text.slice(start, i);
+      if (text[i] !== ":") {
+        tokens.push(word === "OR" ? { type: "OR", start, end: i } : { type: "term", value: word, quoted: false, start, end: i });
+        continue;
+      }
+      i++;
+      let value: string;
+      let quoted = false;
+      if (text[i] === '"') {
+        [value, i] = readQuoted(text, i);
+        quoted = true;
+      } else {
+        const valueStart = i;
+        while (i < text.length && !isBoundary(text[i])) i++;
+        value = text.slice(valueStart, i);
+      }
+      tokens.push({ type: "term", field: word, value, quoted, start, end: i });
+    }
+  }
+  return tokens;
+};
+
+const NUMBER = /^(\d+(?:\.\d+)?)([km])?%?$/i;
+const DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+const parseBound = (field: SearchField, raw: string, start: number, end: number): string | number => {
+  if (field.kind === "number") {
+    const match = NUMBER.exec(raw);
+    if (!match) throw new SearchSyntaxError(`"${raw}" is not a number. Use e.g. 500, 50k or 1.2m.`, start, end);
+    const scale = { k: 1e3, m: 1e6 }[match[2]?.toLowerCase() as "k" | "m"] ?? 1;
+    return parseFloat(match[1]) * scale;
+  }
+  if (!DATE.test(raw)) throw new SearchSyntaxError(`"${raw}" is not a date. Use YYYY, YYYY-MM or YYYY-MM-DD.`, start, end);
+  return raw;
+};
+
+const parseFieldTerm = (token: Extract<Token, { type: "term" }>): SearchNode => {
+  const field = fieldByName.get(token.field!.toLowerCase());
+  if (!field) throw new SearchSyntaxError(`Unknown field "${token.field}".`, token.start, token.start + token.field!.length);
+  const valueStart = token.start + token.field!.length + 1;
+  const { value } = token;
+  if (!value) throw new SearchSyntaxError(`${field.name}: needs a value.`, token.start, token.end);
+
+  if (field.kind === "flag" && !FLAGS.has(value.toLowerCase())) {
+    throw new SearchSyntaxError(`is: accepts ${Array.from(FLAGS.keys()).join(" or ")}.`, valueStart, token.end);
+  }
+  if (field.kind !== "number" && field.kind !== "date") {
+    if (!token.quoted && /^[<>]|\.\./.test(value)) {
+      throw new SearchSyntaxError(`${field.name}: does not support comparisons.`, valueStart, token.end);
+    }
+    return { type: "compare", field, op: "=", value };
+  }
+
+  if (!token.quoted && value.includes("..")) {
+    const [min, max] = value.split("..");
+    if (!min && !max) throw new SearchSyntaxError("A range needs at least one bound, e.g. 2..5 or 10k..", valueStart, token.end);
+    return {
+      type: "range",
+      field,
+      min: min ? parseBound(field, min, valueStart, valueStart + min.length) : undefined,
+      max: max ? parseBound(field, max, token.end - max.length, token.end) : undefined
+    };
+  }
+  const op = (/^(>=|<=|>|<|=)/.exec(value)?.[1] ?? "=") as Comparison;
+  const operand = value.slice(op === "=" && !value.startsWith("=") ? 0 : op.length);
+  if (!operand) throw new SearchSyntaxError(`Missing value after "${op}".`, valueStart, token.end);
+  return { type: "compare", field, op, value: parseBound(field, operand, valueStart + value.length - operand.length, token.end) };
+};
+
+// Recursive descent over: or := and ("OR" and)* ; and := unary+ ; unary := "-" unary | "(" or ")" | term
+const parseTokens = (tokens: Token[], textLength: number): SearchNode => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseUnary = (): SearchNode => {
+    const token = tokens[position++];
+    if (!token) throw new SearchSyntaxError("The query ends unexpectedly.", textLength, textLength);
+    if (token.type === "-") return { type: "not", child: parseUnary() };
+    if (token.type === "(") {
+      const inner = parseOr();
+      const close = tokens[position++];
+      if (close?.type !== ")") throw new SearchSyntaxError("Missing closing parenthesis.", token.start, close?.start ?? textLength);
+      return inner;
+    }
+    if (token.type !== "term") {
+      throw token.type === "OR"
+        ? new SearchSyntaxError("OR needs a term on both sides.", token.start, token.end)
+        : new SearchSyntaxError("Unexpected closing parenthesis.", token.start, token.end);
+    }
+    return token.field !== undefined ? parseFieldTerm(token) : { type: "text", value: token.value };
+  };
+
+  const parseAnd = (): SearchNode => {
+    const children: SearchNode[] = [];
+    while (peek() && peek().type !== "OR" && peek().type !== ")") children.push(parseUnary());
+    if (!children.length) {
+      const token = peek();
+      throw new SearchSyntaxError("OR needs a term on both sides.", token?.start ?? textLength, token?.end ?? textLength);
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseOr = (): SearchNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === "OR") {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const query = parseOr();
+  const extra = peek();
+  if (extra) throw new SearchSyntaxError("Unexpected closing parenthesis.", extra.start, extra.end);
+  return query;
+};
+
+export const parseSearchQuery = (text: string): ParsedSearch => {
+  if (!text.trim()) return { query: null, errors: [] };
+  try {
+    return { query: parseTokens(tokenize(text), text.length), errors: [] };
+  } catch (error) {
+    if (!(error instanceof SearchSyntaxError)) throw error;
+    return { query: null, errors: [{ message: error.message, start: error.start, end: error.end }] };
+  }
+};
+
+const includesText = (value: unknown, needle: string): boolean =>
+  Array.isArray(value) ? value.some(v => includesText(v, needle)) : String(value ?? "").toLowerCase().includes(needle);
+
+const compare = (actual: number | string, op: Comparison, expected: number | string) => {
+  switch (op) {
+    case "=": return actual === expected;
+    case ">": return actual > expected;
+    case ">=": return actual >= expected;
+    case "<": return actual < expected;
+    case "<=": return actual <= expected;
+  }
+};
+
+// Dates compare on the query's precision, so created:2024 matches all of 2024.
+const dateKey = (value: unknown, bound: string) => String(value ?? "").slice(0, bound.length);
+
+const matchesCompare = (account: UserAccount, node: Extract<SearchNode, { type: "compare" }>): boolean => {
+  const actual = node.field.get(account);
+  const expected = String(node.value).toLowerCase();
+  switch (node.field.kind) {
+    case "text": return includesText(actual, expected);
+    case "enum": return String(actual ?? "").toLowerCase() === expected;
+    case "list": return (actual as string[]).some(v => v.toLowerCase() === expected);
+    case "flag": return FLAGS.get(expected)!(account);
+    case "number": return typeof actual === "number" && compare(actual, node.op, node.value as number);
+    case "date": return !!actual && compare(dateKey(actual, node.value as string), node.op, node.value as string);
+  }
+};
+
+export const matchesSearch = (account: UserAccount, node: SearchNode): boolean => {
+  switch (node.type) {
+    case "and": return node.children.every(child => matchesSearch(account, child));
+    case "or": return node.children.some(child => matchesSearch(account, child));
+    case "not": return !matchesSearch(account, node.child);
+    case "text": {
+      const needle = node.value.toLowerCase();
+      return FREE_TEXT_FIELDS.some(name => includesText(fieldByName.get(name)!.get(account), needle));
+    }
+    case "compare": return matchesCompare(account, node);
+    case "range": {
+      const actual = node.field.get(account);
+      if (actual === undefined || actual === null || actual === "") return false;
+      const key = (bound: string | number) => typeof bound === "number" ? actual as number : dateKey(actual, bound);
+      return (node.min === undefined || key(node.min) >= node.min) && (node.max === undefined || key(node.max) <= node.max);
+    }
+  }
+};
+
+export interface SearchSuggestion {
+  label: string;
+  detail: string;
+  // Replaces the text between SearchCompletion.from and .to.
+  insert: string;
+}
+
+export interface SearchCompletion {
+  from: number;
+  to: number;
+  suggestions: SearchSuggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Wraps values that would otherwise be split or misparsed in double quotes.
+export const quoteIfNeeded = (value: string) => /[\s()"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+
+// Values a field can take: its fixed list, or those found in the accounts.
+export const knownValues = (field: SearchField, accounts: UserAccount[]): string[] => {
+  if (field.values) return field.values;
+  if (field.kind === "number" || field.kind === "date") return [];
+  const values = new Set<string>();
+  accounts.forEach(account => {
+    const value = field.get(account);
+    (Array.isArray(value) ? value : [value]).forEach(v => { if (typeof v === "string" && v) values.add(v); });
+  });
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+};
+
+// Completes the word under the caret: field names, then known values once a
+// field and colon have been typed.
+export const suggestSearch = (text: string, caret: number, accounts: UserAccount[]): SearchCompletion => {
+  let from = caret;
+  while (from > 0 && !/[\s(]/.test(text[from - 1])) from--;
+  if (text[from] === "-") from++;
+  const word = text.slice(from, caret);
+  const colon = word.indexOf(":");
+  const empty = { from, to: caret, suggestions: [] };
+
+  if (colon === -1) {
+    if (!word) return empty;
+    const prefix = word.toLowerCase();
+    const suggestions = SEARCH_FIELDS
+      .filter(f => [f.name, ...f.aliases].some(name => name.startsWith(prefix)))
+      .map(f => ({ label: `${f.name}:`, detail: f.description, insert: `${f.name}:` }));
+    return { from, to: caret, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  const fieldName = word.slice(0, colon);
+  const field = fieldByName.get(fieldName.toLowerCase());
+  if (!field) return empty;
+  const prefix = word.slice(colon + 1).replace(/^"/, "").toLowerCase();
+  const suggestions = knownValues(field, accounts)
+    .filter(value => value.toLowerCase().includes(prefix) && value.toLowerCase() !== prefix)
+    .map(value => ({ label: value, detail: field.description, insert: `${fieldName}:${quoteIfNeeded(value)} ` }));
+  return { from, to: caret, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+};
@@ -0,0 +1,151 @@
+import { collectionGroup, doc, getDocs, orderBy, query, where, WriteBatch } from "firebase/firestore";
+import { db } from "./firebase";
+import { BatchOperation, commitInChunks } from "./batchWriter";
+import { isFirestoreBackend } from "./config";
+import { getActiveWorkspaceId, workspaceCollection, workspaceDoc } from "./workspaces";
+import { MetricSnapshot, UserAccount } from "../types";
+
+// Snapshots live in accounts/{id}/snapshots within the workspace. Change
+// snapshots get random ids; daily roll-ups use "daily-YYYY-MM-DD" so
+// re-running a day is a no-op. The local backends keep no history, so the
+// reads below return nothing and charts stay flat at current values.
+const SNAPSHOTS = "snapshots";
+// Present when the roll-up is enabled for a workspace; holds the date of
+// its last roll-up.
+const DAILY_ROLLUP_KEY = "socialbase.dailyRollup";
+const rollupKey = () => `${DAILY_ROLLUP_KEY}:${getActiveWorkspaceId()}`;
+
+const METRIC_FIELDS = ["followers", "engagementRate", "status"] as const;
+
+export const snapshotOf = (
+  accountId: string,
+  account: Pick<UserAccount, "followers" | "engagementRate" | "status" | "accountManager">,
+  source: MetricSnapshot["source"] = "change"
+): MetricSnapshot => ({
+  accountId,
+  // Denormalized so security rules and collection-group queries can filter on them.
+  workspaceId: getActiveWorkspaceId(),
+  accountManager: account.accountManager || "",
+  date: new Date().toISOString(),
+  followers: account.followers ?? 0,
+  engagementRate: account.engagementRate ?? 0,
+  status: account.status ?? "Active",
+  source
+});
+
+export const hasMetricChange = (before: Partial<UserAccount> | undefined, updates: Partial<UserAccount>): boolean =>
+  METRIC_FIELDS.some(field => field in updates && updates[field] !== before?.[field]);
+
+export const addSnapshotToBatch = (batch: WriteBatch, snapshot: MetricSnapshot) => {
+  batch.set(doc(workspaceCollection("accounts", snapshot.accountId, SNAPSHOTS)), snapshot);
+};
+
+// Collection-group reads are scoped by each snapshot's copy of the manager,
+// so reassigning an account rewrites the copies on its history.
+export const reassignSnapshotOperations = async (accountId: string, accountManager: string): Promise<BatchOperation[]> => {
+  const snapshot = await getDocs(workspaceCollection("accounts", accountId, SNAPSHOTS));
+  return snapshot.docs
+    .filter(d => d.data().accountManager !== accountManager)
+    .map(d => batch => batch.update(d.ref, { accountManager }));
+};
+
+export const fetchAccountSnapshots = async (accountId: string, since: Date): Promise<MetricSnapshot[]> => {
+  if (!isFirestoreBackend()) return [];
+  const q = query(
+    workspaceCollection("accounts", accountId, SNAPSHOTS),
+    where("date", ">=", since.toISOString()),
+    orderBy("date")
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(d => d.data() as MetricSnapshot);
+};
+
+// Portfolio-wide reads use a collection-group query; see firestore.indexes.json.
+// Managers must scope the query to their own accounts for the rules to allow it.
+export const fetchPortfolioSnapshots = async (since: Date, managerName?: string): Promise<MetricSnapshot[]> => {
+  if (!isFirestoreBackend()) return [];
+  const constraints = [where("workspaceId", "==", getActiveWorkspaceId()), where("date", ">=", since.toISOString()), orderBy("date")];
+  if (managerName !== undefined) constraints.splice(1, 0, where("accountManager", "==", managerName));
+  const q = query(collectionGroup(db, SNAPSHOTS), ...constraints);
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(d => d.data() as MetricSnapshot);
+};
+
+export const isDailyRollupEnabled = () => localStorage.getItem(rollupKey()) !== null;
+
+export const setDailyRollupEnabled = (enabled: boolean) => {
+  if (enabled) localStorage.setItem(rollupKey(), "");
+  else localStorage.removeItem(rollupKey());
+};
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+// Whether the roll-up is enabled and has not run today in this browser, so
+// the accounts only need loading when it has something to write.
+export const isDailyRollupDue = () => {
+  const last = localStorage.getItem(rollupKey());
+  return last !== null && last !== todayKey();
+};
+
+// Writes one roll-up snapshot per account for today. Safe to call on every
+// load; it only touches Firestore the first time each day per browser.
+export const recordDailySnapshots = async (accounts: UserAccount[]): Promise<void> => {
+  if (!isFirestoreBackend() || !isDailyRollupDue()) return;
+  const today = todayKey();
+
+  await commitInChunks(accounts.filter(a => !a.isArchived).map(account => batch => {
+    batch.set(workspaceDoc("accounts", account.id, SNAPSHOTS, `daily-${today}`), snapshotOf(account.id, account, "daily"));
+  }));
+  localStorage.setItem(rollupKey(), today);
+};
+
+export interface SeriesPoint {
+  date: string;
+  followers: number;
+  engagement: number;
+}
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// Builds one point per day for the given accounts by carrying each account's
+// latest known snapshot forward. Accounts without a snapshot in the range are
+// flat at their current values; before an account's first in-range snapshot,
+// that snapshot's value is used since nothing older was fetched.
+export const buildDailySeries = (snapshots: MetricSnapshot[], accounts: UserAccount[], days: number): SeriesPoint[] => {
+  const byAccount = new Map<string, MetricSnapshot[]>();
+  snapshots.forEach(s => {
+    if (!byAccount.has(s.accountId)) byAccount.set(s.accountId, []);
+    byAccount.get(s.accountId)!.push(s);
+  });
+
+  const points: SeriesPoint[] = [];
+  const today = new Date();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = new Date(today);
+    day.setDate(today.getDate() - offset);
+    const key = dayKey(day);
+
+    let followers = 0;
+    let engagementTotal = 0;
+    accounts.forEach(account => {
+      const history = byAccount.get(account.id);
+      let value: Pick<MetricSnapshot, "followers" | "engagementRate"> = account;
+      if (history?.length) {
+        value = history[0];
+        for (const s of history) {
+          if (s.date.slice(0, 10) > key) break;
+          value = s;
+        }
+      }
+      followers += value.followers;
+      engagementTotal += value.engagementRate;
+    });
+
+    points.push({
+      date: key.slice(5),
+      followers,
+      engagement: accounts.length ? Math.round((engagementTotal / accounts.length) * 100) / 100 : 0
+    });
+  }
+  return points;
+};
@@ -0,0 +1,54 @@
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { db } from "./firebase";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { AccountField, ColumnSort, isAccountField } from "./accountColumns";
+import { UserProfile } from "../types";
+
+// Each user's account table layout follows them across devices and
+// workspaces, in preferences/{uid}. The local backends keep it in the tab
+// ("memory") or in localStorage ("local").
+const PREFERENCES = "preferences";
+const LOCAL_PREFERENCES_KEY = "socialbase.preferences";
+
+export interface TableLayout {
+  columns: AccountField[];
+  widths: Partial<Record<AccountField, number>>;
+  sort: ColumnSort[];
+}
+
+const memoryLayouts = new Map<string, TableLayout>();
+
+// Drops columns that no longer exist so an old layout cannot break the table.
+const sanitizeLayout = (layout: any): TableLayout | null => {
+  if (!layout || !Array.isArray(layout.columns)) return null;
+  const widths = Object.fromEntries(
+    Object.entries(layout.widths ?? {}).filter(([field, width]) => isAccountField(field) && typeof width === "number")
+  );
+  return {
+    columns: layout.columns.filter(isAccountField),
+    widths,
+    sort: Array.isArray(layout.sort) ? layout.sort.filter((s: ColumnSort) => isAccountField(s?.field)) : []
+  };
+};
+
+export const loadTableLayout = async (profile: UserProfile): Promise<TableLayout | null> => {
+  if (!isFirestoreBackend()) {
+    if (DATA_BACKEND === "memory") return memoryLayouts.get(profile.uid) ?? null;
+    try {
+      return sanitizeLayout(JSON.parse(localStorage.getItem(`${LOCAL_PREFERENCES_KEY}:${profile.uid}`) || "null"));
+    } catch {
+      return null;
+    }
+  }
+  const snapshot = await getDoc(doc(db, PREFERENCES, profile.uid));
+  return snapshot.exists() ? sanitizeLayout(snapshot.data().accountTable) : null;
+};
+
+export const saveTableLayout = async (profile: UserProfile, layout: TableLayout): Promise<void> => {
+  if (!isFirestoreBackend()) {
+    if (DATA_BACKEND === "memory") memoryLayouts.set(profile.uid, layout);
+    else localStorage.setItem(`${LOCAL_PREFERENCES_KEY}:${profile.uid}`, JSON.stringify(layout));
+    return;
+  }
+  await setDoc(doc(db, PREFERENCES, profile.uid), { accountTable: layout }, { merge: true });
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { generateTotp, normalizeTotpInput, parseOtpauthUri, parseTotpSecret, secondsRemaining, TotpAlgorithm, validateTotpSecret } from "./totp";
+
+// RFC 6238 appendix B: the ASCII key "1234567890" repeated to the hash's
+// block size, 8 digits, 30 second steps.
+const RFC_SECRETS: Record<TotpAlgorithm, string> = {
+  SHA1: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ",
+  SHA256: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA====",
+  SHA512: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA="
+};
+
+const RFC_VECTORS: [number, Record<TotpAlgorithm, string>][] = [
+  [59, { SHA1: "94287082", SHA256: "46119246", SHA512: "90693936" }],
+  [1111111109, { SHA1: "07081804", SHA256: "68084774", SHA512: "25091201" }],
+  [1111111111, { SHA1: "14050471", SHA256: "67062674", SHA512: "99943326" }],
+  [1234567890, { SHA1: "89005924", SHA256: "91819424", SHA512: "93441116" }],
+  [2000000000, { SHA1: "69279037", SHA256: "90698825", SHA512: "38618901" }],
+  [20000000000, { SHA1: "65353130", SHA256: "77737706", SHA512: "47863826" }]
+];
+
+describe("generateTotp", () => {
+  RFC_VECTORS.forEach(([seconds, codes]) => {
+    (Object.keys(codes) as TotpAlgorithm[]).forEach(algorithm => {
+      it(`matches RFC 6238 for ${algorithm} at ${seconds}s`, async () => {
+        const config = { secret: RFC_SECRETS[algorithm], period: 30, digits: 8, algorithm };
+        expect(await generateTotp(config, seconds * 1000)).toBe(codes[algorithm]);
+      });
+    });
+  });
+
+  it("keeps leading zeros", async () => {
+    const config = { secret: RFC_SECRETS.SHA1, period: 30, digits: 8, algorithm: "SHA1" as const };
+    expect(await generateTotp(config, 1111111109 * 1000)).toHaveLength(8);
+  });
+});
+
+describe("secondsRemaining", () => {
+  it("counts down to the end of the step", () => {
+    expect(secondsRemaining(30, 0)).toBe(30);
+    expect(secondsRemaining(30, 29_000)).toBe(1);
+    expect(secondsRemaining(30, 30_000)).toBe(30);
+  });
+});
+
+describe("parseTotpSecret", () => {
+  it("accepts grouped, lowercase Base32 with padding", () => {
+    expect(parseTotpSecret("gezd gnbv gy3t qojq====").secret).toBe("GEZDGNBVGY3TQOJQ");
+  });
+
+  it("rejects short or non-Base32 secrets", () => {
+    expect(validateTotpSecret("GEZDGNBV")).not.toBeNull();
+    expect(validateTotpSecret("GEZDGNBVGY3TQOJ1")).not.toBeNull();
+    expect(validateTotpSecret("")).toBeNull();
+  });
+});
+
+describe("parseOtpauthUri", () => {
+  it("reads the parameters and label", () => {
+    const config = parseOtpauthUri("otpauth://totp/Acme:jane%40example.com?secret=GEZDGNBVGY3TQOJQ&issuer=Acme&algorithm=SHA256&digits=8&period=60");
+    expect(config).toEqual({
+      secret: "GEZDGNBVGY3TQOJQ",
+      period: 60,
+      digits: 8,
+      algorithm: "SHA256",
+      issuer: "Acme",
+      label: "Acme:jane@example.com"
+    });
+  });
+
+  it("rejects HOTP and bad digits", () => {
+    expect(() => parseOtpauthUri("otpauth://hotp/x?secret=GEZDGNBVGY3TQOJQ")).toThrow(/Only TOTP/);
+    expect(() => parseOtpauthUri("otpauth://totp/x?secret=GEZDGNBVGY3TQOJQ&digits=5")).toThrow(/Digits/);
+  });
+});
+
+describe("normalizeTotpInput", () => {
+  it("collapses a default URI to its secret and keeps others", () => {
+    expect(normalizeTotpInput("otpauth://totp/x?secret=gezdgnbvgy3tqojq")).toBe("GEZDGNBVGY3TQOJQ");
+    const custom = "otpauth://totp/x?secret=GEZDGNBVGY3TQOJQ&digits=8";
+    expect(normalizeTotpInput(custom)).toBe(custom);
+  });
+});
@@ -0,0 +1,171 @@
+// RFC 6238 time-based one-time passwords, computed with WebCrypto HMAC.
+
+export type TotpAlgorithm = "SHA1" | "SHA256" | "SHA512";
+
+export interface TotpConfig {
+  secret: string;
+  period: number;
+  digits: number;
+  algorithm: TotpAlgorithm;
+  issuer?: string;
+  label?: string;
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const HASH_NAMES: Record<TotpAlgorithm, string> = { SHA1: "SHA-1", SHA256: "SHA-256", SHA512: "SHA-512" };
+
+export const TOTP_DEFAULTS = { period: 30, digits: 6, algorithm: "SHA1" as TotpAlgorithm };
+
+export class TotpFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TotpFormatError";
+  }
+}
+
+// Authenticator apps display secrets in groups and lowercase; both are
+// accepted, as is trailing "=" padding.
+export const normalizeBase32 = (value: string): string =>
+  value.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+
+export const isValidBase32 = (value: string): boolean => {
+  const normalized = normalizeBase32(value);
+  return normalized.length >= 16 && /^[A-Z2-7]+$/.test(normalized);
+};
+
+export const base32Decode = (value: string): Uint8Array => {
+  const normalized = normalizeBase32(value);
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new TotpFormatError(`Invalid Base32 character "${char}".`);
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+export const isOtpauthUri = (value: string): boolean => value.trim().toLowerCase().startsWith("otpauth://");
+
+export const parseOtpauthUri = (uri: string): TotpConfig => {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch {
+    throw new TotpFormatError("Malformed otpauth URI.");
+  }
+  if (url.protocol !== "otpauth:") throw new TotpFormatError("URI must use the otpauth:// scheme.");
+  // URL puts the OTP type in `host` for non-special schemes; tolerate both spellings.
+  const type = (url.host || url.pathname.replace(/^\/\//, "").split("/")[0]).toLowerCase();
+  if (type !== "totp") throw new TotpFormatError(`Unsupported OTP type "${type}". Only TOTP is supported.`);
+
+  const params = url.searchParams;
+  const secret = params.get("secret");
+  if (!secret || !isValidBase32(secret)) throw new TotpFormatError("URI does not contain a valid Base32 secret.");
+
+  const algorithm = (params.get("algorithm") || TOTP_DEFAULTS.algorithm).toUpperCase().replace("-", "") as TotpAlgorithm;
+  if (!(algorithm in HASH_NAMES)) throw new TotpFormatError(`Unsupported algorithm "${algorithm}".`);
+
+  const digits = params.has("digits") ? Number(params.get("digits")) : TOTP_DEFAULTS.digits;
+  if (![6, 7, 8].includes(digits)) throw new TotpFormatError("Digits must be 6, 7 or 8.");
+
+  const period = params.has("period") ? Number(params.get("period")) : TOTP_DEFAULTS.period;
+  if (!Number.isInteger(period) || period <= 0) throw new TotpFormatError("Period must be a positive number of seconds.");
+
+  const label = decodeURIComponent(url.pathname.replace(/^\/+/, "").replace(/^totp\//i, ""));
+  return {
+    secret: normalizeBase32(secret),
+    period,
+    digits,
+    algorithm,
+    issuer: params.get("issuer") || undefined,
+    label: label || undefined
+  };
+};
+
+// Accepts either a bare Base32 secret or an otpauth:// URI, as stored in
+// UserAccount.twoFactorSecret.
+export const parseTotpSecret = (value: string): TotpConfig => {
+  if (isOtpauthUri(value)) return parseOtpauthUri(value);
+  if (!isValidBase32(value)) throw new TotpFormatError("Secret must be Base32 (A–Z, 2–7) and at least 16 characters.");
+  return { secret: normalizeBase32(value), ...TOTP_DEFAULTS };
+};
+
+// Returns null for a valid value, or a human-readable error.
+export const validateTotpSecret = (value: string): string | null => {
+  if (!value.trim()) return null;
+  try {
+    parseTotpSecret(value);
+    return null;
+  } catch (error) {
+    return error instanceof TotpFormatError ? error.message : "Invalid 2FA secret.";
+  }
+};
+
+// Keeps the stored value compact: a URI with default parameters collapses
+// to its bare secret, anything else is kept so period/digits/algorithm survive.
+export const normalizeTotpInput = (value: string): string => {
+  const trimmed = value.trim();
+  if (!isOtpauthUri(trimmed)) return normalizeBase32(trimmed);
+  const config = parseOtpauthUri(trimmed);
+  const isDefault = config.period === TOTP_DEFAULTS.period
+    && config.digits === TOTP_DEFAULTS.digits
+    && config.algorithm === TOTP_DEFAULTS.algorithm;
+  return isDefault ? config.secret : trimmed;
+};
+
+export const generateTotp = async (config: TotpConfig, timestamp: number = Date.now()): Promise<string> => {
+  const counter = Math.floor(timestamp / 1000 / config.period);
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    "raw", base32Decode(config.secret), { name: "HMAC", hash: HASH_NAMES[config.algorithm] }, false, ["sign"]
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+  return String(binary % 10 ** config.digits).padStart(config.digits, "0");
+};
+
+export const secondsRemaining = (period: number, timestamp: number = Date.now()): number =>
+  period - (Math.floor(timestamp / 1000) % period);
+
+// The parts of the Barcode Detection API used here; TypeScript's DOM types
+// do not include it yet.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetector;
+
+// Uses the browser's native BarcodeDetector (Chromium, Safari 17+); there is
+// no bundled QR decoder.
+export const decodeQrImage = async (file: File): Promise<string> => {
+  const Detector = (window as Window & { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) throw new TotpFormatError("QR scanning is not supported in this browser. Paste the otpauth:// URI instead.");
+  const bitmap = await createImageBitmap(file);
+  try {
+    const codes = await new Detector({ formats: ["qr_code"] }).detect(bitmap);
+    const otpCode = codes.find(c => isOtpauthUri(c.rawValue || ""));
+    if (!otpCode) throw new TotpFormatError("No otpauth QR code found in this image.");
+    return otpCode.rawValue;
+  } finally {
+    bitmap.close();
+  }
+};
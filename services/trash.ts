@@ -0,0 +1,64 @@
+import { getDoc, setDoc } from "firebase/firestore";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { getActiveWorkspaceId, workspaceDoc } from "./workspaces";
+import { UserAccount, UserProfile } from "../types";
+
+// Deleting an account only flags it (isDeleted, deletedAt, deletedBy), which
+// moves it to the Trash view with its credentials and history intact.
+// Purging removes it for good, either by hand or once it has been in the
+// trash for longer than the workspace's retention period.
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const LOCAL_RETENTION_KEY = "socialbase.trashRetention";
+const DAY = 24 * 60 * 60 * 1000;
+
+const memoryRetention = new Map<string, number>();
+
+// The retention period is stored on the workspace doc; 0 turns automatic purging off.
+export const loadTrashRetentionDays = async (): Promise<number> => {
+  if (!isFirestoreBackend()) {
+    const key = `${LOCAL_RETENTION_KEY}:${getActiveWorkspaceId()}`;
+    const stored = DATA_BACKEND === "memory" ? memoryRetention.get(key) : localStorage.getItem(key);
+    return stored === undefined || stored === null ? DEFAULT_TRASH_RETENTION_DAYS : Number(stored);
+  }
+  const snapshot = await getDoc(workspaceDoc());
+  return snapshot.data()?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = async (days: number): Promise<void> => {
+  if (!isFirestoreBackend()) {
+    const key = `${LOCAL_RETENTION_KEY}:${getActiveWorkspaceId()}`;
+    if (DATA_BACKEND === "memory") memoryRetention.set(key, days);
+    else localStorage.setItem(key, String(days));
+    return;
+  }
+  await setDoc(workspaceDoc(), { trashRetentionDays: days }, { merge: true });
+};
+
+const actorName = (profile: UserProfile) => profile.displayName || profile.email || profile.uid;
+
+export const trashUpdates = (account: UserAccount, profile: UserProfile): Partial<UserAccount> => {
+  const now = new Date().toISOString();
+  return {
+    isDeleted: true,
+    deletedAt: now,
+    deletedBy: actorName(profile),
+    history: [...(account.history || []), { date: now, action: "Moved to Trash", details: `By ${actorName(profile)}` }]
+  };
+};
+
+// deletedAt and deletedBy are kept as a record of the last deletion; they
+// only mean something while isDeleted is set.
+export const restoreUpdates = (account: UserAccount, profile: UserProfile): Partial<UserAccount> => ({
+  isDeleted: false,
+  history: [...(account.history || []), { date: new Date().toISOString(), action: "Restored from Trash", details: `By ${actorName(profile)}` }]
+});
+
+// Accounts deleted before this ISO time have outlived the retention period;
+// null when automatic purging is off. Queried as deletedBefore.
+export const purgeCutoff = (retentionDays: number, now = Date.now()): string | null =>
+  retentionDays > 0 ? new Date(now - retentionDays * DAY).toISOString() : null;
+
+export const daysUntilPurge = (account: UserAccount, retentionDays: number, now = Date.now()): number | null => {
+  if (!account.isDeleted || !account.deletedAt || retentionDays <= 0) return null;
+  return Math.max(0, Math.ceil((Date.parse(account.deletedAt) + retentionDays * DAY - now) / DAY));
+};
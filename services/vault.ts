@@ -0,0 +1,181 @@
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { getActiveWorkspaceId, workspaceDoc } from "./workspaces";
+import { DATA_BACKEND, isFirestoreBackend } from "./config";
+import { UserAccount } from "../types";
+
+// Credentials are stored as "enc:v1:<iv>:<ciphertext>" (both base64).
+// Anything without this prefix is treated as legacy plaintext.
+const CIPHER_PREFIX = "enc:v1:";
+const VERIFIER_PLAINTEXT = "socialbase-vault-check";
+const PBKDF2_ITERATIONS = 310000;
+
+export const CREDENTIAL_FIELDS = ["password", "twoFactorSecret"] as const;
+export type CredentialField = typeof CREDENTIAL_FIELDS[number];
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  verifier: string;
+  createdAt: string;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super("The credential vault is locked. Unlock it with the workspace passphrase first.");
+    this.name = "VaultLockedError";
+  }
+}
+
+export class VaultPassphraseError extends Error {
+  constructor() {
+    super("Incorrect vault passphrase.");
+    this.name = "VaultPassphraseError";
+  }
+}
+
+// The derived key only ever lives in memory, so the vault stays unlocked
+// for the lifetime of the tab and must be unlocked again after a reload.
+let sessionKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Each workspace has its own passphrase and key.
+const vaultConfigRef = () => workspaceDoc("vault", "config");
+
+// The local backends keep the config next to their accounts: in the tab for
+// "memory", in localStorage for "local".
+const LOCAL_VAULT_KEY = "socialbase.vault";
+const memoryConfigs = new Map<string, VaultConfig>();
+
+const loadVaultConfig = async (): Promise<VaultConfig | null> => {
+  if (isFirestoreBackend()) {
+    const snapshot = await getDoc(vaultConfigRef());
+    return snapshot.exists() ? snapshot.data() as VaultConfig : null;
+  }
+  const key = `${LOCAL_VAULT_KEY}:${getActiveWorkspaceId()}`;
+  if (DATA_BACKEND === "memory") return memoryConfigs.get(key) ?? null;
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved) as VaultConfig : null;
+};
+
+const saveVaultConfig = async (config: VaultConfig): Promise<void> => {
+  if (isFirestoreBackend()) return setDoc(vaultConfigRef(), config);
+  const key = `${LOCAL_VAULT_KEY}:${getActiveWorkspaceId()}`;
+  if (DATA_BACKEND === "memory") memoryConfigs.set(key, config);
+  else localStorage.setItem(key, JSON.stringify(config));
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+const encryptWithKey = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  return `${CIPHER_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(cipher))}`;
+};
+
+const decryptWithKey = async (key: CryptoKey, value: string): Promise<string> => {
+  const [iv, cipher] = value.slice(CIPHER_PREFIX.length).split(":");
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(cipher));
+  return new TextDecoder().decode(plain);
+};
+
+export const isEncrypted = (value?: string | null): boolean =>
+  typeof value === "string" && value.startsWith(CIPHER_PREFIX);
+
+export const isVaultUnlocked = (): boolean => sessionKey !== null;
+
+export const lockVault = () => {
+  sessionKey = null;
+};
+
+export const isVaultInitialized = async (): Promise<boolean> => (await loadVaultConfig()) !== null;
+
+export const initializeVault = async (passphrase: string): Promise<void> => {
+  if (await isVaultInitialized()) {
+    throw new Error("A vault passphrase has already been set for this workspace.");
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: VaultConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptWithKey(key, VERIFIER_PLAINTEXT),
+    createdAt: new Date().toISOString()
+  };
+  await saveVaultConfig(config);
+  sessionKey = key;
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const config = await loadVaultConfig();
+  if (!config) {
+    throw new Error("No vault has been initialized for this workspace.");
+  }
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    if (await decryptWithKey(key, config.verifier) !== VERIFIER_PLAINTEXT) throw new VaultPassphraseError();
+  } catch {
+    throw new VaultPassphraseError();
+  }
+  sessionKey = key;
+};
+
+export const encryptSecret = async (plaintext: string): Promise<string> => {
+  if (!sessionKey) throw new VaultLockedError();
+  return encryptWithKey(sessionKey, plaintext);
+};
+
+// Legacy plaintext values pass through unchanged so that un-migrated
+// documents can still be read.
+export const decryptSecret = async (value?: string): Promise<string> => {
+  if (!value) return "";
+  if (!isEncrypted(value)) return value;
+  if (!sessionKey) throw new VaultLockedError();
+  return decryptWithKey(sessionKey, value);
+};
+
+// Encrypts any plaintext credential fields in a write payload. Empty values
+// and values that are already ciphertext are left untouched.
+export const encryptCredentials = async <T extends Partial<UserAccount>>(payload: T): Promise<T> => {
+  const result = { ...payload };
+  for (const field of CREDENTIAL_FIELDS) {
+    const value = result[field];
+    if (typeof value === "string" && value && !isEncrypted(value)) {
+      result[field] = await encryptSecret(value) as T[CredentialField];
+    }
+  }
+  return result;
+};
+
+export const decryptCredentials = async (account: Partial<UserAccount>): Promise<Pick<UserAccount, CredentialField>> => ({
+  password: await decryptSecret(account.password),
+  twoFactorSecret: await decryptSecret(account.twoFactorSecret)
+});
+
+export const hasPlaintextCredentials = (account: Partial<UserAccount>): boolean =>
+  CREDENTIAL_FIELDS.some(field => {
+    const value = account[field];
+    return typeof value === "string" && value !== "" && !isEncrypted(value);
+  });
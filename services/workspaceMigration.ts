@@ -0,0 +1,105 @@
+import { collection, doc, getDoc, getDocs, limit, query } from "firebase/firestore";
+import { db } from "./firebase";
+import { BatchOperation, commitInChunks } from "./batchWriter";
+import { accountRef, ACCOUNTS, CREDENTIALS_DOC, SECRETS, setAccountOperations, splitCredentials } from "./accountWrites";
+import { addAuditEntryToBatch, auditEntryFor } from "./auditLog";
+import { createWorkspace, listMembers, setActiveWorkspace, workspaceDoc } from "./workspaces";
+import { AuthState, UserAccount, UserProfile, UserRole, Workspace } from "../types";
+
+// Before workspaces, accounts lived in a root "accounts" collection, roles
+// in users/{uid} and the vault config at vault/config. A legacy admin moves
+// all of it into a default workspace on sign-in. The rules reserve the
+// default workspace's id for legacy admins.
+//
+// The move can be resumed: it runs again while any root account is left,
+// and skips whatever already has a copy in the workspace, so a rerun never
+// overwrites edits made there since.
+export const DEFAULT_WORKSPACE_ID = "default";
+const DEFAULT_WORKSPACE_NAME = "Default Workspace";
+const SNAPSHOTS = "snapshots";
+
+export const isLegacyAdmin = async (uid: string): Promise<boolean> => {
+  try {
+    const snapshot = await getDoc(doc(db, "users", uid));
+    return snapshot.exists() && snapshot.data().role === "admin";
+  } catch {
+    return false;
+  }
+};
+
+export const hasLegacyAccounts = async (): Promise<boolean> => {
+  const snapshot = await getDocs(query(collection(db, ACCOUNTS), limit(1)));
+  return !snapshot.empty;
+};
+
+// Pass the default workspace when the user is already a member of it, as
+// after an interrupted migration.
+export const migrateLegacyData = async (
+  user: NonNullable<AuthState["user"]>,
+  existing?: Workspace,
+  onProgress?: (committed: number, total: number) => void
+): Promise<Workspace> => {
+  const workspace = existing ?? await createWorkspace(user, DEFAULT_WORKSPACE_NAME, DEFAULT_WORKSPACE_ID);
+  setActiveWorkspace(workspace);
+
+  const writes: (BatchOperation | BatchOperation[])[] = [];
+  const deletes: BatchOperation[] = [];
+
+  // Everyone with a legacy role keeps it in the default workspace, unless
+  // an admin has since changed it.
+  const [users, members] = await Promise.all([getDocs(collection(db, "users")), listMembers()]);
+  const memberIds = new Set(members.map(m => m.uid));
+  users.docs.filter(d => !memberIds.has(d.id) && d.data().role).forEach(d => {
+    const legacy = d.data();
+    writes.push(batch => batch.set(workspaceDoc("members", d.id), {
+      uid: d.id,
+      email: legacy.email ?? null,
+      displayName: legacy.displayName ?? null,
+      workspaceName: workspace.name,
+      role: legacy.role as UserRole,
+      managerName: legacy.managerName ?? "",
+      joinedAt: new Date().toISOString()
+    }));
+  });
+
+  // The salt and verifier move as-is so existing ciphertexts still decrypt.
+  // The workspace copy is create-only.
+  const [vaultConfig, movedVaultConfig] = await Promise.all([getDoc(doc(db, "vault", "config")), getDoc(workspaceDoc("vault", "config"))]);
+  if (vaultConfig.exists() && !movedVaultConfig.exists()) {
+    const config = vaultConfig.data();
+    writes.push(batch => batch.set(workspaceDoc("vault", "config"), config));
+  }
+
+  // Each moved account gets a "created" audit entry, which the rules require.
+  const migrator: UserProfile = { uid: user.uid, email: user.email, displayName: user.displayName, role: "admin", managerName: "" };
+  const accounts = await getDocs(collection(db, ACCOUNTS));
+  for (const accountDoc of accounts.docs) {
+    const id = accountDoc.id;
+    const [secrets, snapshots, moved] = await Promise.all([
+      getDoc(doc(db, ACCOUNTS, id, SECRETS, CREDENTIALS_DOC)),
+      getDocs(collection(db, ACCOUNTS, id, SNAPSHOTS)),
+      getDoc(accountRef(id))
+    ]);
+
+    if (!moved.exists()) {
+      // Credentials may sit inline, in the secrets doc, or both; the secrets doc wins.
+      const { credentials } = splitCredentials(secrets.data() ?? {});
+      const data = { ...accountDoc.data(), ...credentials } as Omit<UserAccount, "id">;
+      const entry = (await auditEntryFor({ type: "create", id, data }, migrator))!;
+      writes.push([...setAccountOperations(id, data, entry.id), batch => addAuditEntryToBatch(batch, entry)]);
+    }
+    if (secrets.exists()) deletes.push(batch => batch.delete(secrets.ref));
+    snapshots.docs.forEach(s => {
+      writes.push(batch => batch.set(workspaceDoc(ACCOUNTS, id, SNAPSHOTS, s.id), { ...s.data(), workspaceId: workspace.id }));
+      deletes.push(batch => batch.delete(s.ref));
+    });
+    deletes.push(batch => batch.delete(accountDoc.ref));
+  }
+
+  // Legacy documents are only removed once every copy has been written.
+  const writeCount = writes.flat().length;
+  const total = writeCount + deletes.length;
+  await commitInChunks(writes, onProgress && ((done) => onProgress(done, total)));
+  await commitInChunks(deletes, onProgress && ((done) => onProgress(writeCount + done, total)));
+  return workspace;
+};
@@ -0,0 +1,186 @@
+import { collection, collectionGroup, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch } from "firebase/firestore";
+import { db } from "./firebase";
+import { isFirestoreBackend } from "./config";
+import { DEMO_PROFILE, DEMO_WORKSPACE } from "./mockData";
+import { AuthState, UserProfile, UserRole, Workspace, WorkspaceInvite } from "../types";
+
+type SignedInUser = NonNullable<AuthState["user"]>;
+
+// Everything a team owns lives under workspaces/{id}: accounts (with their
+// secrets and snapshots), members and the vault config. Invites sit in a
+// root collection keyed by code so invitees can read them before joining.
+const WORKSPACES = "workspaces";
+const MEMBERS = "members";
+const INVITES = "invites";
+const LAST_WORKSPACE_KEY = "socialbase.workspace";
+
+// Unambiguous characters only; 32 symbols so a random byte maps without bias.
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 10;
+
+export class NoWorkspaceError extends Error {
+  constructor() {
+    super("No workspace is selected.");
+    this.name = "NoWorkspaceError";
+  }
+}
+
+export class InviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InviteError";
+  }
+}
+
+let activeWorkspace: Workspace | null = null;
+
+export const setActiveWorkspace = (workspace: Workspace | null) => {
+  activeWorkspace = workspace;
+  if (workspace) localStorage.setItem(LAST_WORKSPACE_KEY, workspace.id);
+};
+
+export const getActiveWorkspace = (): Workspace => {
+  if (!activeWorkspace) throw new NoWorkspaceError();
+  return activeWorkspace;
+};
+
+export const getActiveWorkspaceId = () => getActiveWorkspace().id;
+
+export const lastWorkspaceId = () => localStorage.getItem(LAST_WORKSPACE_KEY);
+
+// Paths below are resolved against the active workspace.
+export const workspaceDoc = (...segments: string[]) => doc(db, WORKSPACES, getActiveWorkspaceId(), ...segments);
+export const workspaceCollection = (...segments: string[]) => collection(db, WORKSPACES, getActiveWorkspaceId(), ...segments);
+
+const memberData = (user: SignedInUser, workspaceName: string, role: UserRole, managerName: string) => ({
+  // Stored on the member doc so a user's memberships can be listed with one
+  // collection-group query.
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName,
+  workspaceName,
+  role,
+  managerName,
+  joinedAt: new Date().toISOString()
+});
+
+// The local backends have a single demo workspace administered by the demo user.
+export const listWorkspaces = async (uid: string): Promise<Workspace[]> => {
+  if (!isFirestoreBackend()) return [DEMO_WORKSPACE];
+  const snapshot = await getDocs(query(collectionGroup(db, MEMBERS), where("uid", "==", uid)));
+  return snapshot.docs
+    .filter(d => d.ref.parent.parent?.parent.id === WORKSPACES)
+    .map(d => ({ id: d.ref.parent.parent!.id, name: d.data().workspaceName, role: d.data().role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The creator becomes the workspace's first admin. Pass an id to create a
+// workspace at a fixed path, as the legacy migration does.
+export const createWorkspace = async (user: SignedInUser, name: string, id?: string): Promise<Workspace> => {
+  const ref = id ? doc(db, WORKSPACES, id) : doc(collection(db, WORKSPACES));
+  const batch = writeBatch(db);
+  batch.set(ref, { name, ownerUid: user.uid, createdAt: new Date().toISOString() });
+  batch.set(doc(ref, MEMBERS, user.uid), memberData(user, name, "admin", user.displayName || ""));
+  await batch.commit();
+  return { id: ref.id, name, role: "admin" };
+};
+
+const toProfile = (uid: string, data: Record<string, any>): UserProfile => ({
+  uid,
+  email: data.email ?? null,
+  displayName: data.displayName ?? null,
+  role: data.role,
+  managerName: data.managerName ?? "",
+  joinedAt: data.joinedAt
+});
+
+export const fetchMemberProfile = async (workspaceId: string, uid: string): Promise<UserProfile | null> => {
+  if (!isFirestoreBackend()) return DEMO_PROFILE;
+  const snapshot = await getDoc(doc(db, WORKSPACES, workspaceId, MEMBERS, uid));
+  return snapshot.exists() ? toProfile(uid, snapshot.data()) : null;
+};
+
+export const listMembers = async (): Promise<UserProfile[]> => {
+  const snapshot = await getDocs(workspaceCollection(MEMBERS));
+  return snapshot.docs.map(d => toProfile(d.id, d.data()));
+};
+
+export const updateMemberRole = async (uid: string, updates: Pick<UserProfile, "role" | "managerName">): Promise<void> => {
+  await updateDoc(workspaceDoc(MEMBERS, uid), updates);
+};
+
+export const removeMember = async (uid: string): Promise<void> => {
+  await deleteDoc(workspaceDoc(MEMBERS, uid));
+};
+
+export const normalizeInviteCode = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export const formatInviteCode = (code: string) => `${code.slice(0, 5)}-${code.slice(5)}`;
+
+const generateInviteCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH)), b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join("");
+
+// Invites are bound to an email address; the invitee needs both the code
+// and a sign-in with that address to join.
+export const createInvite = async (
+  invite: Pick<WorkspaceInvite, "email" | "role" | "managerName">,
+  invitedBy: string | null
+): Promise<WorkspaceInvite> => {
+  const workspace = getActiveWorkspace();
+  const code = generateInviteCode();
+  const data: Omit<WorkspaceInvite, "code"> = {
+    workspaceId: workspace.id,
+    workspaceName: workspace.name,
+    email: invite.email.trim().toLowerCase(),
+    role: invite.role,
+    managerName: invite.managerName,
+    invitedBy,
+    createdAt: new Date().toISOString()
+  };
+  await setDoc(doc(db, INVITES, code), data);
+  return { code, ...data };
+};
+
+export const listInvites = async (): Promise<WorkspaceInvite[]> => {
+  const snapshot = await getDocs(query(collection(db, INVITES), where("workspaceId", "==", getActiveWorkspaceId())));
+  return snapshot.docs.map(d => ({ code: d.id, ...d.data() } as WorkspaceInvite));
+};
+
+export const revokeInvite = async (code: string): Promise<void> => {
+  await deleteDoc(doc(db, INVITES, code));
+};
+
+export const inviteMailto = (invite: WorkspaceInvite) => {
+  const subject = `Join ${invite.workspaceName} on SocialBase`;
+  const body = `You've been invited to the "${invite.workspaceName}" workspace.\n\nSign in with ${invite.email} and enter the invite code ${formatInviteCode(invite.code)} under "Join workspace".`;
+  return `mailto:${invite.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// Joins the invite's workspace and consumes the invite in one batch.
+export const acceptInvite = async (user: SignedInUser, rawCode: string): Promise<Workspace> => {
+  const code = normalizeInviteCode(rawCode);
+  if (code.length !== INVITE_CODE_LENGTH) throw new InviteError("Invite codes are 10 characters long.");
+
+  let invite: Omit<WorkspaceInvite, "code">;
+  try {
+    const snapshot = await getDoc(doc(db, INVITES, code));
+    if (!snapshot.exists()) throw new InviteError("This invite code does not exist or has already been used.");
+    invite = snapshot.data() as Omit<WorkspaceInvite, "code">;
+  } catch (error: any) {
+    // The rules only let the invited address read an invite, and only once
+    // it is verified, so those cases and an unknown code look the same here.
+    if (error?.code === "permission-denied") {
+      throw new InviteError(`No open invite with this code was issued to ${user.email}, or the address is not verified yet.`);
+    }
+    throw error;
+  }
+
+  const batch = writeBatch(db);
+  batch.set(doc(db, WORKSPACES, invite.workspaceId, MEMBERS, user.uid), {
+    ...memberData(user, invite.workspaceName, invite.role, invite.managerName),
+    inviteCode: code
+  });
+  batch.delete(doc(db, INVITES, code));
+  await batch.commit();
+  return { id: invite.workspaceId, name: invite.workspaceName, role: invite.role };
+};
@@ -4,10 +4,15 @@ export interface ActivityLog {
   details?: string;
 }
 
+// Networks accounts can belong to; their metadata lives in services/platforms.ts.
+export type Platform =
+  | 'Twitter' | 'Instagram' | 'LinkedIn' | 'TikTok' | 'YouTube' | 'Facebook'
+  | 'Threads' | 'Bluesky' | 'Reddit' | 'Pinterest' | 'Snapchat';
+
 export interface UserAccount {
   id: string;
   username: string;
-  platform: 'Twitter' | 'Instagram' | 'LinkedIn' | 'TikTok';
+  platform: Platform;
   followers: number;
   engagementRate: number;
   status: 'Active' | 'Shadowbanned' | 'Suspended' | 'Verified';
@@ -36,9 +41,31 @@ export interface UserAccount {
   lastPostedDate?: string;
   creationDate?: string;
   notes?: string;
+
+  // Trash: deleted accounts are flagged rather than removed until purged.
+  isDeleted?: boolean;
+  deletedAt?: string;
+  deletedBy?: string;
   
   // Activity History
   history?: ActivityLog[];
+
+  // AI audits, oldest first. The latest one's date and sentiment are copied
+  // to the top level so the table can sort on them.
+  aiAudits?: AIAuditRecord[];
+  lastAuditedAt?: string;
+  lastAuditSentiment?: string;
+}
+
+export interface MetricSnapshot {
+  accountId: string;
+  workspaceId?: string;
+  accountManager?: string;
+  date: string;
+  followers: number;
+  engagementRate: number;
+  status: UserAccount['status'];
+  source: 'change' | 'daily';
 }
 
 export interface AuthState {
@@ -50,9 +77,44 @@ export interface AuthState {
   } | null;
 }
 
+export type UserRole = 'admin' | 'manager' | 'viewer';
+
+export interface UserProfile {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: UserRole;
+  // Matched against UserAccount.accountManager to scope what a manager sees.
+  managerName: string;
+  joinedAt?: string;
+}
+
+// A workspace the signed-in user belongs to, with their role in it.
+export interface Workspace {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface WorkspaceInvite {
+  code: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+  role: UserRole;
+  managerName: string;
+  invitedBy: string | null;
+  createdAt: string;
+}
+
+// Table actions on a selection. delete moves to the trash; recover and
+// purge act on accounts already in it.
+export type BulkAction = 'archive' | 'restore' | 'delete' | 'recover' | 'purge';
+
 export enum AppView {
   DASHBOARD = 'DASHBOARD',
   ACCOUNTS = 'ACCOUNTS',
+  AUDIT = 'AUDIT',
   SETTINGS = 'SETTINGS'
 }
 
@@ -61,4 +123,36 @@ export interface AIAnalysisResult {
   strengths: string[];
   weaknesses: string[];
   growthStrategy: string;
-}
\ No newline at end of file
+}
+
+// A stored audit: the result plus when, with which model and by whom it ran.
+export interface AIAuditRecord extends AIAnalysisResult {
+  date: string;
+  model: string;
+  auditedBy?: string;
+}
+export type ContentDraftKind = 'bio' | 'post';
+
+// One saved state of a draft. Generated text records its model; edits by hand do not.
+export interface ContentDraftVersion {
+  text: string;
+  date: string;
+  author: string;
+  model?: string;
+}
+
+// Generated copy kept for an account, in accounts/{id}/drafts. Versions are
+// oldest first; the last one is current.
+export interface ContentDraft {
+  id: string;
+  accountId: string;
+  kind: ContentDraftKind;
+  // Post ideas carry a short title; bios do not.
+  title?: string;
+  tone: string;
+  versions: ContentDraftVersion[];
+  // Set when a bio draft was written to the account.
+  acceptedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
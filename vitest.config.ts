@@ -0,0 +1,28 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // The rules tests share one emulator database.
+    fileParallelism: false,
+    projects: [
+      {
+        test: {
+          name: 'unit',
+          include: ['services/**/*.test.ts'],
+          // localStorage and window for the modules that keep local state;
+          // the in-memory backend keeps everything else off Firebase.
+          environment: 'happy-dom',
+          env: { DATA_BACKEND: 'memory' }
+        }
+      },
+      {
+        test: {
+          name: 'rules',
+          include: ['firestore.rules.test.ts'],
+          environment: 'node',
+          testTimeout: 20000
+        }
+      }
+    ]
+  }
+});